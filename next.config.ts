@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // Ships its own pdf.js build, which should not be bundled
+  serverExternalPackages: ['unpdf'],
 };
 
 export default nextConfig;
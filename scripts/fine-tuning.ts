@@ -0,0 +1,60 @@
+// Validate fine_tuning.jsonl and convert it for OpenAI chat fine-tuning.
+//
+//   npm run fine-tuning -- [input] [--out dir] [--validation-ratio 0.2] [--seed 42]
+//                          [--system-prompt-file path] [--check]
+//
+// Prints a report and writes train.jsonl, validation.jsonl and report.json to
+// the output directory. --check only prints the report. Exits with status 1
+// when the dataset has errors.
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { formatReport, prepareDataset, toJsonl } from '@/lib/fineTuning';
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'fine-tuning-output' },
+      'validation-ratio': { type: 'string', default: '0.2' },
+      seed: { type: 'string', default: '42' },
+      'system-prompt-file': { type: 'string' },
+      check: { type: 'boolean', default: false }
+    }
+  });
+
+  const input = positionals[0] || 'fine_tuning.jsonl';
+  const validationRatio = Number(values['validation-ratio']);
+  if (!(validationRatio >= 0 && validationRatio < 1)) {
+    throw new Error('--validation-ratio must be between 0 and 1');
+  }
+
+  const systemPrompt = values['system-prompt-file']
+    ? (await readFile(values['system-prompt-file'], 'utf8')).trim()
+    : undefined;
+
+  const { report, train, validation } = prepareDataset(await readFile(input, 'utf8'), {
+    validationRatio,
+    seed: Number(values.seed),
+    systemPrompt
+  });
+
+  console.log(`Dataset: ${input}\n`);
+  console.log(formatReport(report));
+
+  if (!values.check) {
+    await mkdir(values.out, { recursive: true });
+    await writeFile(path.join(values.out, 'train.jsonl'), toJsonl(train));
+    await writeFile(path.join(values.out, 'validation.jsonl'), toJsonl(validation));
+    await writeFile(path.join(values.out, 'report.json'), JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nWrote ${values.out}/train.jsonl, validation.jsonl and report.json`);
+  }
+
+  process.exitCode = report.errors > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
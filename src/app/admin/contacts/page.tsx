@@ -0,0 +1,228 @@
+'use client'
+import { useState, useEffect, useCallback } from "react";
+import Link from 'next/link';
+import { supabase } from '../../supabaseClient';
+import type { Contact, ContactFields } from '@/lib/contacts';
+import { RESTRICTED_CONTACT_ROLES, ROLE_LABELS } from '@/lib/profiles';
+
+const RESTRICTED_ROLES_TEXT = RESTRICTED_CONTACT_ROLES.map(role => ROLE_LABELS[role].toLowerCase()).join(', ');
+
+type TextField = Exclude<keyof ContactFields, 'restricted'>;
+
+type ContactForm = Record<TextField, string> & { restricted: boolean };
+
+const EMPTY_FORM: ContactForm = {
+  name: '',
+  role: '',
+  company: '',
+  email: '',
+  phone: '',
+  notes: '',
+  restricted: false,
+};
+
+const FIELDS: Array<{ key: TextField; label: string; placeholder?: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'role', label: 'Role', placeholder: 'e.g. Senior Project Manager' },
+  { key: 'company', label: 'Company', placeholder: 'e.g. First Glass of Arkansas' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'notes', label: 'Notes', placeholder: 'e.g. glass quotes, storefront hardware' },
+];
+
+// Authorization header for the admin API routes
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+function toForm(contact: Contact): ContactForm {
+  return {
+    name: contact.name,
+    role: contact.role || '',
+    company: contact.company || '',
+    email: contact.email || '',
+    phone: contact.phone || '',
+    notes: contact.notes || '',
+    restricted: contact.restricted,
+  };
+}
+
+export default function ContactsAdminPage() {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<ContactForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadContacts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/contacts', { headers: await getAuthHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load contacts');
+      }
+      setContacts(data.contacts);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load contacts');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadContacts();
+  }, [loadContacts]);
+
+  function startEdit(contact: Contact) {
+    setEditingId(contact.id);
+    setForm(toForm(contact));
+    setNotice(null);
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  }
+
+  async function handleSave(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(editingId ? `/api/admin/contacts/${editingId}` : '/api/admin/contacts', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Save failed');
+      }
+
+      setNotice(`${editingId ? 'Updated' : 'Added'} ${data.contact.name}`);
+      resetForm();
+      await loadContacts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(contact: Contact) {
+    if (!confirm(`Delete ${contact.name}? The assistant will no longer give out their details.`)) return;
+
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/admin/contacts/${contact.id}`, {
+        method: 'DELETE',
+        headers: await getAuthHeaders(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Delete failed');
+      }
+      if (editingId === contact.id) resetForm();
+      await loadContacts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Delete failed');
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-6 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">Contacts</h1>
+            <p className="text-sm text-gray-500">People the assistant gives out when asked: staff, GCs and vendor reps. Remove people when they leave.</p>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">Back to chat</Link>
+        </div>
+
+        <form onSubmit={handleSave} className="bg-white border border-gray-200 rounded-2xl shadow-sm p-5 mb-6 grid grid-cols-2 md:grid-cols-3 gap-3">
+          {FIELDS.map(field => (
+            <label key={field.key} className="text-xs font-medium text-gray-600">
+              {field.label}
+              <input
+                value={form[field.key]}
+                onChange={e => setForm(current => ({ ...current, [field.key]: e.target.value }))}
+                placeholder={field.placeholder}
+                type={field.key === 'email' ? 'email' : field.key === 'phone' ? 'tel' : 'text'}
+                required={field.key === 'name'}
+                className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm text-gray-800"
+              />
+            </label>
+          ))}
+          <label className="col-span-2 md:col-span-3 flex items-center gap-2 text-xs font-medium text-gray-600">
+            <input
+              type="checkbox"
+              checked={form.restricted}
+              onChange={e => setForm(current => ({ ...current, restricted: e.target.checked }))}
+            />
+            Restricted: only {RESTRICTED_ROLES_TEXT} can look this person up
+          </label>
+          <div className="col-span-2 md:col-span-3 flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? 'Saving…' : editingId ? 'Save changes' : 'Add contact'}
+            </button>
+            {editingId && (
+              <button type="button" onClick={resetForm} className="text-sm text-gray-500 hover:underline">Cancel</button>
+            )}
+          </div>
+        </form>
+
+        {error && <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">{error}</div>}
+        {notice && <div className="mb-4 px-4 py-3 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800">{notice}</div>}
+
+        <div className="bg-white border border-gray-200 rounded-2xl shadow-sm overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+              <tr>
+                <th className="px-4 py-3">Name</th>
+                <th className="px-4 py-3">Role</th>
+                <th className="px-4 py-3">Company</th>
+                <th className="px-4 py-3">Email</th>
+                <th className="px-4 py-3">Phone</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {loading ? (
+                <tr><td colSpan={6} className="px-4 py-6 text-center text-gray-400">Loading…</td></tr>
+              ) : contacts.length === 0 ? (
+                <tr><td colSpan={6} className="px-4 py-6 text-center text-gray-400">No contacts yet</td></tr>
+              ) : contacts.map(contact => (
+                <tr key={contact.id} className={editingId === contact.id ? 'bg-blue-50/50 text-gray-800' : 'text-gray-800'}>
+                  <td className="px-4 py-3 font-medium">
+                    {contact.name}
+                    {contact.restricted && <span className="ml-2 px-2 py-0.5 border rounded-full text-xs font-normal bg-amber-50 text-amber-800 border-amber-200">Restricted</span>}
+                    {contact.notes && <div className="text-xs font-normal text-gray-400">{contact.notes}</div>}
+                  </td>
+                  <td className="px-4 py-3">{contact.role}</td>
+                  <td className="px-4 py-3">{contact.company}</td>
+                  <td className="px-4 py-3">{contact.email}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">{contact.phone}</td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <button onClick={() => startEdit(contact)} className="text-blue-600 hover:underline text-xs mr-3">Edit</button>
+                    <button onClick={() => handleDelete(contact)} className="text-red-600 hover:underline text-xs">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+'use client'
+import { useState, useEffect, useCallback } from "react";
+import Link from 'next/link';
+import { supabase } from '../../supabaseClient';
+import type { EquipmentRule, EstimatingRates } from '@/lib/estimating/rates';
+
+// Authorization header for the admin API routes
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+// Number inputs are edited as text so fields can be left empty
+type RuleForm = Record<keyof EquipmentRule, string>;
+
+const RULE_FIELDS: Array<{ key: keyof EquipmentRule; label: string; placeholder?: string }> = [
+  { key: 'equipment', label: 'Equipment' },
+  { key: 'heightOverFt', label: 'Frames over (ft)', placeholder: '—' },
+  { key: 'fromFloor', label: 'From floor', placeholder: '—' },
+  { key: 'monthlyRate', label: 'Per month ($)' },
+  { key: 'deliveryFee', label: 'Delivery ($)' },
+  { key: 'pickupFee', label: 'Pickup ($)' },
+];
+
+function toForm(rule: EquipmentRule): RuleForm {
+  return {
+    equipment: rule.equipment,
+    heightOverFt: rule.heightOverFt?.toString() ?? '',
+    fromFloor: rule.fromFloor?.toString() ?? '',
+    monthlyRate: rule.monthlyRate.toString(),
+    deliveryFee: rule.deliveryFee.toString(),
+    pickupFee: rule.pickupFee.toString(),
+  };
+}
+
+function fromForm(form: RuleForm): EquipmentRule {
+  const optional = (value: string) => value.trim() === '' ? undefined : Number(value);
+  return {
+    equipment: form.equipment.trim(),
+    heightOverFt: optional(form.heightOverFt),
+    fromFloor: optional(form.fromFloor),
+    monthlyRate: Number(form.monthlyRate),
+    deliveryFee: Number(form.deliveryFee),
+    pickupFee: Number(form.pickupFee),
+  };
+}
+
+export default function EstimatingRatesAdminPage() {
+  const [rules, setRules] = useState<RuleForm[]>([]);
+  const [otherOverrides, setOtherOverrides] = useState('{}');
+  const [rates, setRates] = useState<EstimatingRates | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadRates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/estimating-rates', { headers: await getAuthHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load rates');
+      }
+      // Equipment rules are edited in the table, everything else as JSON
+      const others = { ...data.overrides };
+      delete others.equipment;
+      setRules(data.rates.equipment.map(toForm));
+      setOtherOverrides(JSON.stringify(others, null, 2));
+      setRates(data.rates);
+      setUpdatedAt(data.updatedAt);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load rates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  function updateRule(index: number, key: keyof EquipmentRule, value: string) {
+    setRules(current => current.map((rule, i) => i === index ? { ...rule, [key]: value } : rule));
+  }
+
+  async function handleSave(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+
+    let others: Record<string, unknown>;
+    try {
+      others = JSON.parse(otherOverrides || '{}');
+    } catch {
+      setError('Other overrides are not valid JSON');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/admin/estimating-rates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({ overrides: { ...others, equipment: rules.map(fromForm) } }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Save failed');
+      }
+      setNotice('Rates saved. The assistant uses them within a minute.');
+      await loadRates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-6 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">Estimating rates</h1>
+            <p className="text-sm text-gray-500">Rates and rules the assistant&apos;s pricing tools use.{updatedAt && ` Last saved ${new Date(updatedAt).toLocaleString()}.`}</p>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">Back to chat</Link>
+        </div>
+
+        {error && <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">{error}</div>}
+        {notice && <div className="mb-4 px-4 py-3 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800">{notice}</div>}
+
+        {loading ? (
+          <div className="px-4 py-6 text-center text-sm text-gray-400">Loading…</div>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-6">
+            <div className="bg-white border border-gray-200 rounded-2xl shadow-sm overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-100">
+                <h2 className="font-semibold text-gray-800">Lifts and equipment</h2>
+                <p className="text-xs text-gray-400">Checked top to bottom; the first rule whose height or floor matches the job applies. Leave a condition empty to ignore it.</p>
+              </div>
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+                  <tr>
+                    {RULE_FIELDS.map(field => <th key={field.key} className="px-3 py-2">{field.label}</th>)}
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rules.map((rule, index) => (
+                    <tr key={index}>
+                      {RULE_FIELDS.map(field => (
+                        <td key={field.key} className="px-3 py-2">
+                          <input
+                            value={rule[field.key]}
+                            onChange={e => updateRule(index, field.key, e.target.value)}
+                            placeholder={field.placeholder}
+                            inputMode={field.key === 'equipment' ? 'text' : 'decimal'}
+                            className={`px-2 py-1 border border-gray-200 rounded-md text-gray-800 ${field.key === 'equipment' ? 'w-full min-w-40' : 'w-24'}`}
+                          />
+                        </td>
+                      ))}
+                      <td className="px-3 py-2 text-right">
+                        <button type="button" onClick={() => setRules(current => current.filter((_, i) => i !== index))} className="text-red-600 hover:underline text-xs">Remove</button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="px-4 py-3 border-t border-gray-100">
+                <button
+                  type="button"
+                  onClick={() => setRules(current => [...current, { equipment: '', heightOverFt: '', fromFloor: '', monthlyRate: '', deliveryFee: '0', pickupFee: '0' }])}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  Add rule
+                </button>
+              </div>
+            </div>
+
+            <div className="bg-white border border-gray-200 rounded-2xl shadow-sm p-4">
+              <h2 className="font-semibold text-gray-800">Other overrides</h2>
+              <p className="text-xs text-gray-400 mb-2">JSON overriding any other standard below, e.g. {'{"laborRate": 70, "markup": {"default": 0.32}}'}.</p>
+              <textarea
+                value={otherOverrides}
+                onChange={e => setOtherOverrides(e.target.value)}
+                rows={6}
+                spellCheck={false}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg font-mono text-xs text-gray-800"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? 'Saving…' : 'Save rates'}
+            </button>
+
+            {rates && (
+              <details className="bg-white border border-gray-200 rounded-2xl shadow-sm p-4">
+                <summary className="cursor-pointer font-semibold text-gray-800">Current rates</summary>
+                <pre className="mt-3 text-xs text-gray-600 overflow-x-auto">{JSON.stringify(rates, null, 2)}</pre>
+              </details>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
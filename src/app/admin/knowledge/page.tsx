@@ -0,0 +1,177 @@
+'use client'
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from 'next/link';
+import { supabase } from '../../supabaseClient';
+import type { KnowledgeDocument } from '@/lib/knowledge/store';
+
+const FILE_TYPE_LABELS: Record<string, string> = {
+  pdf: 'PDF',
+  docx: 'Word',
+  markdown: 'Markdown',
+};
+
+// Authorization header for the admin API routes
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function KnowledgeAdminPage() {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadDocuments = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/knowledge', { headers: await getAuthHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load documents');
+      }
+      setDocuments(data.documents);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load documents');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  async function handleUpload(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const file = fileInputRef.current?.files?.[0];
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/admin/knowledge', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Upload failed');
+      }
+
+      setNotice(`Indexed ${data.document.name} (version ${data.document.version}, ${data.document.chunk_count} chunks)`);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      await loadDocuments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function handleDelete(document: KnowledgeDocument) {
+    if (!confirm(`Delete ${document.name} version ${document.version}? It will no longer be searched by the assistant.`)) return;
+
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/admin/knowledge/${document.id}`, {
+        method: 'DELETE',
+        headers: await getAuthHeaders(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Delete failed');
+      }
+      await loadDocuments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Delete failed');
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-6 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">Knowledge base</h1>
+            <p className="text-sm text-gray-500">Company documents the assistant searches and cites: handbooks, estimating standards, spec templates.</p>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">Back to chat</Link>
+        </div>
+
+        <form onSubmit={handleUpload} className="bg-white border border-gray-200 rounded-2xl shadow-sm p-5 mb-6 flex flex-wrap items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            name="file"
+            accept=".pdf,.docx,.md,.markdown"
+            className="flex-1 text-sm text-gray-700 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+          />
+          <button
+            type="submit"
+            disabled={uploading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {uploading ? 'Indexing…' : 'Upload'}
+          </button>
+          <p className="w-full text-xs text-gray-400">PDF, DOCX or Markdown. Uploading a file with the same name as an existing document adds a new version and replaces the old one in the index.</p>
+        </form>
+
+        {error && <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">{error}</div>}
+        {notice && <div className="mb-4 px-4 py-3 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800">{notice}</div>}
+
+        <div className="bg-white border border-gray-200 rounded-2xl shadow-sm overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+              <tr>
+                <th className="px-4 py-3">Document</th>
+                <th className="px-4 py-3">Version</th>
+                <th className="px-4 py-3">Type</th>
+                <th className="px-4 py-3">Size</th>
+                <th className="px-4 py-3">Chunks</th>
+                <th className="px-4 py-3">Uploaded</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {loading ? (
+                <tr><td colSpan={7} className="px-4 py-6 text-center text-gray-400">Loading…</td></tr>
+              ) : documents.length === 0 ? (
+                <tr><td colSpan={7} className="px-4 py-6 text-center text-gray-400">No documents yet</td></tr>
+              ) : documents.map(document => (
+                <tr key={document.id} className={document.status === 'superseded' ? 'text-gray-400' : 'text-gray-800'}>
+                  <td className="px-4 py-3 font-medium">{document.name}</td>
+                  <td className="px-4 py-3">
+                    v{document.version}
+                    {document.status === 'superseded' && <span className="ml-2 text-xs italic">superseded</span>}
+                  </td>
+                  <td className="px-4 py-3">{FILE_TYPE_LABELS[document.file_type] || document.file_type}</td>
+                  <td className="px-4 py-3">{formatSize(document.size_bytes)}</td>
+                  <td className="px-4 py-3">{document.chunk_count}</td>
+                  <td className="px-4 py-3">{new Date(document.created_at).toLocaleDateString()}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button onClick={() => handleDelete(document)} className="text-red-600 hover:underline text-xs">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+'use client'
+import { useState, useEffect, useCallback } from "react";
+import Link from 'next/link';
+import { supabase } from '../../supabaseClient';
+import { PRICING_ROLES, ROLES, ROLE_LABELS, type Profile, type ProfileStatus, type Role } from '@/lib/profiles';
+import { INVITE_TTL_DAYS, inviteStatus, type Invite } from '@/lib/invites';
+
+const STATUS_STYLES: Record<ProfileStatus, string> = {
+  pending: 'bg-amber-50 text-amber-800 border-amber-200',
+  approved: 'bg-green-50 text-green-800 border-green-200',
+  revoked: 'bg-gray-100 text-gray-600 border-gray-200',
+};
+
+// Authorization header for the admin API routes
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+export default function UsersAdminPage() {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [inviting, setInviting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const headers = await getAuthHeaders();
+      const [usersResponse, invitesResponse] = await Promise.all([
+        fetch('/api/admin/users', { headers }),
+        fetch('/api/admin/invites', { headers }),
+      ]);
+      const [usersData, invitesData] = await Promise.all([usersResponse.json(), invitesResponse.json()]);
+      if (!usersResponse.ok) {
+        throw new Error(usersData.error || 'Failed to load users');
+      }
+      if (!invitesResponse.ok) {
+        throw new Error(invitesData.error || 'Failed to load invites');
+      }
+      setProfiles(usersData.profiles);
+      setInvites(invitesData.invites);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  async function updateUser(profile: Profile, fields: { role?: Role; status?: ProfileStatus }) {
+    setSavingId(profile.id);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/admin/users/${profile.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify(fields),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Save failed');
+      }
+
+      const name = data.profile.email || 'User';
+      setNotice(fields.status
+        ? `${name} is now ${data.profile.status}`
+        : `${name} is now ${ROLE_LABELS[data.profile.role as Role].toLowerCase()}`);
+      await loadProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  async function handleInvite(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setInviting(true);
+    setError(null);
+    setNotice(null);
+    setInviteUrl(null);
+    try {
+      const response = await fetch('/api/admin/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({ email: inviteEmail }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Invite failed');
+      }
+
+      setInviteUrl(data.url);
+      setInviteEmail('');
+      await loadProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invite failed');
+    } finally {
+      setInviting(false);
+    }
+  }
+
+  async function handleRevokeInvite(invite: Invite) {
+    if (!confirm(`Revoke the invite for ${invite.email}?`)) return;
+
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/admin/invites/${invite.id}`, {
+        method: 'DELETE',
+        headers: await getAuthHeaders(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Revoke failed');
+      }
+      await loadProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Revoke failed');
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-6 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">Users</h1>
+            <p className="text-sm text-gray-500">
+              Roles decide what the assistant shares. Pricing tools, markup and labor rates are limited to {PRICING_ROLES.map(role => ROLE_LABELS[role].toLowerCase()).join(', ')}. Changes apply from the user&apos;s next message.
+            </p>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">Back to chat</Link>
+        </div>
+
+        <form onSubmit={handleInvite} className="bg-white border border-gray-200 rounded-2xl shadow-sm p-5 mb-6 text-sm">
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex-1 text-xs font-medium text-gray-600">
+              Invite someone outside the company, e.g. an outside contractor
+              <input
+                type="email"
+                required
+                value={inviteEmail}
+                onChange={e => setInviteEmail(e.target.value)}
+                placeholder="name@example.com"
+                className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm text-gray-800"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={inviting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {inviting ? 'Creating…' : 'Create invite link'}
+            </button>
+          </div>
+          {inviteUrl && (
+            <div className="mt-3">
+              <input readOnly value={inviteUrl} onFocus={e => e.target.select()} className="w-full px-2 py-1.5 border border-gray-200 rounded-md text-xs text-gray-700 bg-gray-50" />
+              <p className="mt-1 text-xs text-gray-400">Send this link to them; it is shown only once. It expires in {INVITE_TTL_DAYS} days and only works for that email address.</p>
+            </div>
+          )}
+        </form>
+
+        {error && <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">{error}</div>}
+        {notice && <div className="mb-4 px-4 py-3 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800">{notice}</div>}
+
+        <div className="bg-white border border-gray-200 rounded-2xl shadow-sm overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+              <tr>
+                <th className="px-4 py-3">Email</th>
+                <th className="px-4 py-3">Name</th>
+                <th className="px-4 py-3">Joined</th>
+                <th className="px-4 py-3">Role</th>
+                <th className="px-4 py-3">Access</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {loading ? (
+                <tr><td colSpan={5} className="px-4 py-6 text-center text-gray-400">Loading…</td></tr>
+              ) : profiles.length === 0 ? (
+                <tr><td colSpan={5} className="px-4 py-6 text-center text-gray-400">No users yet</td></tr>
+              ) : profiles.map(profile => (
+                <tr key={profile.id} className="text-gray-800">
+                  <td className="px-4 py-3 font-medium">{profile.email}</td>
+                  <td className="px-4 py-3">{profile.full_name}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">{new Date(profile.created_at).toLocaleDateString()}</td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={profile.role}
+                      disabled={savingId === profile.id}
+                      onChange={e => updateUser(profile, { role: e.target.value as Role })}
+                      className="px-2 py-1 border border-gray-200 rounded-md text-sm text-gray-800 disabled:opacity-50"
+                    >
+                      {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span className={`px-2 py-0.5 border rounded-full text-xs capitalize ${STATUS_STYLES[profile.status]}`}>{profile.status}</span>
+                    {profile.status === 'approved' ? (
+                      <button onClick={() => updateUser(profile, { status: 'revoked' })} disabled={savingId === profile.id} className="ml-3 text-red-600 hover:underline text-xs">Revoke</button>
+                    ) : (
+                      <button onClick={() => updateUser(profile, { status: 'approved' })} disabled={savingId === profile.id} className="ml-3 text-blue-600 hover:underline text-xs">Approve</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <h2 className="text-lg font-semibold text-gray-800 mt-8 mb-3">Invites</h2>
+        <div className="bg-white border border-gray-200 rounded-2xl shadow-sm overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+              <tr>
+                <th className="px-4 py-3">Email</th>
+                <th className="px-4 py-3">Sent</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {invites.length === 0 ? (
+                <tr><td colSpan={4} className="px-4 py-6 text-center text-gray-400">No invites</td></tr>
+              ) : invites.map(invite => {
+                const status = inviteStatus(invite);
+                return (
+                  <tr key={invite.id} className="text-gray-800">
+                    <td className="px-4 py-3 font-medium">{invite.email}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">{new Date(invite.created_at).toLocaleDateString()}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-500">
+                      {status === 'open' ? `Expires ${new Date(invite.expires_at).toLocaleDateString()}` : status === 'accepted' ? 'Accepted' : 'Expired'}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {status === 'open' && (
+                        <button onClick={() => handleRevokeInvite(invite)} className="text-red-600 hover:underline text-xs">Revoke</button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, unauthorized } from '@/lib/auth';
+import { allowedEmailDomains } from '@/lib/profiles';
+
+// The signed-in user's access, so the chat can show the waiting screen to
+// accounts that are not approved. Open to those accounts too.
+export async function GET(req: NextRequest) {
+  const auth = await authenticate(req);
+  if (!auth) return unauthorized();
+
+  return NextResponse.json({
+    email: auth.user.email ?? null,
+    role: auth.role,
+    status: auth.status,
+    approved: auth.approved,
+    allowedDomains: allowedEmailDomains()
+  });
+}
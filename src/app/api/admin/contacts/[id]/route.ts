@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/auth';
+import { deleteContact, updateContact, validateContact } from '@/lib/contacts';
+
+// Replace a contact's details
+export const PUT = withAdmin(async (req: NextRequest, { supabaseAdmin }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const validation = validateContact(await req.json());
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const contact = await updateContact(supabaseAdmin, id, validation.fields);
+    if (!contact) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ contact });
+
+  } catch (err) {
+    console.error('Error updating contact:', err);
+    return NextResponse.json({
+      error: 'Failed to update contact',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// Remove someone who has left or is no longer a vendor contact
+export const DELETE = withAdmin(async (req: NextRequest, { supabaseAdmin }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    await deleteContact(supabaseAdmin, id);
+    return NextResponse.json({ success: true });
+
+  } catch (err) {
+    console.error('Error deleting contact:', err);
+    return NextResponse.json({
+      error: 'Failed to delete contact',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
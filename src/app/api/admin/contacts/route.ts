@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/auth';
+import { createContact, listContacts, validateContact } from '@/lib/contacts';
+
+// List the contacts directory
+export const GET = withAdmin(async (req: NextRequest, { supabaseAdmin }) => {
+  try {
+    const contacts = await listContacts(supabaseAdmin);
+    return NextResponse.json({ contacts });
+
+  } catch (err) {
+    console.error('Error listing contacts:', err);
+    return NextResponse.json({
+      error: 'Failed to list contacts',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// Add a contact: { name, role?, company?, email?, phone?, notes? }
+export const POST = withAdmin(async (req: NextRequest, { supabaseAdmin }) => {
+  try {
+    const validation = validateContact(await req.json());
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const contact = await createContact(supabaseAdmin, validation.fields);
+    return NextResponse.json({ contact });
+
+  } catch (err) {
+    console.error('Error creating contact:', err);
+    return NextResponse.json({
+      error: 'Failed to create contact',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/auth';
+import { getEstimatingRates, getRateSettings, mergeRates, saveRateSettings, validateRateOverrides } from '@/lib/estimating';
+
+// Saved overrides, plus the rates the tools price with
+export const GET = withAdmin(async (req: NextRequest, { supabaseAdmin }) => {
+  try {
+    const settings = await getRateSettings(supabaseAdmin);
+    return NextResponse.json({
+      ...settings,
+      defaults: getEstimatingRates(),
+      rates: mergeRates(getEstimatingRates(), settings.overrides)
+    });
+
+  } catch (err) {
+    console.error('Error loading estimating rates:', err);
+    return NextResponse.json({
+      error: 'Failed to load estimating rates',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// Replace the saved overrides (body `{ overrides }`)
+export const PUT = withAdmin(async (req: NextRequest, { user, supabaseAdmin }) => {
+  try {
+    const { overrides } = await req.json();
+    const validationError = validateRateOverrides(overrides);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await saveRateSettings(supabaseAdmin, overrides, user.id);
+    return NextResponse.json({ overrides, rates: mergeRates(getEstimatingRates(), overrides) });
+
+  } catch (err) {
+    console.error('Error saving estimating rates:', err);
+    return NextResponse.json({
+      error: 'Failed to save estimating rates',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
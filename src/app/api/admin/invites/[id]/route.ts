@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/auth';
+import { deleteInvite } from '@/lib/invites';
+
+// Revoke an invite. Accounts already approved through it stay approved.
+export const DELETE = withAdmin(async (req: NextRequest, { supabaseAdmin }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    if (!await deleteInvite(supabaseAdmin, id)) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (err) {
+    console.error('Error revoking invite:', err);
+    return NextResponse.json({
+      error: 'Failed to revoke invite',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
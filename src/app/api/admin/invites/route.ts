@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/auth';
+import { createInvite, isValidEmail, listInvites } from '@/lib/invites';
+
+// List invites, newest first
+export const GET = withAdmin(async (req: NextRequest, { supabaseAdmin }) => {
+  try {
+    const invites = await listInvites(supabaseAdmin);
+    return NextResponse.json({ invites });
+
+  } catch (err) {
+    console.error('Error listing invites:', err);
+    return NextResponse.json({
+      error: 'Failed to list invites',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// Invite someone from outside the company domains: { email }. Returns the
+// link to send them; it is not shown again.
+export const POST = withAdmin(async (req: NextRequest, { user, supabaseAdmin }) => {
+  try {
+    const { email } = await req.json();
+    if (typeof email !== 'string' || !isValidEmail(email.trim())) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+
+    const { invite, token } = await createInvite(supabaseAdmin, email, user.id);
+    const url = new URL('/', req.nextUrl.origin);
+    url.searchParams.set('invite', token);
+    return NextResponse.json({ invite, url: url.toString() });
+
+  } catch (err) {
+    console.error('Error creating invite:', err);
+    return NextResponse.json({
+      error: 'Failed to create invite',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
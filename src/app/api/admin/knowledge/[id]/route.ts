@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/auth';
+import { getLLMProvider } from '@/lib/llm';
+import { deleteDocument, getDocument } from '@/lib/knowledge';
+
+// Delete one document version and remove it from the assistant's index
+export const DELETE = withAdmin(async (req: NextRequest, { supabaseAdmin }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const llm = getLLMProvider();
+    if (!llm) {
+      return NextResponse.json({ error: 'LLM provider configuration missing' }, { status: 500 });
+    }
+
+    const { id } = await params;
+    const document = await getDocument(supabaseAdmin, id);
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    await deleteDocument(supabaseAdmin, llm, document);
+    return NextResponse.json({ success: true });
+
+  } catch (err) {
+    console.error('Error deleting knowledge document:', err);
+    return NextResponse.json({
+      error: 'Failed to delete document',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
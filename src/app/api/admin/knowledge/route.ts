@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/auth';
+import { getLLMProvider } from '@/lib/llm';
+import { addDocumentVersion, chunkDocument, detectFileType, listDocuments, MAX_DOCUMENT_BYTES } from '@/lib/knowledge';
+
+// List knowledge base documents, all versions
+export const GET = withAdmin(async (req: NextRequest, { supabaseAdmin }) => {
+  try {
+    const documents = await listDocuments(supabaseAdmin);
+    return NextResponse.json({ documents });
+
+  } catch (err) {
+    console.error('Error listing knowledge documents:', err);
+    return NextResponse.json({
+      error: 'Failed to list documents',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// Upload a document (multipart field `file`); re-uploading a file name adds a new version
+export const POST = withAdmin(async (req: NextRequest, { user, supabaseAdmin }) => {
+  try {
+    const llm = getLLMProvider();
+    if (!llm) {
+      return NextResponse.json({ error: 'LLM provider configuration missing' }, { status: 500 });
+    }
+
+    const formData = await req.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Missing file' }, { status: 400 });
+    }
+
+    const fileType = detectFileType(file.name);
+    if (!fileType) {
+      return NextResponse.json({ error: 'Unsupported file type. Upload a PDF, DOCX or Markdown file' }, { status: 400 });
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      return NextResponse.json({ error: `File is too large (limit ${Math.round(MAX_DOCUMENT_BYTES / 1024 / 1024)} MB)` }, { status: 400 });
+    }
+
+    const chunks = await chunkDocument(fileType, new Uint8Array(await file.arrayBuffer()));
+    if (chunks.length === 0) {
+      return NextResponse.json({ error: 'No text could be extracted from the document' }, { status: 400 });
+    }
+
+    console.log(`Indexing ${file.name}: ${chunks.length} chunks`);
+
+    const document = await addDocumentVersion(supabaseAdmin, llm, {
+      name: file.name,
+      fileType,
+      sizeBytes: file.size,
+      chunks,
+      uploadedBy: user.id
+    });
+
+    return NextResponse.json({ document });
+
+  } catch (err) {
+    console.error('Error uploading knowledge document:', err);
+    return NextResponse.json({
+      error: 'Failed to upload document',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
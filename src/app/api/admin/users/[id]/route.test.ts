@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PUT } from './route';
+
+const mocks = vi.hoisted(() => ({
+  updateProfile: vi.fn()
+}));
+
+vi.mock('@/lib/auth', () => ({
+  withAdmin: (handler: (req: NextRequest, auth: object, context: unknown) => Promise<Response>) =>
+    (req: NextRequest, context: unknown) => handler(req, { user: { id: 'admin-1' }, supabaseAdmin: {} }, context)
+}));
+
+vi.mock('@/lib/profiles', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/profiles')>(),
+  updateProfile: mocks.updateProfile
+}));
+
+function update(id: string, fields: object) {
+  const req = new NextRequest(`http://localhost/api/admin/users/${id}`, { method: 'PUT', body: JSON.stringify(fields) });
+  return PUT(req, { params: Promise.resolve({ id }) });
+}
+
+beforeEach(() => {
+  mocks.updateProfile.mockReset();
+  mocks.updateProfile.mockImplementation(async (_supabase, id, fields) => ({ id, role: 'employee', status: 'approved', ...fields }));
+});
+
+describe('PUT /api/admin/users/[id]', () => {
+  it('approves and revokes accounts', async () => {
+    expect(await (await update('user-2', { status: 'approved' })).json()).toMatchObject({ profile: { id: 'user-2', status: 'approved' } });
+    expect(await (await update('user-2', { status: 'revoked' })).json()).toMatchObject({ profile: { status: 'revoked' } });
+    expect(mocks.updateProfile).toHaveBeenLastCalledWith({}, 'user-2', { role: undefined, status: 'revoked' });
+  });
+
+  it('changes roles', async () => {
+    expect(await (await update('user-2', { role: 'estimator' })).json()).toMatchObject({ profile: { role: 'estimator' } });
+  });
+
+  it('rejects unknown roles and statuses', async () => {
+    expect((await update('user-2', { status: 'banned' })).status).toBe(400);
+    expect((await update('user-2', { role: 'owner' })).status).toBe(400);
+    expect((await update('user-2', {})).status).toBe(400);
+    expect(mocks.updateProfile).not.toHaveBeenCalled();
+  });
+
+  it('keeps admins from removing their own access', async () => {
+    const response = await update('admin-1', { status: 'revoked' });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'You cannot remove your own admin access' });
+    expect((await update('admin-1', { role: 'employee' })).status).toBe(400);
+    expect(mocks.updateProfile).not.toHaveBeenCalled();
+  });
+
+  it('answers 404 for unknown users', async () => {
+    mocks.updateProfile.mockResolvedValue(null);
+    expect((await update('user-9', { status: 'revoked' })).status).toBe(404);
+  });
+});
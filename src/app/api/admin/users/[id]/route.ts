@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/auth';
+import { PROFILE_STATUSES, ROLES, isProfileStatus, isRole, updateProfile } from '@/lib/profiles';
+
+// Change a user's role or approval: { role?, status? }
+export const PUT = withAdmin(async (req: NextRequest, { user, supabaseAdmin }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { role, status } = await req.json();
+    if (role === undefined && status === undefined) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+    if (role !== undefined && !isRole(role)) {
+      return NextResponse.json({ error: `role must be one of: ${ROLES.join(', ')}` }, { status: 400 });
+    }
+    if (status !== undefined && !isProfileStatus(status)) {
+      return NextResponse.json({ error: `status must be one of: ${PROFILE_STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const { id } = await params;
+    // Keeps the last admin from locking everyone out of this page
+    if (id === user.id && ((role !== undefined && role !== 'admin') || (status !== undefined && status !== 'approved'))) {
+      return NextResponse.json({ error: 'You cannot remove your own admin access' }, { status: 400 });
+    }
+
+    const profile = await updateProfile(supabaseAdmin, id, { role, status });
+    if (!profile) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ profile });
+
+  } catch (err) {
+    console.error('Error updating user:', err);
+    return NextResponse.json({
+      error: 'Failed to update user',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
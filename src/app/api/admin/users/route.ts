@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdmin } from '@/lib/auth';
+import { listProfiles } from '@/lib/profiles';
+
+// List everyone who has signed up, with their role
+export const GET = withAdmin(async (req: NextRequest, { supabaseAdmin }) => {
+  try {
+    const profiles = await listProfiles(supabaseAdmin);
+    return NextResponse.json({ profiles });
+
+  } catch (err) {
+    console.error('Error listing users:', err);
+    return NextResponse.json({
+      error: 'Failed to list users',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
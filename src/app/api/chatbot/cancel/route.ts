@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { getChatThread } from '@/lib/chatThreads';
+import { getLLMProvider } from '@/lib/llm';
+
+// Explicitly cancel a run, e.g. when the user presses Stop.
+// The stream route also cancels on client disconnect; this covers proxies
+// that keep the upstream request open after the browser aborts.
+export const POST = withAuth(async (req: NextRequest, auth) => {
+  try {
+    const { chatId, runId } = await req.json();
+
+    if (!chatId || !runId) {
+      return NextResponse.json({ error: 'Missing chatId or runId' }, { status: 400 });
+    }
+
+    // Only runs on the caller's own chats can be cancelled
+    const chat = await getChatThread(auth.supabase, chatId);
+    if (!chat?.threadId) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    const llm = getLLMProvider();
+    if (!llm) {
+      return NextResponse.json({ error: 'LLM provider configuration missing' }, { status: 500 });
+    }
+
+    await llm.cancelRun(chat.threadId, runId);
+
+    return NextResponse.json({ success: true });
+
+  } catch (err) {
+    console.error('Cancel run error:', err);
+    return NextResponse.json({
+      error: 'Failed to cancel run',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
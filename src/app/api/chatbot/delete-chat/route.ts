@@ -1,31 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { rejectOtherUser, withAuth } from '@/lib/auth';
+import { getLLMProvider } from '@/lib/llm';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+export const POST = withAuth(async (req: NextRequest, auth) => {
+  try {
+    const { chatId, userId: bodyUserId } = await req.json();
 
-// Create Supabase client with anon key (will use RLS policies)
-const supabase = createClient(supabaseUrl, supabaseAnonKey);
+    const otherUser = rejectOtherUser(auth, bodyUserId);
+    if (otherUser) return otherUser;
 
-export async function POST(req: NextRequest) {
-  try {
-    const { chatId, userId, accessToken } = await req.json();
-    
+    const userId = auth.user.id;
     console.log('Delete chat request:', { chatId, userId });
 
-    if (!chatId || !userId) {
-      return NextResponse.json({ error: 'Missing chatId or userId' }, { status: 400 });
+    if (!chatId) {
+      return NextResponse.json({ error: 'Missing chatId' }, { status: 400 });
     }
 
-    // Create Supabase client with user's access token for RLS
-    const supabaseWithAuth = createClient(supabaseUrl, supabaseAnonKey, {
-      global: {
-        headers: {
-          Authorization: `Bearer ${accessToken}`
-        }
-      }
-    });
+    // Acts as the user, so RLS limits this to their own chats
+    const supabaseWithAuth = auth.supabase;
 
     // First, check if the chat exists and get the thread ID
     console.log('Fetching chat from Supabase...');
@@ -61,24 +53,14 @@ export async function POST(req: NextRequest) {
     
     console.log('Found chat data:', chatData);
 
-    // Delete the OpenAI thread if it exists
-    if (chatData.thread_id && OPENAI_API_KEY) {
+    // Delete the provider thread if it exists
+    const llm = getLLMProvider();
+    if (chatData.thread_id && llm) {
       try {
-        const threadResponse = await fetch(`https://api.openai.com/v1/threads/${chatData.thread_id}`, {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${OPENAI_API_KEY}`,
-            'OpenAI-Beta': 'assistants=v2'
-          }
-        });
-
-        if (!threadResponse.ok) {
-          console.error('Error deleting OpenAI thread:', threadResponse.status);
-          // Continue with Supabase deletion even if OpenAI deletion fails
-        }
+        await llm.deleteThread(chatData.thread_id);
       } catch (error) {
-        console.error('Error deleting OpenAI thread:', error);
-        // Continue with Supabase deletion even if OpenAI deletion fails
+        console.error('Error deleting thread:', error);
+        // Continue with Supabase deletion even if thread deletion fails
       }
     }
 
@@ -102,4 +84,4 @@ export async function POST(req: NextRequest) {
     console.error('Delete chat error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
@@ -1,50 +1,77 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getLLMProvider } from '@/lib/llm';
+import { loadMessages } from '@/lib/messageStore';
+import { withAuth } from '@/lib/auth';
+import { getChatThread } from '@/lib/chatThreads';
+import { resolveCitations } from '@/lib/citations';
+import { getDisplayedResult, type DisplayedToolResult } from '@/lib/tools';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest, auth) => {
   try {
-    const { threadId } = await req.json();
-    
-    if (!threadId) {
-      return NextResponse.json({ error: 'Missing threadId' }, { status: 400 });
+    const { chatId } = await req.json();
+
+    if (!chatId) {
+      return NextResponse.json({ error: 'Missing chatId' }, { status: 400 });
     }
 
-    if (!OPENAI_API_KEY) {
-      return NextResponse.json({ error: 'OpenAI configuration missing' }, { status: 500 });
+    // Looked up under RLS: other users' chats and threads are not found
+    const chat = await getChatThread(auth.supabase, chatId);
+    if (!chat) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
     }
 
-    // Get messages from the thread
-    const messagesResponse = await fetch(`https://api.openai.com/v1/threads/${threadId}/messages`, {
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'OpenAI-Beta': 'assistants=v2'
-      }
-    });
+    // Stored history is the source of truth
+    const storedMessages = await loadMessages(auth.supabase, chatId);
 
-    if (!messagesResponse.ok) {
-      throw new Error('Failed to retrieve messages from thread');
+    if (storedMessages.length > 0) {
+      const messages = storedMessages.map(msg => ({
+        sender: msg.role === 'user' ? 'user' : 'bot',
+        text: msg.content,
+        id: msg.id,
+        timestamp: new Date(msg.created_at).getTime(),
+        interrupted: msg.interrupted,
+        citations: msg.citations,
+        toolResults: msg.tool_calls
+          .map(getDisplayedResult)
+          .filter((result): result is DisplayedToolResult => result !== null)
+      }));
+
+      return NextResponse.json({ messages });
     }
 
-    const messagesData = await messagesResponse.json();
-    
-    // Convert OpenAI messages to our format
-    const messages = messagesData.data.map((msg: { role: string; content: Array<{ text?: { value: string } }>; id: string }) => ({
-      sender: msg.role === 'user' ? 'user' : 'bot',
-      text: msg.content[0]?.text?.value || '',
-      id: msg.id
-    }));
+    // Chats created before history was stored only live in the provider thread
+    const threadId = chat.threadId;
+    if (!threadId) {
+      return NextResponse.json({ messages: [] });
+    }
+
+    const llm = getLLMProvider();
+    if (!llm) {
+      return NextResponse.json({ error: 'LLM provider configuration missing' }, { status: 500 });
+    }
 
-    // Reverse the messages to show them in chronological order (oldest first)
-    const reversedMessages = messages.reverse();
+    // Get messages from the thread (oldest first)
+    const threadMessages = await llm.listMessages(threadId);
+
+    // Convert provider messages to our format, resolving citation annotations
+    const messages = await Promise.all(threadMessages.map(async msg => {
+      const { text, citations } = await resolveCitations(llm, msg.text, msg.annotations);
+      return {
+        sender: msg.role === 'user' ? 'user' : 'bot',
+        text,
+        id: msg.id,
+        timestamp: msg.createdAt,
+        citations
+      };
+    }));
 
-    return NextResponse.json({ messages: reversedMessages });
+    return NextResponse.json({ messages });
 
   } catch (err) {
-    console.error('Error loading messages from thread:', err);
-    return NextResponse.json({ 
+    console.error('Error loading messages:', err);
+    return NextResponse.json({
       error: 'Failed to load messages',
       details: err instanceof Error ? err.message : 'Unknown error'
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
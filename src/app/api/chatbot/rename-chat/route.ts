@@ -1,38 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { rejectOtherUser, withAuth } from '@/lib/auth';
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+export const POST = withAuth(async (req: NextRequest, auth) => {
+  try {
+    const { chatId, userId, newTitle } = await req.json();
 
+    const otherUser = rejectOtherUser(auth, userId);
+    if (otherUser) return otherUser;
 
-export async function POST(req: NextRequest) {
-  try {
-    const { chatId, userId, newTitle, accessToken } = await req.json();
-    
-    console.log('Rename chat request:', { chatId, userId, newTitle });
+    console.log('Rename chat request:', { chatId, userId: auth.user.id, newTitle });
 
-    if (!chatId || !userId || !newTitle?.trim()) {
-      return NextResponse.json({ error: 'Missing chatId, userId, or newTitle' }, { status: 400 });
+    if (!chatId || !newTitle?.trim()) {
+      return NextResponse.json({ error: 'Missing chatId or newTitle' }, { status: 400 });
     }
 
-    // Create Supabase client with user's access token for RLS
-    const supabaseWithAuth = createClient(supabaseUrl, supabaseAnonKey, {
-      global: {
-        headers: {
-          Authorization: `Bearer ${accessToken}`
-        }
-      }
-    });
-
-    // Update the chat title in Supabase
-    const { error: updateError } = await supabaseWithAuth
+    // Update the chat title in Supabase; RLS limits this to the user's own chats
+    const { error: updateError } = await auth.supabase
       .from('chats')
       .update({ 
         title: newTitle.trim(),
         updated_at: new Date().toISOString()
       })
       .eq('id', chatId)
-      .eq('user_id', userId);
+      .eq('user_id', auth.user.id);
 
     if (updateError) {
       console.error('Error updating chat title:', updateError);
@@ -45,4 +35,4 @@ export async function POST(req: NextRequest) {
     console.error('Rename chat error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
@@ -0,0 +1,196 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LLMProvider, RunEvent } from '@/lib/llm';
+import { createStubProvider } from '@/lib/llm/stub';
+import type { NewMessage } from '@/lib/messageStore';
+import { POST } from './route';
+
+const mocks = vi.hoisted(() => ({
+  llm: null as LLMProvider | null,
+  saveMessage: vi.fn(async () => {})
+}));
+
+vi.mock('@/lib/auth', () => ({
+  withAuth: (handler: (req: NextRequest, auth: object, context: unknown) => Promise<Response>) =>
+    (req: NextRequest, context: unknown) => handler(req, { user: { id: 'user-1' }, role: 'estimator', supabase: {} }, context),
+  rejectOtherUser: () => null
+}));
+
+vi.mock('@/lib/llm', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/llm')>(),
+  getLLMProvider: () => mocks.llm
+}));
+
+vi.mock('@/lib/supabaseServer', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/supabaseServer')>(),
+  createSupabaseAdmin: () => ({})
+}));
+
+vi.mock('@/lib/chatThreads', () => ({
+  ensureChatThread: (_supabase: unknown, _supabaseAdmin: unknown, llm: LLMProvider) => llm.createThread()
+}));
+
+vi.mock('@/lib/messageStore', () => ({ saveMessage: mocks.saveMessage }));
+
+vi.mock('@/lib/jobContext', () => ({
+  loadJobContext: async () => null,
+  jobContextInstructions: () => null
+}));
+
+vi.mock('@/lib/rateLimit', () => ({
+  checkRateLimit: async () => ({ allowed: true }),
+  rateLimited: () => new Response(null, { status: 429 }),
+  recordTokenUsage: async () => {}
+}));
+
+function ask(question: string) {
+  const req = new NextRequest('http://localhost/api/chatbot/stream', {
+    method: 'POST',
+    body: JSON.stringify({ question, chatId: 'chat-1' })
+  });
+  return POST(req, undefined);
+}
+
+function parseEvents(body: string) {
+  return body
+    .split('\n\n')
+    .filter(line => line.startsWith('data: '))
+    .map(line => JSON.parse(line.slice('data: '.length)));
+}
+
+// Assistant message saved for the turn
+function savedAnswer() {
+  const calls = mocks.saveMessage.mock.calls as unknown as Array<[unknown, NewMessage]>;
+  return calls.map(call => call[1]).find(message => message.role === 'assistant');
+}
+
+beforeEach(() => {
+  mocks.llm = createStubProvider();
+  mocks.saveMessage.mockClear();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// Stub provider whose first run streams the given events instead
+function providerWithRun(runEvents: RunEvent[]): LLMProvider {
+  const stub = createStubProvider();
+  return {
+    ...stub,
+    async runStream() {
+      return (async function* () {
+        yield* runEvents;
+      })();
+    }
+  };
+}
+
+async function streamEvents(response: Response) {
+  return parseEvents(await response.text());
+}
+
+describe('POST /api/chatbot/stream', () => {
+  it('answers over several tool rounds with one done event', async () => {
+    const response = await ask('/tool validate_door_config {"series": "350", "hinge": "continuous", "configuration": "single"}\n/tool test_unknown {}');
+    const events = await streamEvents(response);
+
+    const statuses = events.filter(event => event.type === 'status').map(event => event.status);
+    expect(statuses).toEqual(['requires_action', 'in_progress', 'completed']);
+    expect(events.filter(event => event.type === 'run_started')).toHaveLength(1);
+    expect(events.filter(event => event.type === 'tool_result')).toEqual([
+      expect.objectContaining({ name: 'validate_door_config', result: expect.objectContaining({ valid: true }) })
+    ]);
+
+    const text = events.filter(event => event.type === 'message').map(event => event.text).join('');
+    expect(text).toContain('validate_door_config returned: {"valid":true');
+    expect(text).toContain('test_unknown returned: {"error":{"code":"unknown_tool"');
+
+    expect(events.filter(event => event.type === 'done')).toEqual([{ type: 'done', status: 'completed' }]);
+    expect(events[events.length - 1].type).toBe('done');
+
+    expect(savedAnswer()).toMatchObject({ content: text, interrupted: false });
+    expect(savedAnswer()?.toolCalls).toEqual([
+      expect.objectContaining({ name: 'validate_door_config' }),
+      expect.objectContaining({ name: 'test_unknown' })
+    ]);
+  });
+
+  it('reports a failed run and still ends with one done event', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mocks.llm = providerWithRun([
+      { type: 'run', runId: 'run_1', status: 'in_progress' },
+      { type: 'run', runId: 'run_1', status: 'failed', error: 'Rate limit reached for gpt-4o' }
+    ]);
+
+    const events = await streamEvents(await ask('Price the Main St storefront'));
+
+    expect(events.filter(event => event.type === 'error')).toEqual([{ type: 'error', error: 'Rate limit reached for gpt-4o' }]);
+    expect(events.filter(event => event.type === 'done')).toEqual([{ type: 'done', status: 'failed' }]);
+    expect(savedAnswer()).toBeUndefined();
+  });
+
+  it('saves the partial answer of an expired run as interrupted', async () => {
+    mocks.llm = providerWithRun([
+      { type: 'run', runId: 'run_1', status: 'in_progress' },
+      { type: 'text', text: 'The lead time is ' },
+      { type: 'run', runId: 'run_1', status: 'expired' }
+    ]);
+
+    const events = await streamEvents(await ask('What is the lead time?'));
+
+    expect(events.filter(event => event.type === 'done')).toEqual([{ type: 'done', status: 'expired' }]);
+    expect(savedAnswer()).toMatchObject({ content: 'The lead time is ', interrupted: true });
+  });
+
+  it('cancels the run when the client stops before the first run event', async () => {
+    const stub = createStubProvider();
+    let release: () => void = () => {};
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const cancelRun = vi.spyOn(stub, 'cancelRun');
+
+    mocks.llm = {
+      ...stub,
+      async runStream(threadId, options) {
+        const events = await stub.runStream(threadId, options);
+        return (async function* (): AsyncGenerator<RunEvent> {
+          await gate;
+          yield* events;
+        })();
+      }
+    };
+
+    const response = await ask('How long is the lead time on storefront?');
+    const reader = response.body!.getReader();
+    const first = await reader.read();
+    expect(parseEvents(new TextDecoder().decode(first.value))).toEqual([{ type: 'start' }]);
+
+    await reader.cancel();
+    release();
+
+    await vi.waitFor(() => expect(savedAnswer()).toBeDefined());
+    expect(cancelRun).toHaveBeenCalledTimes(1);
+    expect(cancelRun.mock.calls[0][1]).toMatch(/^run_stub_/);
+    expect(savedAnswer()).toMatchObject({ role: 'assistant', content: '', interrupted: true });
+  });
+
+  it('saves what was sent when the client stops mid-answer', async () => {
+    const cancelRun = vi.spyOn(mocks.llm!, 'cancelRun');
+    const response = await ask('How long is the lead time on storefront?');
+    const reader = response.body!.getReader();
+
+    let received = '';
+    while (!received.includes('"type":"message"')) {
+      received += new TextDecoder().decode((await reader.read()).value);
+    }
+    await reader.cancel();
+
+    await vi.waitFor(() => expect(savedAnswer()).toBeDefined());
+    expect(cancelRun).toHaveBeenCalledTimes(1);
+    const answer = savedAnswer()!;
+    expect(answer.interrupted).toBe(true);
+    expect(answer.content).not.toBe('');
+    expect('[stub] You asked: "How long is the lead time on storefront?"').toContain(answer.content.trim());
+  });
+});
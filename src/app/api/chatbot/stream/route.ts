@@ -1,363 +1,239 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { rejectOtherUser, withAuth } from '@/lib/auth';
+import { getLLMProvider, type RunEvent, type RunStatus } from '@/lib/llm';
+import { getDisplayedResult, listToolSchemas, runToolCalls } from '@/lib/tools';
+import { saveMessage, type StoredToolCall } from '@/lib/messageStore';
+import { createCitationTracker, type Citation } from '@/lib/citations';
+import { jobContextInstructions, loadJobContext } from '@/lib/jobContext';
+import { ensureChatThread } from '@/lib/chatThreads';
+import { roleInstructions } from '@/lib/profiles';
+import { checkRateLimit, rateLimited, recordTokenUsage } from '@/lib/rateLimit';
+import { createSupabaseAdmin } from '@/lib/supabaseServer';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const ASSISTANT_ID = process.env.OPENAI_ASSISTANT_ID;
-
-// Web search function using DuckDuckGo properly
-async function performWebSearch(query: string) {
-  try {
-    console.log('Searching for:', query);
-    
-    const searchUrl = `https://api.duckduckgo.com/?q=${encodeURIComponent(query)}&format=json&no_html=1&skip_disambig=1&t=your-app-name`;
-    
-    const response = await fetch(searchUrl);
-    const data = await response.json();
-    
-    if (data.Abstract && data.Abstract.length > 20) {
-      return {
-        source: data.AbstractSource || 'DuckDuckGo',
-        content: data.Abstract,
-        url: data.AbstractURL || ''
-      };
-    }
-    
-    if (data.RelatedTopics && data.RelatedTopics.length > 0) {
-      const topic = data.RelatedTopics[0];
-      return {
-        source: 'DuckDuckGo',
-        content: topic.Text || topic.FirstURL || 'Information found but no details available.',
-        url: topic.FirstURL || ''
-      };
-    }
-    
-    if (data.Answer && data.Answer.length > 10) {
-      return {
-        source: 'DuckDuckGo',
-        content: data.Answer,
-        url: data.AnswerType || ''
-      };
-    }
-    
-    if (data.Heading || data.Definition) {
-      return {
-        source: 'DuckDuckGo',
-        content: data.Definition || data.Heading || `Found information about ${query}`,
-        url: data.AbstractURL || `https://duckduckgo.com/?q=${encodeURIComponent(query)}`
-      };
-    }
-    
-    return {
-      source: 'DuckDuckGo',
-      content: `I searched for "${query}" and found some information, but for the most current and detailed results, you can search directly on DuckDuckGo.`,
-      url: `https://duckduckgo.com/?q=${encodeURIComponent(query)}`
-    };
-    
-  } catch (error) {
-    console.error('Web search error:', error);
-    return {
-      source: 'DuckDuckGo',
-      content: `I encountered an error while searching for "${query}". You can search for this directly on DuckDuckGo for the most current information.`,
-      url: `https://duckduckgo.com/?q=${encodeURIComponent(query)}`
-    };
-  }
-}
-
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest, auth) => {
   const encoder = new TextEncoder();
   
   try {
-    const { question, threadId } = await req.json();
-    
+    const { question, chatId, userId: bodyUserId } = await req.json();
+    const userId = auth.user.id;
+
+    const otherUser = rejectOtherUser(auth, bodyUserId);
+    if (otherUser) return otherUser;
+
     if (!question?.trim()) {
       return new Response('Missing question', { status: 400 });
     }
+    if (!chatId) {
+      return new Response('Missing chatId', { status: 400 });
+    }
 
-    if (!OPENAI_API_KEY || !ASSISTANT_ID) {
-      return new Response('OpenAI configuration missing', { status: 500 });
+    const llm = getLLMProvider();
+    if (!llm) {
+      return new Response('LLM provider configuration missing', { status: 500 });
     }
 
-    let currentThreadId = threadId;
+    const supabaseAdmin = createSupabaseAdmin();
+    if (!supabaseAdmin) {
+      return new Response('Supabase service role configuration missing', { status: 500 });
+    }
 
-    // Create a new thread if none exists
+    const limit = await checkRateLimit(req, auth);
+    if (!limit.allowed) return rateLimited(limit);
+
+    // The chat's thread, looked up under RLS so only the owner can reach it
+    const currentThreadId = await ensureChatThread(auth.supabase, supabaseAdmin, llm, chatId);
     if (!currentThreadId) {
-      const threadResponse = await fetch('https://api.openai.com/v1/threads', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${OPENAI_API_KEY}`,
-          'Content-Type': 'application/json',
-          'OpenAI-Beta': 'assistants=v2'
-        }
-      });
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
 
-      if (!threadResponse.ok) {
-        const errorText = await threadResponse.text();
-        console.error('Thread creation error:', threadResponse.status, errorText);
-        throw new Error(`Failed to create thread: ${threadResponse.status} - ${errorText}`);
+    // Add the user's message to the thread
+    await llm.addMessage(currentThreadId, question);
+
+    // Requests act as the user, so RLS applies to the stored conversation
+    const supabaseWithAuth = auth.supabase;
+    const persist = async (role: 'user' | 'assistant', content: string, extra: { toolCalls?: StoredToolCall[]; citations?: Citation[]; interrupted?: boolean } = {}) => {
+      try {
+        await saveMessage(supabaseWithAuth, { chatId, userId, role, content, ...extra });
+      } catch (error) {
+        // History is best effort; never fail the turn because of it
+        console.error('Error saving message:', error);
       }
+    };
+
+    await persist('user', question);
 
-      const threadData = await threadResponse.json();
-      currentThreadId = threadData.id;
+    // The user's role and the chat's job context go to the assistant on every turn
+    let jobInstructions: string | null = null;
+    try {
+      jobInstructions = jobContextInstructions(await loadJobContext(supabaseWithAuth, chatId));
+    } catch (error) {
+      console.error('Error loading job context:', error);
     }
+    const additionalInstructions = [roleInstructions(auth.role), jobInstructions].filter(Boolean).join('\n\n');
 
-    // Add the user's message to the thread
-    const messageResponse = await fetch(`https://api.openai.com/v1/threads/${currentThreadId}/messages`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-        'OpenAI-Beta': 'assistants=v2'
-      },
-      body: JSON.stringify({
-        role: 'user',
-        content: question
-      })
-    });
+    // Set when the client disconnects or stops generation
+    let cancelled = false;
+    let currentRunId: string | null = null;
+    let runCancelRequested = false;
 
-    if (!messageResponse.ok) {
-      const errorText = await messageResponse.text();
-      console.error('Message creation error:', messageResponse.status, errorText);
-      throw new Error(`Failed to add message to thread: ${messageResponse.status} - ${errorText}`);
-    }
+    const cancelActiveRun = async () => {
+      if (!currentRunId || runCancelRequested) return;
+      runCancelRequested = true;
+      try {
+        await llm.cancelRun(currentThreadId, currentRunId);
+      } catch (error) {
+        // The run may already have finished
+        console.error('Error cancelling run:', error);
+      }
+    };
 
     // Create a ReadableStream for streaming the response
     const stream = new ReadableStream({
       async start(controller) {
-        try {
-          // Send initial data
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'start', threadId: currentThreadId })}\n\n`));
-          
-          // Start the run with streaming enabled
-          const runResponse = await fetch(`https://api.openai.com/v1/threads/${currentThreadId}/runs`, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${OPENAI_API_KEY}`,
-              'Content-Type': 'application/json',
-              'OpenAI-Beta': 'assistants=v2'
-            },
-            body: JSON.stringify({
-              assistant_id: ASSISTANT_ID,
-              stream: true
-            })
-          });
+        const send = (payload: object) => {
+          if (cancelled) return;
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+        };
 
-          if (!runResponse.ok) {
-            const errorText = await runResponse.text();
-            console.error('Run creation error:', runResponse.status, errorText);
-            throw new Error(`Failed to start assistant run: ${runResponse.status} - ${errorText}`);
+        // Accumulated assistant turn, saved once the run completes
+        let assistantText = '';
+        const toolCallLog: StoredToolCall[] = [];
+        const citations = createCitationTracker(llm);
+
+        // Send each character individually for real-time streaming
+        const sendText = async (text: string) => {
+          assistantText += text;
+          for (const char of text) {
+            if (cancelled) return;
+            send({ type: 'message', text: char });
+            // Small delay to prevent overwhelming the client
+            await new Promise(resolve => setTimeout(resolve, 10));
           }
+        };
 
-          const reader = runResponse.body?.getReader();
-          const decoder = new TextDecoder();
+        // Statuses after which the run produces no more events
+        const terminalStatuses: RunStatus[] = ['completed', 'failed', 'cancelled', 'expired', 'incomplete'];
+        let lastStatus: RunStatus | null = null;
+        let runTokens = 0;
 
-          if (!reader) {
-            throw new Error('No response body');
-          }
+        // Handle one stream of run events. After each tool round the follow-up
+        // stream is handled recursively, so any number of rounds works.
+        const processEvents = async (events: AsyncIterable<RunEvent>): Promise<RunStatus | null> => {
+          for await (const event of events) {
+            // Note the run before checking for a stop, so a stop that comes
+            // before the first run event still cancels the run
+            if (event.type === 'run' && !currentRunId) {
+              currentRunId = event.runId;
+              send({ type: 'run_started', runId: currentRunId });
+            }
 
-          let buffer = '';
-
-          try {
-            while (true) {
-              const { done, value } = await reader.read();
-              
-              if (done) break;
-              
-              const chunk = decoder.decode(value);
-              buffer += chunk;
-              
-              // Process complete lines from the buffer
-              const lines = buffer.split('\n');
-              buffer = lines.pop() || ''; // Keep incomplete line in buffer
-              
-              for (const line of lines) {
-                const trimmedLine = line.trim();
-                
-                // Skip empty lines
-                if (!trimmedLine) continue;
-                
-                // Handle [DONE] marker
-                if (trimmedLine === 'data: [DONE]') {
-                  controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
-                  return;
-                }
-                
-                // Process data lines
-                if (trimmedLine.startsWith('data: ')) {
-                  const dataContent = trimmedLine.slice(6);
-                  
-                  // Skip if it's just [DONE] or empty
-                  if (dataContent === '[DONE]' || !dataContent.trim()) {
-                    continue;
-                  }
-                  
-                  try {
-                    const data = JSON.parse(dataContent);
-                    console.log('Received event:', data.object, data);
-                    
-                    // Handle different event types based on object type
-                    switch (data.object) {
-                      case 'thread.run':
-                        if (data.status === 'created') {
-                          console.log('Run created:', data.id);
-                        } else if (data.status === 'queued' || data.status === 'in_progress') {
-                          // Run is processing
-                        } else if (data.status === 'requires_action') {
-                          // Handle tool calls
-                          const toolCalls = data.required_action?.submit_tool_outputs?.tool_calls || [];
-                          const toolOutputs = [];
-
-                          for (const toolCall of toolCalls) {
-                            if (toolCall.function.name === 'web_search') {
-                              try {
-                                const args = JSON.parse(toolCall.function.arguments);
-                                const searchQuery = args.query;
-                                
-                                console.log('Performing web search for:', searchQuery);
-                                const searchResult = await performWebSearch(searchQuery);
-                                
-                                toolOutputs.push({
-                                  tool_call_id: toolCall.id,
-                                  output: JSON.stringify(searchResult)
-                                });
-                              } catch (error) {
-                                console.error('Error in web search function:', error);
-                                toolOutputs.push({
-                                  tool_call_id: toolCall.id,
-                                  output: JSON.stringify({
-                                    source: 'Web Search',
-                                    content: 'Sorry, I encountered an error while searching the web.',
-                                    url: ''
-                                  })
-                                });
-                              }
-                            }
-                          }
-
-                          // Submit tool outputs with streaming
-                          const submitResponse = await fetch(`https://api.openai.com/v1/threads/${currentThreadId}/runs/${data.id}/submit_tool_outputs`, {
-                            method: 'POST',
-                            headers: {
-                              'Authorization': `Bearer ${OPENAI_API_KEY}`,
-                              'Content-Type': 'application/json',
-                              'OpenAI-Beta': 'assistants=v2'
-                            },
-                            body: JSON.stringify({
-                              tool_outputs: toolOutputs,
-                              stream: true
-                            })
-                          });
-
-                          if (!submitResponse.ok) {
-                            const errorText = await submitResponse.text();
-                            throw new Error(`Failed to submit tool outputs: ${submitResponse.status} - ${errorText}`);
-                          }
-
-                          // Continue streaming from the submit response
-                          const submitReader = submitResponse.body?.getReader();
-                          if (submitReader) {
-                            let submitBuffer = '';
-                            
-                            while (true) {
-                              const { done: submitDone, value: submitValue } = await submitReader.read();
-                              if (submitDone) break;
-                              
-                              const submitChunk = decoder.decode(submitValue);
-                              submitBuffer += submitChunk;
-                              
-                              const submitLines = submitBuffer.split('\n');
-                              submitBuffer = submitLines.pop() || '';
-                              
-                              for (const submitLine of submitLines) {
-                                const trimmedSubmitLine = submitLine.trim();
-                                
-                                if (!trimmedSubmitLine) continue;
-                                
-                                if (trimmedSubmitLine === 'data: [DONE]') {
-                                  break;
-                                }
-                                
-                                if (trimmedSubmitLine.startsWith('data: ')) {
-                                  const submitDataContent = trimmedSubmitLine.slice(6);
-                                  
-                                  if (submitDataContent === '[DONE]' || !submitDataContent.trim()) {
-                                    continue;
-                                  }
-                                  
-                                  try {
-                                    const submitData = JSON.parse(submitDataContent);
-                                    if (submitData.object === 'thread.message.delta') {
-                                      const content = submitData.delta.content?.[0]?.text?.value || '';
-                                      if (content) {
-                                        // Send each character individually for real-time streaming
-                                        for (const char of content) {
-                                          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'message', text: char })}\n\n`));
-                                          // Small delay to prevent overwhelming the client
-                                          await new Promise(resolve => setTimeout(resolve, 10));
-                                        }
-                                      }
-                                    }
-                                  } catch (e) {
-                                    // Ignore parsing errors for submit data
-                                    console.log("Error:",e)
-                                  }
-                                }
-                              }
-                            }
-                            submitReader.releaseLock();
-                          }
-                        } else if (data.status === 'completed') {
-                          // Run completed
-                          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
-                          return;
-                        } else if (data.status === 'failed') {
-                          throw new Error('Assistant run failed');
-                        }
-                        break;
-                        
-                      case 'thread.message.delta':
-                        // Stream message content character by character
-                        const content = data.delta.content?.[0]?.text?.value || '';
-                        if (content) {
-                          // Send each character individually for real-time streaming
-                          for (const char of content) {
-                            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'message', text: char })}\n\n`));
-                            // Small delay to prevent overwhelming the client
-                            await new Promise(resolve => setTimeout(resolve, 10));
-                          }
-                        }
-                        break;
-                        
-                      case 'thread.message':
-                        // Message completed
-                        break;
-                        
-                      case 'thread.run.step':
-                        // Step completed
-                        break;
-                        
-                      default:
-                        // Handle unknown events gracefully
-                        console.log('Unknown object type:', data.object);
-                        break;
-                    }
-                    
-                  } catch (e) {
-                    // Only log parsing errors for debugging, but don't break the stream
-                    console.log('Skipping malformed SSE data:', dataContent, e);
-                  }
+            if (cancelled) {
+              await cancelActiveRun();
+              return null;
+            }
+
+            if (event.type === 'text') {
+              // Annotation markers become [n] footnote references; the sources go in a separate event
+              const { text, added } = await citations.addAnnotations(event.text, event.annotations);
+              if (added) {
+                send({ type: 'citations', citations: citations.list() });
+              }
+              await sendText(text);
+              continue;
+            }
+
+            if (event.usage) {
+              runTokens = event.usage.totalTokens;
+            }
+
+            // Forward run status changes to the client
+            if (event.status !== lastStatus) {
+              lastStatus = event.status;
+              send({ type: 'status', runId: event.runId, status: event.status });
+            }
+
+            if (event.status === 'requires_action') {
+              // Dispatch tool calls through the registry; independent calls run in parallel
+              const toolCalls = event.toolCalls || [];
+              const toolOutputs = await runToolCalls(toolCalls, { userId, chatId, supabase: supabaseWithAuth, role: auth.role });
+              for (const toolCall of toolCalls) {
+                const toolOutput = toolOutputs.find(output => output.toolCallId === toolCall.id);
+                const loggedCall = { ...toolCall, output: toolOutput?.output };
+                toolCallLog.push(loggedCall);
+
+                // Results such as bid breakdowns are rendered by the chat UI
+                const displayed = getDisplayedResult(loggedCall);
+                if (displayed) {
+                  send({ type: 'tool_result', ...displayed });
                 }
               }
+
+              if (cancelled) {
+                await cancelActiveRun();
+                return null;
+              }
+
+              // Submit tool outputs and continue with the follow-up stream
+              const submitEvents = await llm.submitToolOutputs(currentThreadId, event.runId, toolOutputs);
+              return processEvents(submitEvents);
+            }
+
+            if (event.status === 'failed') {
+              throw new Error(event.error || 'Assistant run failed');
+            }
+
+            if (terminalStatuses.includes(event.status)) {
+              return event.status;
             }
-          } finally {
-            reader.releaseLock();
           }
+
+          // Stream ended without a terminal status
+          return lastStatus;
+        };
+
+        try {
+          // Send initial data
+          send({ type: 'start' });
+          
+          // Start the run with streaming enabled
+          const finalStatus = await processEvents(await llm.runStream(currentThreadId, { tools: listToolSchemas(auth.role), additionalInstructions }));
+
+          if (cancelled) {
+            // Keep the partial answer, marked as interrupted
+            await cancelActiveRun();
+            await persist('assistant', assistantText, { toolCalls: toolCallLog, citations: citations.list(), interrupted: true });
+            return;
+          }
+
+          if (citations.addWebSources(toolCallLog, assistantText)) {
+            send({ type: 'citations', citations: citations.list() });
+          }
+
+          await persist('assistant', assistantText, {
+            toolCalls: toolCallLog,
+            citations: citations.list(),
+            interrupted: finalStatus !== null && finalStatus !== 'completed'
+          });
           
         } catch (error) {
           console.error('Streaming error:', error);
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'error', error: errorMessage })}\n\n`));
+          send({ type: 'error', error: errorMessage });
         } finally {
-          controller.close();
+          // Counted against the user's daily token quota
+          await recordTokenUsage(userId, runTokens);
+          if (!cancelled) {
+            // Every path ends the stream here, with exactly one done event
+            send({ type: 'done', status: lastStatus });
+            controller.close();
+          }
         }
+      },
+
+      // Called when the client aborts the request
+      async cancel() {
+        cancelled = true;
+        await cancelActiveRun();
       }
     });
 
@@ -370,7 +246,7 @@ export async function POST(req: NextRequest) {
     });
 
   } catch (err) {
-    console.error('OpenAI Assistant API error:', err);
+    console.error('Assistant API error:', err);
     const errorMessage = err instanceof Error ? err.message : 'Unknown error';
     return new Response(`data: ${JSON.stringify({ type: 'error', error: errorMessage })}\n\n`, {
       status: 500,
@@ -381,4 +257,4 @@ export async function POST(req: NextRequest) {
       },
     });
   }
-} 
\ No newline at end of file
+});
@@ -0,0 +1,111 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthContext } from '@/lib/auth';
+import { POST } from './route';
+
+const mocks = vi.hoisted(() => ({
+  auth: null as Partial<AuthContext> | null,
+  confirmationRequired: true,
+  redeemInvite: vi.fn(),
+  approveProfile: vi.fn(async () => {})
+}));
+
+vi.mock('@/lib/auth', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/auth')>(),
+  authenticate: async () => mocks.auth
+}));
+
+vi.mock('@/lib/supabaseServer', () => ({
+  createSupabaseAdmin: () => ({}),
+  isEmailConfirmationRequired: async () => mocks.confirmationRequired
+}));
+
+vi.mock('@/lib/invites', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/invites')>(),
+  redeemInvite: mocks.redeemInvite
+}));
+
+vi.mock('@/lib/profiles', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/profiles')>(),
+  approveProfile: mocks.approveProfile
+}));
+
+function accept(token: unknown = 'invite-token') {
+  return POST(new NextRequest('http://localhost/api/invites/accept', { method: 'POST', body: JSON.stringify({ token }) }));
+}
+
+function signIn(status: AuthContext['status'], emailConfirmedAt: string | null = '2025-08-01T00:00:00Z') {
+  mocks.auth = {
+    user: { id: 'user-1', email: 'glazier@example.com', email_confirmed_at: emailConfirmedAt } as AuthContext['user'],
+    status,
+    approved: status === 'approved'
+  };
+}
+
+beforeEach(() => {
+  mocks.confirmationRequired = true;
+  mocks.redeemInvite.mockReset();
+  mocks.approveProfile.mockClear();
+});
+
+describe('POST /api/invites/accept', () => {
+  it('approves the account that redeems the invite', async () => {
+    signIn('pending');
+    mocks.redeemInvite.mockResolvedValue({ invite: { id: 'invite-1' }, accepted: true });
+
+    const response = await accept();
+    expect(await response.json()).toEqual({ approved: true });
+    expect(mocks.redeemInvite).toHaveBeenCalledWith({}, 'invite-token', mocks.auth!.user);
+    expect(mocks.approveProfile).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not approve again for an invite redeemed earlier', async () => {
+    signIn('pending');
+    mocks.redeemInvite.mockResolvedValue({ invite: { id: 'invite-1' }, accepted: false });
+
+    expect(await (await accept()).json()).toEqual({ approved: false });
+    expect(mocks.approveProfile).not.toHaveBeenCalled();
+  });
+
+  it('refuses revoked accounts, including ones on the company domain', async () => {
+    signIn('revoked');
+    mocks.auth!.user!.email = 'sam@firstglassar.com';
+
+    const response = await accept();
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Your access has been removed. Ask an admin if you think this is a mistake.' });
+    expect(mocks.redeemInvite).not.toHaveBeenCalled();
+    expect(mocks.approveProfile).not.toHaveBeenCalled();
+  });
+
+  it('needs a confirmed address and Supabase email confirmation', async () => {
+    signIn('pending', null);
+    expect((await accept()).status).toBe(403);
+
+    signIn('pending');
+    mocks.confirmationRequired = false;
+    const response = await accept();
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toContain('email confirmation');
+    expect(mocks.redeemInvite).not.toHaveBeenCalled();
+  });
+
+  it('maps invite errors to statuses', async () => {
+    signIn('pending');
+    const cases = [['not_found', 404], ['expired', 410], ['used', 409], ['wrong_email', 403]] as const;
+
+    for (const [error, status] of cases) {
+      mocks.redeemInvite.mockResolvedValueOnce({ error });
+      expect((await accept()).status).toBe(status);
+    }
+    expect(mocks.approveProfile).not.toHaveBeenCalled();
+  });
+
+  it('needs a session and a token', async () => {
+    mocks.auth = null;
+    expect((await accept()).status).toBe(401);
+
+    signIn('pending');
+    expect((await accept('')).status).toBe(400);
+  });
+});
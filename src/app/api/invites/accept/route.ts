@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, unauthorized } from '@/lib/auth';
+import { INVITE_ERROR_MESSAGES, redeemInvite } from '@/lib/invites';
+import { approveProfile } from '@/lib/profiles';
+import { createSupabaseAdmin, isEmailConfirmationRequired } from '@/lib/supabaseServer';
+
+const INVITE_ERROR_STATUS = { not_found: 404, expired: 410, used: 409, wrong_email: 403 } as const;
+
+// Redeem an invite link: { token }. Open to accounts waiting for approval,
+// which is who invites are for; approves the account when the invite is
+// redeemed. Revoked accounts cannot use an invite to get back in.
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authenticate(req);
+    if (!auth) return unauthorized();
+
+    const { token } = await req.json();
+    if (typeof token !== 'string' || !token) {
+      return NextResponse.json({ error: 'Missing token' }, { status: 400 });
+    }
+
+    if (auth.status === 'revoked') {
+      return NextResponse.json({ error: 'Your access has been removed. Ask an admin if you think this is a mistake.' }, { status: 403 });
+    }
+
+    const supabaseAdmin = createSupabaseAdmin();
+    if (!supabaseAdmin) {
+      return NextResponse.json({ error: 'Supabase service role configuration missing' }, { status: 500 });
+    }
+
+    // Invited addresses must be confirmed, so the invitee owns them
+    if (!auth.user.email_confirmed_at) {
+      return NextResponse.json({ error: 'Confirm your email address, then open the invite link again' }, { status: 403 });
+    }
+    if (!await isEmailConfirmationRequired()) {
+      return NextResponse.json({ error: 'Invites need email confirmation turned on in Supabase Auth. Ask an admin to approve your account instead.' }, { status: 403 });
+    }
+
+    const result = await redeemInvite(supabaseAdmin, token, auth.user);
+    if ('error' in result) {
+      return NextResponse.json({ error: INVITE_ERROR_MESSAGES[result.error] }, { status: INVITE_ERROR_STATUS[result.error] });
+    }
+
+    if (!result.accepted) {
+      return NextResponse.json({ approved: auth.approved });
+    }
+
+    await approveProfile(supabaseAdmin, auth.user);
+    return NextResponse.json({ approved: true });
+
+  } catch (err) {
+    console.error('Error accepting invite:', err);
+    return NextResponse.json({
+      error: 'Failed to accept invite',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { createFeedToken } from '@/lib/projects';
+
+// Personal URL of the bid calendar, for subscribing from Outlook or Google Calendar
+export const GET = withAuth(async (req: NextRequest, { user }) => {
+  try {
+    const token = createFeedToken(user.id);
+    if (!token) {
+      return NextResponse.json({ error: 'Calendar feed is not configured' }, { status: 500 });
+    }
+
+    const url = new URL('/api/projects/calendar.ics', req.nextUrl.origin);
+    url.searchParams.set('token', token);
+    return NextResponse.json({ url: url.toString() });
+
+  } catch (err) {
+    console.error('Error creating calendar feed URL:', err);
+    return NextResponse.json({
+      error: 'Failed to create calendar feed URL',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCalendarFeedConfigured, listProjects, projectsToIcs, verifyFeedToken } from '@/lib/projects';
+import { getProfileAccess } from '@/lib/profiles';
+import { createSupabaseAdmin } from '@/lib/supabaseServer';
+
+// ICS feed of project bid dates. Calendar apps cannot send a session, so the
+// signed token in the URL stands in for it.
+export async function GET(req: NextRequest) {
+  try {
+    if (!isCalendarFeedConfigured()) {
+      return NextResponse.json({ error: 'Calendar feed is not configured' }, { status: 500 });
+    }
+
+    const userId = verifyFeedToken(req.nextUrl.searchParams.get('token'));
+    if (!userId) {
+      return NextResponse.json({ error: 'Invalid calendar feed token' }, { status: 401 });
+    }
+
+    const supabaseAdmin = createSupabaseAdmin();
+    if (!supabaseAdmin) {
+      return NextResponse.json({ error: 'Supabase service role configuration missing' }, { status: 500 });
+    }
+
+    // Feeds stop working once the user is removed or their access is revoked
+    const { data, error } = await supabaseAdmin.auth.admin.getUserById(userId);
+    if (error || !data.user || (await getProfileAccess(supabaseAdmin, userId)).status !== 'approved') {
+      return NextResponse.json({ error: 'Invalid calendar feed token' }, { status: 401 });
+    }
+
+    const projects = await listProjects(supabaseAdmin);
+    return new NextResponse(projectsToIcs(projects), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="first-glass-bids.ics"',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (err) {
+    console.error('Error building calendar feed:', err);
+    return NextResponse.json({
+      error: 'Failed to build calendar feed',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
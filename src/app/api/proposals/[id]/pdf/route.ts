@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { getProposal, proposalFileName, renderProposalPdf } from '@/lib/proposals';
+
+// Render a saved proposal as a branded PDF. The proposal is read as the
+// signed-in user, so RLS limits it to the author's own proposals.
+export const GET = withAuth(async (req: NextRequest, { supabase }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params;
+    const proposal = await getProposal(supabase, id);
+    if (!proposal) {
+      return NextResponse.json({ error: 'Proposal not found' }, { status: 404 });
+    }
+
+    const pdf = await renderProposalPdf(proposal);
+    const fileName = proposalFileName(proposal);
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName.replace(/[^\x20-\x7E]|"/g, '')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (err) {
+    console.error('Error rendering proposal PDF:', err);
+    return NextResponse.json({
+      error: 'Failed to render proposal',
+      details: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
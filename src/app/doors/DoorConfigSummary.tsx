@@ -0,0 +1,49 @@
+'use client'
+import { useState } from "react";
+import type { DoorConfigResult } from '@/lib/estimating/doors';
+
+// Flags and normalized order line for a door spec, shown in the chat card and
+// on the door check page
+export default function DoorConfigSummary({ result }: { result: DoorConfigResult }) {
+  const [copied, setCopied] = useState(false);
+
+  const copyOrderLine = async () => {
+    try {
+      await navigator.clipboard.writeText(result.orderLine);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy order line:', err);
+    }
+  };
+
+  return (
+    <div className={`rounded-xl border overflow-hidden ${result.valid ? 'border-green-200 bg-green-50/40' : 'border-red-200 bg-red-50/40'}`}>
+      <div className={`px-4 py-2 text-sm font-semibold ${result.valid ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+        {result.valid ? '✅ Door spec follows the ordering rules' : '⛔ Fix before ordering'}
+        {result.spec.mark ? ` – ${result.spec.mark}` : ''}
+      </div>
+      {result.flags.length > 0 && (
+        <ul className="px-4 py-2 space-y-1 text-sm">
+          {result.flags.map((flag, index) => (
+            <li key={index} className={flag.severity === 'error' ? 'text-red-700' : 'text-amber-700'}>
+              {flag.severity === 'error' ? '⛔' : '⚠️'} <span className="font-medium">{flag.ruleName}:</span> {flag.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="px-4 py-2 border-t border-gray-100 flex items-start justify-between gap-3">
+        <div className="text-sm">
+          <div className="text-xs uppercase text-gray-500">Order line</div>
+          <div className="font-mono text-gray-800">{result.orderLine}</div>
+        </div>
+        <button
+          onClick={copyOrderLine}
+          className="shrink-0 text-xs px-2 py-1 rounded-lg border border-gray-200 bg-white text-gray-700 hover:bg-gray-100 transition-colors"
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+    </div>
+  );
+}
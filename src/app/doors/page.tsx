@@ -0,0 +1,149 @@
+'use client'
+import { useState } from "react";
+import Link from 'next/link';
+import { DOOR_RULES, validateDoorConfig, type DoorSpec } from '@/lib/estimating/doors';
+import DoorConfigSummary from './DoorConfigSummary';
+
+// Form fields are kept as text; empty means "not specified"
+type DoorForm = Record<keyof DoorSpec, string>;
+
+const EMPTY_FORM: DoorForm = {
+  mark: '',
+  quantity: '1',
+  configuration: '',
+  series: '',
+  stile: '',
+  stileWidthIn: '',
+  widthIn: '',
+  heightIn: '',
+  hinge: '',
+  edge: '',
+  sidelites: '',
+  frameType: '',
+  handing: '',
+  finish: '',
+  hardware: '',
+};
+
+const SELECTS: Partial<Record<keyof DoorSpec, Array<[string, string]>>> = {
+  configuration: [['single', 'Single'], ['pair', 'Pair']],
+  series: [['500', '500 – wide'], ['350', '350 – medium'], ['190', '190 – narrow']],
+  stile: [['wide', 'Wide'], ['medium', 'Medium'], ['narrow', 'Narrow']],
+  hinge: [['continuous', 'Continuous hinge'], ['butt', 'Butt hinges'], ['offset_pivot', 'Offset pivots']],
+  edge: [['rabbeted', 'Rabbeted'], ['beveled', 'Beveled']],
+  frameType: [['openback', 'Openback'], ['closed_back', 'Closed back']],
+  handing: [['LH', 'LH'], ['RH', 'RH'], ['LHR', 'LHR'], ['RHR', 'RHR']],
+};
+
+const FIELDS: Array<{ key: keyof DoorSpec; label: string; placeholder?: string }> = [
+  { key: 'mark', label: 'Door mark', placeholder: 'e.g. D101' },
+  { key: 'quantity', label: 'Quantity' },
+  { key: 'configuration', label: 'Configuration' },
+  { key: 'series', label: 'Stile series' },
+  { key: 'stile', label: 'Stile as specified' },
+  { key: 'stileWidthIn', label: 'Stile width (in)', placeholder: 'e.g. 3.5' },
+  { key: 'widthIn', label: 'Opening width (in)' },
+  { key: 'heightIn', label: 'Opening height (in)' },
+  { key: 'hinge', label: 'Hinges' },
+  { key: 'edge', label: 'Door edge as specified' },
+  { key: 'frameType', label: 'Frame as specified' },
+  { key: 'handing', label: 'Handing' },
+  { key: 'finish', label: 'Finish', placeholder: 'e.g. clear anodized' },
+  { key: 'hardware', label: 'Hardware', placeholder: 'e.g. MS lock, closer' },
+];
+
+const NUMBER_FIELDS: Array<keyof DoorSpec> = ['quantity', 'stileWidthIn', 'widthIn', 'heightIn'];
+
+function toSpec(form: DoorForm): DoorSpec {
+  const spec: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(form)) {
+    if (!value.trim()) continue;
+    spec[key] = NUMBER_FIELDS.includes(key as keyof DoorSpec) ? Number(value) : value.trim();
+  }
+  spec.sidelites = form.sidelites === 'yes';
+  return spec as DoorSpec;
+}
+
+export default function DoorCheckPage() {
+  const [form, setForm] = useState<DoorForm>(EMPTY_FORM);
+
+  let result: ReturnType<typeof validateDoorConfig> | null = null;
+  let error: string | null = null;
+  try {
+    result = validateDoorConfig(toSpec(form));
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Invalid door spec';
+  }
+
+  const update = (key: keyof DoorForm, value: string) => setForm(current => ({ ...current, [key]: value }));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-6 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">Door check</h1>
+            <p className="text-sm text-gray-500">Enter a Kawneer entrance as it is specified to check it against our ordering rules and get the order line.</p>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">Back to chat</Link>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <form onSubmit={e => e.preventDefault()} className="bg-white border border-gray-200 rounded-2xl shadow-sm p-5 grid grid-cols-2 gap-3">
+            {FIELDS.map(field => (
+              <label key={field.key} className="text-xs font-medium text-gray-600">
+                {field.label}
+                {SELECTS[field.key] ? (
+                  <select
+                    value={form[field.key]}
+                    onChange={e => update(field.key, e.target.value)}
+                    className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm text-gray-800 bg-white"
+                  >
+                    <option value="">Not specified</option>
+                    {SELECTS[field.key]!.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                  </select>
+                ) : (
+                  <input
+                    value={form[field.key]}
+                    onChange={e => update(field.key, e.target.value)}
+                    placeholder={field.placeholder}
+                    inputMode={NUMBER_FIELDS.includes(field.key) ? 'decimal' : 'text'}
+                    className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm text-gray-800"
+                  />
+                )}
+              </label>
+            ))}
+            <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.sidelites === 'yes'}
+                onChange={e => update('sidelites', e.target.checked ? 'yes' : '')}
+              />
+              Opening has sidelites
+            </label>
+            <button
+              type="button"
+              onClick={() => setForm(EMPTY_FORM)}
+              className="col-span-2 justify-self-start text-sm text-blue-600 hover:underline"
+            >
+              Clear
+            </button>
+          </form>
+
+          <div className="space-y-4">
+            {error && <div className="px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">{error}</div>}
+            {result && <DoorConfigSummary result={result} />}
+            <div className="bg-white border border-gray-200 rounded-2xl shadow-sm p-4">
+              <h2 className="font-semibold text-gray-800 mb-2">Rules</h2>
+              <ul className="space-y-1 text-sm text-gray-600">
+                {Object.values(DOOR_RULES).map(rule => (
+                  <li key={rule.id}><span className="font-medium text-gray-800">{rule.name}:</span> {rule.rule}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
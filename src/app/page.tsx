@@ -2,9 +2,22 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import ReactMarkdown from 'react-markdown';
 import Image from 'next/image';
+import Link from 'next/link';
 import { FcGoogle } from 'react-icons/fc';
 import { supabase } from './supabaseClient';
 import type { User as SupabaseUser } from '@supabase/supabase-js';
+import type { Citation } from '@/lib/citations';
+import type { DisplayedToolResult } from '@/lib/tools';
+import { formatCurrency, type BidBreakdown } from '@/lib/estimating/bid';
+import { elevationTakeoffToCsv, formatInches, type ElevationTakeoff } from '@/lib/estimating/elevation';
+import type { DoorConfigResult } from '@/lib/estimating/doors';
+import DoorConfigSummary from './doors/DoorConfigSummary';
+import UpcomingBids from './projects/UpcomingBids';
+import { formatAddress, toEml, toMailtoUrl, type EmailDraft, type VendorEmail } from '@/lib/vendorEmail';
+import type { SavedProposal } from '@/lib/tools/saveProposal';
+import type { ContactLookup } from '@/lib/tools/lookupContact';
+import { toTelUrl, type Contact } from '@/lib/contacts';
+import { jobName, normalizeJobContext, type JobContext } from '@/lib/jobContext';
 
 // Message type
 type ChatMessage = {
@@ -14,6 +27,10 @@ type ChatMessage = {
   id?: string;
   timestamp?: number;
   isError?: boolean;
+  rateLimited?: boolean; // Turned away by the rate limiter; the text says when to try again
+  interrupted?: boolean; // Generation was stopped before the answer finished
+  citations?: Citation[]; // Sources referenced in the text as [n]
+  toolResults?: DisplayedToolResult[]; // Tool output rendered as cards, e.g. bid breakdowns
 };
 
 // Simplified chat storage using OpenAI threads
@@ -22,27 +39,80 @@ type ChatSession = {
   title: string;
   created: number;
   updated: number; // Track when last interacted with
-  threadId?: string;
+  hasThread?: boolean; // Whether the chat has history to load
+  jobContext?: JobContext | null;
 };
 
-// Backend API query function with streaming
-async function queryStream(data: { question: string; threadId?: string }, onMessage: (text: string) => void, onComplete: (threadId: string) => void, onError: (error: string) => void) {
+// Current Supabase access token, sent to API routes that act on behalf of the user
+async function getAccessToken() {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token;
+}
+
+// Authorization header for the API routes; the server derives the user from it
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const accessToken = await getAccessToken();
+  return accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+}
+
+type StreamOptions = {
+  signal?: AbortSignal;
+  onRunStarted?: (runId: string) => void;
+  onStatus?: (status: string) => void;
+  onCitations?: (citations: Citation[]) => void;
+  onToolResult?: (toolResult: DisplayedToolResult) => void;
+};
+
+// Labels for run statuses worth showing while a response streams
+const RUN_STATUS_LABELS: Record<string, string> = {
+  queued: 'Queued…',
+  requires_action: 'Running tools…',
+};
+
+// Thrown by queryStream when the server answers 429; the message is written for the user
+class RateLimitError extends Error {}
+
+// Bot message shown in place of an answer that failed
+function failedReply(err: unknown, id: string, fallback: string): ChatMessage {
+  if (err instanceof RateLimitError) {
+    return { sender: "bot", text: err.message, id, rateLimited: true };
+  }
+  return { sender: "bot", text: fallback, id, isError: true };
+}
+
+// Backend API query function with streaming. Resolves with interrupted: true when aborted via options.signal
+async function queryStream(data: { question: string; chatId: string }, onMessage: (text: string) => void, onStart: () => void, onError: (error: string) => void, options: StreamOptions = {}): Promise<{ interrupted: boolean }> {
   console.log('queryStream: Starting request with data:', data);
-  const response = await fetch("/api/chatbot/stream", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(data),
-  });
+  let response: Response;
+  try {
+    response = await fetch("/api/chatbot/stream", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(await getAuthHeaders()) },
+      body: JSON.stringify(data),
+      signal: options.signal,
+    });
+  } catch (e) {
+    if (options.signal?.aborted) return { interrupted: true };
+    throw e;
+  }
   
   console.log('queryStream: Response status:', response.status);
   console.log('queryStream: Response ok:', response.ok);
   
   if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
+    const errorData = await response.json().catch(() => null);
+    if (response.status === 401) {
+      throw new Error('Your session has expired. Please sign in again.');
+    }
+    if (response.status === 429) {
+      throw new RateLimitError(errorData?.error || 'The assistant is busy. Please wait a moment and try again.');
+    }
+    throw new Error(errorData?.error || `HTTP error! status: ${response.status}`);
   }
   
   const reader = response.body?.getReader();
   const decoder = new TextDecoder();
+  let buffer = '';
   
   if (!reader) {
     throw new Error('No response body');
@@ -54,9 +124,13 @@ async function queryStream(data: { question: string; threadId?: string }, onMess
       
       if (done) break;
       
-      const chunk = decoder.decode(value);
-      console.log('queryStream: Received chunk:', chunk);
-      const lines = chunk.split('\n');
+      const chunk = decoder.decode(value, { stream: true });
+
+      // Events such as tool results can span several reads; keep the
+      // incomplete last line until the rest of it arrives
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
       
       for (const line of lines) {
         if (line.startsWith('data: ')) {
@@ -65,16 +139,28 @@ async function queryStream(data: { question: string; threadId?: string }, onMess
             
             switch (data.type) {
               case 'start':
-                onComplete(data.threadId);
+                onStart();
+                break;
+              case 'run_started':
+                options.onRunStarted?.(data.runId);
+                break;
+              case 'status':
+                options.onStatus?.(data.status);
                 break;
               case 'message':
                 onMessage(data.text);
                 break;
+              case 'citations':
+                options.onCitations?.(data.citations);
+                break;
+              case 'tool_result':
+                options.onToolResult?.({ toolCallId: data.toolCallId, name: data.name, result: data.result });
+                break;
               case 'done':
-                return;
+                return { interrupted: false };
               case 'error':
                 onError(data.error);
-                return;
+                return { interrupted: false };
             }
           } catch (e) {
             console.error('Error parsing SSE data:', e);
@@ -82,9 +168,14 @@ async function queryStream(data: { question: string; threadId?: string }, onMess
         }
       }
     }
+  } catch (e) {
+    if (options.signal?.aborted) return { interrupted: true };
+    throw e;
   } finally {
     reader.releaseLock();
   }
+
+  return { interrupted: false };
 }
 
 // Enhanced Spinner component
@@ -362,6 +453,69 @@ function AuthModal({ open, onClose, initialTab = 'signin', setUser }: { open: bo
 }
 
 // Enhanced Typing dots animation
+// The signed-in user's access, from /api/account
+type AccountAccess = {
+  email: string | null;
+  status: 'pending' | 'approved' | 'revoked';
+  approved: boolean;
+  allowedDomains: string[];
+};
+
+// Invite token from an invite link, kept until the invitee has signed in
+const PENDING_INVITE_KEY = 'pendingInvite';
+
+async function loadAccount(): Promise<AccountAccess> {
+  const response = await fetch('/api/account', { headers: await getAuthHeaders() });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load account');
+  }
+  return data;
+}
+
+// Redeem a saved invite token; resolves with an error message when it cannot be used
+async function acceptInvite(token: string): Promise<string | null> {
+  const response = await fetch('/api/invites/accept', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify({ token }),
+  });
+  if (response.ok) return null;
+  const data = await response.json().catch(() => null);
+  return data?.error || 'The invite could not be used';
+}
+
+// Shown instead of the chat to accounts that are not approved
+function PendingApproval({ access, inviteError, onRefresh, onSignOut }: { access: AccountAccess; inviteError: string | null; onRefresh: () => void; onSignOut: () => void }) {
+  const domains = access.allowedDomains.map(domain => `@${domain}`).join(' or ');
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4 font-sans">
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-200 w-full max-w-md p-8 text-center">
+        <Image src="/logo.png" alt="First Glass Logo" width={80} height={40} className="mx-auto mb-4" />
+        {access.status === 'revoked' ? (
+          <>
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Your access has been removed</h2>
+            <p className="text-sm text-gray-600">Ask a First Glass admin if you think this is a mistake.</p>
+          </>
+        ) : (
+          <>
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Waiting for approval</h2>
+            <p className="text-sm text-gray-600">
+              {access.email} is not a {domains} address, so an admin needs to approve it before you can use the assistant.
+              If you were sent an invite link, open it while signed in with the address it was sent to.
+            </p>
+          </>
+        )}
+        {inviteError && <div className="mt-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">{inviteError}</div>}
+        <div className="mt-6 flex justify-center gap-3">
+          <button onClick={onRefresh} className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors">Check again</button>
+          <button onClick={onSignOut} className="px-4 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors">Sign out</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function TypingDots() {
   return (
     <div className="flex items-center space-x-1">
@@ -374,51 +528,561 @@ function TypingDots() {
 
 
 
-// Enhanced Citation component
-function CitationButton({ citation }: { citation: string }) {
+// Numbered footnote reference in the answer text. Web sources open directly,
+// document sources expand their footnote.
+function CitationMarker({ citation, onOpen }: { citation: Citation; onOpen: (index: number) => void }) {
+  const className = "inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 align-super bg-blue-100 text-blue-700 rounded-full text-[10px] font-semibold hover:bg-blue-200 transition-colors no-underline";
+
+  if (citation.url) {
+    return (
+      <a href={citation.url} target="_blank" rel="noopener noreferrer" className={className} title={citation.title}>
+        {citation.index}
+      </a>
+    );
+  }
+
+  return (
+    <button type="button" onClick={() => onOpen(citation.index)} className={className} title={citation.title}>
+      {citation.index}
+    </button>
+  );
+}
+
+// Source list shown under an answer
+function CitationFootnotes({ citations, openIndex, onToggle }: { citations: Citation[]; openIndex: number | null; onToggle: (index: number) => void }) {
+  return (
+    <ol className="mt-3 pt-2 border-t border-gray-100 space-y-1 text-xs text-gray-600 list-none pl-0">
+      {citations.map(citation => (
+        <li key={citation.index} className="flex gap-2">
+          <span className="font-semibold text-blue-700">[{citation.index}]</span>
+          <div className="min-w-0">
+            {citation.url ? (
+              <a href={citation.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+                {citation.title}
+              </a>
+            ) : (
+              <button type="button" onClick={() => onToggle(citation.index)} className="text-left text-blue-600 hover:underline">
+                📄 {citation.title}{citation.page ? `, p. ${citation.page}` : ''}
+              </button>
+            )}
+            {openIndex === citation.index && citation.quote && (
+              <blockquote className="mt-1 border-l-4 border-blue-200 pl-3 italic text-gray-600 whitespace-pre-wrap">
+                {citation.quote}
+              </blockquote>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// Answer text with markdown and [n] footnote references
+function MessageContent({ text, citations = [] }: { text: string; citations?: Citation[] }) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const toggleCitation = (index: number) => setOpenIndex(prev => prev === index ? null : index);
+
+  // Older answers may still contain raw 【】 markers without sources
+  const parts = text.replace(/【[^】]*】/g, '').split(/(\[\d+\])/);
+
   return (
-    <span className="inline-block relative group">
-      <button className="inline-flex items-center justify-center w-5 h-5 bg-blue-100 text-blue-700 rounded-full text-xs font-semibold hover:bg-blue-200 transition-all duration-200 group-hover:scale-110">
-        📄
-      </button>
-      <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 bg-gray-800 text-white text-sm rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap z-50 max-w-xs">
-        {citation}
-        <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-800"></div>
+    <>
+      {parts.map((part, index) => {
+        const reference = part.match(/^\[(\d+)\]$/);
+        const citation = reference && citations.find(c => c.index === Number(reference[1]));
+        if (citation) {
+          return <CitationMarker key={index} citation={citation} onOpen={toggleCitation} />;
+        }
+
+        return (
+          <span key={index} className="inline">
+            <ReactMarkdown
+              components={{
+                p: ({ children }) => <span className="inline">{children}</span>,
+                strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+                em: ({ children }) => <em className="italic">{children}</em>,
+                code: ({ children }) => <code className="bg-gray-100 px-1 py-0.5 rounded text-sm font-mono">{children}</code>,
+                pre: ({ children }) => <pre className="bg-gray-100 p-2 rounded text-sm font-mono overflow-x-auto">{children}</pre>,
+                ul: ({ children }) => <ul className="list-disc list-inside space-y-1">{children}</ul>,
+                ol: ({ children }) => <ol className="list-decimal list-inside space-y-1">{children}</ol>,
+                li: ({ children }) => <li className="text-sm">{children}</li>,
+                blockquote: ({ children }) => <blockquote className="border-l-4 border-blue-200 pl-4 italic text-gray-600">{children}</blockquote>,
+                // Links to generated files point at their footnote
+                a: ({ href, children }) => {
+                  const fileReference = href?.match(/^#citation-(\d+)$/);
+                  if (fileReference) {
+                    return (
+                      <button type="button" onClick={() => toggleCitation(Number(fileReference[1]))} className="text-blue-600 underline">
+                        {children}
+                      </button>
+                    );
+                  }
+                  return <a href={href}>{children}</a>;
+                },
+              }}
+            >
+              {part}
+            </ReactMarkdown>
+          </span>
+        );
+      })}
+      {citations.length > 0 && (
+        <CitationFootnotes citations={citations} openIndex={openIndex} onToggle={toggleCitation} />
+      )}
+    </>
+  );
+}
+
+// Itemized bid from the calculate_bid tool
+function BidBreakdownTable({ bid }: { bid: BidBreakdown }) {
+  return (
+    <div className="my-2 rounded-xl border border-blue-100 overflow-hidden bg-blue-50/40">
+      <div className="px-4 py-2 bg-blue-50 text-sm font-semibold text-blue-800">
+        Bid breakdown{bid.projectName ? ` – ${bid.projectName}` : ''}
       </div>
-    </span>
+      <table className="w-full text-sm">
+        <thead className="text-left text-xs uppercase text-gray-500">
+          <tr>
+            <th className="px-4 py-2">Item</th>
+            <th className="px-4 py-2">Basis</th>
+            <th className="px-4 py-2 text-right">Amount</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-blue-100">
+          {bid.lineItems.map((item, index) => (
+            <tr key={index}>
+              <td className="px-4 py-1.5">{item.label}</td>
+              <td className="px-4 py-1.5 text-gray-500">{item.basis}</td>
+              <td className="px-4 py-1.5 text-right tabular-nums">{formatCurrency(item.amount)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="border-t-2 border-blue-200">
+          <tr>
+            <td className="px-4 py-1.5 font-medium" colSpan={2}>Subtotal</td>
+            <td className="px-4 py-1.5 text-right tabular-nums">{formatCurrency(bid.subtotal)}</td>
+          </tr>
+          <tr>
+            <td className="px-4 py-1.5 font-medium" colSpan={2}>Markup ({bid.markupPercent}%)</td>
+            <td className="px-4 py-1.5 text-right tabular-nums">{formatCurrency(bid.markup)}</td>
+          </tr>
+          <tr className="bg-blue-50">
+            <td className="px-4 py-2 font-semibold" colSpan={2}>Total bid</td>
+            <td className="px-4 py-2 text-right font-semibold tabular-nums">{formatCurrency(bid.total)}</td>
+          </tr>
+        </tfoot>
+      </table>
+      {bid.warnings.length > 0 && (
+        <ul className="px-4 py-2 text-xs text-amber-700 bg-amber-50 border-t border-amber-100">
+          {bid.warnings.map((warning, index) => <li key={index}>⚠️ {warning}</li>)}
+        </ul>
+      )}
+    </div>
   );
 }
 
-// Enhanced text processing with citations and markdown
-function processTextWithCitations(text: string) {
-  const parts = text.split(/(【[^】]+】)/);
-  
-  return parts.map((part, index) => {
-    if (part.match(/^【[^】]+】$/)) {
-      const citation = part.slice(1, -1);
-      return <CitationButton key={index} citation={citation} />;
-    } else {
-      return (
-        <span key={index} className="inline">
-          <ReactMarkdown
-            components={{
-              p: ({ children }) => <span className="inline">{children}</span>,
-              strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
-              em: ({ children }) => <em className="italic">{children}</em>,
-              code: ({ children }) => <code className="bg-gray-100 px-1 py-0.5 rounded text-sm font-mono">{children}</code>,
-              pre: ({ children }) => <pre className="bg-gray-100 p-2 rounded text-sm font-mono overflow-x-auto">{children}</pre>,
-              ul: ({ children }) => <ul className="list-disc list-inside space-y-1">{children}</ul>,
-              ol: ({ children }) => <ol className="list-decimal list-inside space-y-1">{children}</ol>,
-              li: ({ children }) => <li className="text-sm">{children}</li>,
-              blockquote: ({ children }) => <blockquote className="border-l-4 border-blue-200 pl-4 italic text-gray-600">{children}</blockquote>,
-            }}
+// Frame, glass and door takeoff from the storefront_elevation_takeoff tool
+function ElevationTakeoffCard({ takeoff }: { takeoff: ElevationTakeoff }) {
+  const frameRows: Array<[string, number]> = [
+    ['Verticals', takeoff.frame.verticalsFt],
+    ['Head', takeoff.frame.headFt],
+    ['Sill', takeoff.frame.sillFt],
+    ['Intermediate horizontals', takeoff.frame.horizontalsFt],
+    ['Door headers', takeoff.frame.doorHeadersFt]
+  ];
+
+  return (
+    <div className="my-2 rounded-xl border border-blue-100 overflow-hidden bg-blue-50/40">
+      <div className="px-4 py-2 bg-blue-50 flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-blue-800">
+          Elevation takeoff{takeoff.name ? ` – ${takeoff.name}` : ''}
+          <span className="ml-2 font-normal text-gray-500">
+            {formatInches(takeoff.widthIn)} × {formatInches(takeoff.heightIn)}, {takeoff.bays} bays
+            {takeoff.quantity > 1 ? `, ×${takeoff.quantity}` : ''}
+          </span>
+        </span>
+        <CopyButton text={elevationTakeoffToCsv(takeoff)} label="Copy CSV" />
+      </div>
+      <table className="w-full text-sm">
+        <thead className="text-left text-xs uppercase text-gray-500">
+          <tr>
+            <th className="px-4 py-2">Frame ({takeoff.frameProfile})</th>
+            <th className="px-4 py-2 text-right">LF</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-blue-100">
+          {frameRows.filter(([, lengthFt]) => lengthFt > 0).map(([label, lengthFt]) => (
+            <tr key={label}>
+              <td className="px-4 py-1.5">{label}</td>
+              <td className="px-4 py-1.5 text-right tabular-nums">{lengthFt}</td>
+            </tr>
+          ))}
+          <tr className="bg-blue-50">
+            <td className="px-4 py-1.5 font-semibold">Total frame</td>
+            <td className="px-4 py-1.5 text-right font-semibold tabular-nums">{takeoff.frame.totalFt}</td>
+          </tr>
+        </tbody>
+      </table>
+      <table className="w-full text-sm border-t border-blue-100">
+        <thead className="text-left text-xs uppercase text-gray-500">
+          <tr>
+            <th className="px-4 py-2">Glass type</th>
+            <th className="px-4 py-2">Lite size</th>
+            <th className="px-4 py-2 text-right">Qty</th>
+            <th className="px-4 py-2 text-right">SF</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-blue-100">
+          {takeoff.lites.map((lite, index) => (
+            <tr key={index}>
+              <td className="px-4 py-1.5">{lite.glassType}</td>
+              <td className="px-4 py-1.5 tabular-nums">{formatInches(lite.widthIn)} × {formatInches(lite.heightIn)}</td>
+              <td className="px-4 py-1.5 text-right tabular-nums">{lite.quantity}</td>
+              <td className="px-4 py-1.5 text-right tabular-nums">{lite.sqft}</td>
+            </tr>
+          ))}
+          {takeoff.glassTypes.map(total => (
+            <tr key={total.glassType} className="bg-blue-50">
+              <td className="px-4 py-1.5 font-semibold" colSpan={2}>Total {total.glassType}</td>
+              <td className="px-4 py-1.5 text-right tabular-nums">{total.lites}</td>
+              <td className="px-4 py-1.5 text-right font-semibold tabular-nums">{total.sqft}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="px-4 py-2 text-sm border-t border-blue-100 space-y-0.5">
+        <div>
+          <span className="font-medium">Doors:</span>{' '}
+          {takeoff.doors.openings === 0
+            ? 'none'
+            : `${takeoff.doors.openings} opening${takeoff.doors.openings === 1 ? '' : 's'} (${takeoff.doors.leaves} ${takeoff.doors.leaves === 1 ? 'leaf' : 'leaves'}) – ` +
+              takeoff.doors.items.map(door => `${door.type} in bay ${door.bay}, ${formatInches(door.widthIn)} × ${formatInches(door.heightIn)}`).join('; ')}
+        </div>
+        <div>
+          <span className="font-medium">Glass stops:</span> {takeoff.glassStops.location}, {takeoff.glassStops.lengthFt} LF
+        </div>
+      </div>
+      {takeoff.notes.length > 0 && (
+        <ul className="px-4 py-2 text-xs text-gray-500 border-t border-blue-100">
+          {takeoff.notes.map((note, index) => <li key={index}>{note}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Small copy button that confirms for two seconds
+function CopyButton({ text, label = 'Copy' }: { text: string; label?: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <button
+      onClick={copy}
+      className="shrink-0 text-xs px-2 py-1 rounded-lg border border-blue-200 bg-white text-blue-700 hover:bg-blue-100 transition-colors"
+    >
+      {copied ? 'Copied' : label}
+    </button>
+  );
+}
+
+// Email draft with copy, mail client and .eml download buttons
+function EmailDraftCard({ email, title = 'Email draft' }: { email: EmailDraft; title?: string }) {
+  const downloadEml = () => {
+    const url = URL.createObjectURL(new Blob([toEml(email)], { type: 'message/rfc822' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${email.subject.replace(/[\\/:*?"<>|]+/g, '').trim()}.eml`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="my-2 rounded-xl border border-blue-100 overflow-hidden bg-blue-50/40 text-sm">
+      <div className="px-4 py-2 bg-blue-50 flex items-center justify-between gap-2">
+        <span className="font-semibold text-blue-800">{title}</span>
+        <div className="flex gap-2">
+          <a
+            href={toMailtoUrl(email)}
+            className="text-xs px-2 py-1 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
           >
-            {part}
-          </ReactMarkdown>
+            Open in mail client
+          </a>
+          <button
+            onClick={downloadEml}
+            className="text-xs px-2 py-1 rounded-lg border border-blue-200 bg-white text-blue-700 hover:bg-blue-100 transition-colors"
+          >
+            Download .eml
+          </button>
+        </div>
+      </div>
+      <div className="divide-y divide-blue-100">
+        <div className="px-4 py-2 flex items-start gap-3">
+          <span className="w-16 shrink-0 text-xs uppercase text-gray-500 pt-0.5">From</span>
+          <span className="flex-1 text-gray-600">{formatAddress(email.from)}</span>
+        </div>
+        <div className="px-4 py-2 flex items-start gap-3">
+          <span className="w-16 shrink-0 text-xs uppercase text-gray-500 pt-0.5">To</span>
+          <span className="flex-1">{formatAddress(email.to)}</span>
+          {email.to.email && <CopyButton text={email.to.email} />}
+        </div>
+        <div className="px-4 py-2 flex items-start gap-3">
+          <span className="w-16 shrink-0 text-xs uppercase text-gray-500 pt-0.5">Subject</span>
+          <span className="flex-1 font-medium">{email.subject}</span>
+          <CopyButton text={email.subject} />
+        </div>
+        <div className="px-4 py-2 flex items-start gap-3">
+          <span className="w-16 shrink-0 text-xs uppercase text-gray-500 pt-0.5">Body</span>
+          <pre className="flex-1 whitespace-pre-wrap font-sans text-gray-800">{email.body}</pre>
+          <CopyButton text={email.body} />
+        </div>
+        {email.attachments.length > 0 && (
+          <div className="px-4 py-2 flex items-start gap-3">
+            <span className="w-16 shrink-0 text-xs uppercase text-gray-500 pt-0.5">Attach</span>
+            <span className="flex-1 text-gray-600">{email.attachments.join(', ')}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Bid proposal saved by the save_proposal tool, with its PDF and cover email
+function ProposalCard({ saved }: { saved: SavedProposal }) {
+  const { proposal } = saved;
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const downloadPdf = async () => {
+    setDownloading(true);
+    setError(null);
+    try {
+      const response = await fetch(saved.pdfUrl, { headers: await getAuthHeaders() });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to create PDF');
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = saved.coverEmail.attachments[0] || 'Bid Proposal.pdf';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create PDF');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="my-2 space-y-2">
+      <div className="rounded-xl border border-blue-100 overflow-hidden bg-blue-50/40 text-sm">
+        <div className="px-4 py-2 bg-blue-50 flex items-center justify-between gap-2">
+          <span className="font-semibold text-blue-800">Bid proposal – {proposal.project_name}</span>
+          <button
+            onClick={downloadPdf}
+            disabled={downloading}
+            className="text-xs px-2 py-1 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {downloading ? 'Creating PDF…' : 'Download PDF'}
+          </button>
+        </div>
+        <div className="px-4 py-2 space-y-0.5">
+          {proposal.gc_name && <div><span className="font-medium">GC:</span> {proposal.gc_name}</div>}
+          {proposal.bid_date && <div><span className="font-medium">Bid date:</span> {proposal.bid_date}</div>}
+          <div>
+            <span className="font-medium">Base bid:</span>{' '}
+            {proposal.base_bid === null ? 'not set' : formatCurrency(proposal.base_bid)}
+            {proposal.alternates.length > 0 && `, ${proposal.alternates.length} alternate${proposal.alternates.length === 1 ? '' : 's'}`}
+          </div>
+        </div>
+        {saved.missingSections.length > 0 && (
+          <div className="px-4 py-2 text-xs text-amber-700 bg-amber-50 border-t border-amber-100">
+            ⚠️ Still missing: {saved.missingSections.join(', ')}
+          </div>
+        )}
+        {error && <div className="px-4 py-2 text-xs text-red-700 bg-red-50 border-t border-red-100">{error}</div>}
+      </div>
+      <EmailDraftCard email={saved.coverEmail} title="Cover email" />
+    </div>
+  );
+}
+
+// Contacts from the lookup_contact tool, with mailto and tel links
+function ContactCards({ lookup }: { lookup: ContactLookup }) {
+  if (lookup.contacts.length === 0) {
+    return (
+      <div className="my-2 px-4 py-2 rounded-xl border border-gray-200 bg-gray-50 text-sm text-gray-500">
+        No contacts found for “{lookup.query}”
+      </div>
+    );
+  }
+
+  return (
+    <div className="my-2 grid gap-2 sm:grid-cols-2">
+      {lookup.contacts.map((contact: Contact) => (
+        <div key={contact.id} className="rounded-xl border border-blue-100 bg-blue-50/40 px-4 py-3 text-sm">
+          <div className="font-semibold text-blue-800">{contact.name}</div>
+          {(contact.role || contact.company) && (
+            <div className="text-xs text-gray-500">{[contact.role, contact.company].filter(Boolean).join(' · ')}</div>
+          )}
+          <div className="mt-2 space-y-1">
+            {contact.email && (
+              <div className="flex items-center gap-2">
+                <a href={`mailto:${contact.email}`} className="flex-1 text-blue-700 hover:underline break-all">{contact.email}</a>
+                <CopyButton text={contact.email} />
+              </div>
+            )}
+            {contact.phone && (
+              <div className="flex items-center gap-2">
+                <a href={toTelUrl(contact.phone)} className="flex-1 text-blue-700 hover:underline">{contact.phone}</a>
+                <CopyButton text={contact.phone} />
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type JobContextForm = Record<keyof JobContext, string>;
+
+const JOB_CONTEXT_FIELDS: Array<{ key: keyof JobContext; label: string; placeholder?: string; multiline?: boolean }> = [
+  { key: 'projectName', label: 'Project', placeholder: 'e.g. Central Plaza' },
+  { key: 'gcName', label: 'GC' },
+  { key: 'bidDate', label: 'Bid date', placeholder: 'e.g. 8/15/25' },
+  { key: 'scope', label: 'Scope', placeholder: 'e.g. storefront, entrances, mirrors' },
+  { key: 'glassTypes', label: 'Glass types', placeholder: 'One per line', multiline: true },
+  { key: 'notes', label: 'Notes', multiline: true },
+];
+
+function toJobContextForm(jobContext: JobContext | null | undefined): JobContextForm {
+  return {
+    projectName: jobContext?.projectName || '',
+    gcName: jobContext?.gcName || '',
+    bidDate: jobContext?.bidDate || '',
+    scope: jobContext?.scope || '',
+    glassTypes: jobContext?.glassTypes?.join('\n') || '',
+    notes: jobContext?.notes || '',
+  };
+}
+
+// Chat header panel for the job the chat is about; the assistant gets it on every turn
+function JobContextPanel({ jobContext, disabled, onSave }: { jobContext: JobContext | null | undefined; disabled: boolean; onSave: (jobContext: JobContext | null) => Promise<void> }) {
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState<JobContextForm>(() => toJobContextForm(jobContext));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setForm(toJobContextForm(jobContext));
+    setError(null);
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(normalizeJobContext({ ...form, glassTypes: form.glassTypes.split('\n') }));
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save job context');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    const summary = jobContext
+      ? [jobContext.projectName, jobContext.gcName, jobContext.bidDate && `Bids ${jobContext.bidDate}`].filter(Boolean).join(' · ')
+      : null;
+    return (
+      <div className="px-6 py-2 border-b border-blue-100 bg-blue-50/40 text-sm flex items-center gap-3">
+        <span className="flex-1 truncate text-gray-600">
+          {jobContext ? <><span className="font-medium text-blue-800">Job:</span> {summary || 'details set'}</> : 'No job set for this chat'}
         </span>
+        <button onClick={startEditing} disabled={disabled} className="text-xs text-blue-700 hover:underline disabled:opacity-50">
+          {jobContext ? 'Edit job' : 'Set job'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="px-6 py-3 border-b border-blue-100 bg-blue-50/40 text-sm">
+      <div className="max-w-4xl mx-auto grid grid-cols-2 md:grid-cols-3 gap-3">
+        {JOB_CONTEXT_FIELDS.map(field => (
+          <label key={field.key} className={`text-xs font-medium text-gray-600 ${field.multiline ? 'col-span-2 md:col-span-3' : ''}`}>
+            {field.label}
+            {field.multiline ? (
+              <textarea
+                value={form[field.key]}
+                onChange={e => setForm(current => ({ ...current, [field.key]: e.target.value }))}
+                placeholder={field.placeholder}
+                rows={2}
+                className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm text-gray-800 bg-white"
+              />
+            ) : (
+              <input
+                value={form[field.key]}
+                onChange={e => setForm(current => ({ ...current, [field.key]: e.target.value }))}
+                placeholder={field.placeholder}
+                className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm text-gray-800 bg-white"
+              />
+            )}
+          </label>
+        ))}
+        <div className="col-span-2 md:col-span-3 flex items-center gap-3">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-xs font-semibold hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {saving ? 'Saving…' : 'Save job'}
+          </button>
+          <button type="button" onClick={() => setEditing(false)} className="text-xs text-gray-500 hover:underline">Cancel</button>
+          {error && <span className="text-xs text-red-700">{error}</span>}
+        </div>
+      </div>
+    </form>
+  );
+}
+
+// Cards for tool results the server forwards to the chat
+function ToolResultCard({ toolResult }: { toolResult: DisplayedToolResult }) {
+  switch (toolResult.name) {
+    case 'calculate_bid':
+      return <BidBreakdownTable bid={toolResult.result as BidBreakdown} />;
+    case 'storefront_elevation_takeoff':
+      return <ElevationTakeoffCard takeoff={toolResult.result as ElevationTakeoff} />;
+    case 'draft_vendor_email':
+      return <EmailDraftCard email={toolResult.result as VendorEmail} />;
+    case 'save_proposal':
+      return <ProposalCard saved={toolResult.result as SavedProposal} />;
+    case 'lookup_contact':
+      return <ContactCards lookup={toolResult.result as ContactLookup} />;
+    case 'validate_door_config':
+      return (
+        <div className="my-2">
+          <DoorConfigSummary result={toolResult.result as DoorConfigResult} />
+        </div>
       );
-    }
-  });
+    default:
+      return null;
+  }
 }
 
 // Message actions component
@@ -507,8 +1171,7 @@ async function saveChatToDatabase(chat: ChatSession, userId: string) {
         user_id: userId,
         title: chat.title,
         created_at: new Date(chat.created).toISOString(),
-        updated_at: new Date(chat.updated).toISOString(),
-        thread_id: chat.threadId
+        updated_at: new Date(chat.updated).toISOString()
       });
 
     if (chatError) {
@@ -527,7 +1190,7 @@ async function loadUserChats(userId: string): Promise<ChatSession[]> {
   try {
     const { data: chatsData, error: chatsError } = await supabase
       .from('chats')
-      .select('*')
+      .select('id, title, created_at, updated_at, has_thread, job_context')
       .eq('user_id', userId)
       .order('updated_at', { ascending: false });
 
@@ -557,7 +1220,8 @@ async function loadUserChats(userId: string): Promise<ChatSession[]> {
       title: chatData.title,
       created: new Date(chatData.created_at).getTime(),
       updated: new Date(chatData.updated_at).getTime(),
-      threadId: chatData.thread_id
+      hasThread: chatData.has_thread,
+      jobContext: normalizeJobContext(chatData.job_context)
     }));
 
     return chats;
@@ -572,25 +1236,65 @@ async function loadUserChats(userId: string): Promise<ChatSession[]> {
   }
 }
 
-// Load messages from OpenAI thread
-async function loadMessagesFromThread(threadId: string): Promise<ChatMessage[]> {
+// Job context is saved on its own so saving the rest of the chat never overwrites it
+async function saveJobContext(chatId: string, jobContext: JobContext | null) {
+  const { data, error } = await supabase
+    .from('chats')
+    .update({ job_context: jobContext })
+    .eq('id', chatId)
+    .select('id');
+
+  if (error) {
+    console.error('Supabase error saving job context:', error);
+    throw error;
+  }
+  if (!data || data.length === 0) {
+    throw new Error('Chat is not saved yet');
+  }
+}
+
+// Sidebar sections: one per job, most recently active first, then chats with no job
+function groupChatsByJob(chats: ChatSession[]) {
+  const groups = new Map<string, { label: string | null; chats: ChatSession[] }>();
+  const otherChats: ChatSession[] = [];
+  for (const chat of chats) {
+    const job = jobName(chat.jobContext);
+    if (!job) {
+      otherChats.push(chat);
+      continue;
+    }
+    const key = job.toLowerCase();
+    if (!groups.has(key)) groups.set(key, { label: job, chats: [] });
+    groups.get(key)!.chats.push(chat);
+  }
+
+  const result = [...groups.values()];
+  if (otherChats.length > 0) {
+    result.push({ label: result.length > 0 ? 'Other chats' : null, chats: otherChats });
+  }
+  return result;
+}
+
+// Load stored chat history (falls back to the assistant thread for older chats)
+async function loadChatMessages(chatId: string): Promise<ChatMessage[]> {
   try {
     const response = await fetch('/api/chatbot/messages', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(await getAuthHeaders()),
       },
-      body: JSON.stringify({ threadId }),
+      body: JSON.stringify({ chatId }),
     });
 
     if (!response.ok) {
-      throw new Error('Failed to load messages from thread');
+      throw new Error('Failed to load chat messages');
     }
 
     const data = await response.json();
     return data.messages;
   } catch (error) {
-    console.error('Error loading messages from thread:', error);
+    console.error('Error loading chat messages:', error);
     return [{ sender: "bot", text: "Hi! How can I help you today?" }];
   }
 }
@@ -663,13 +1367,18 @@ export default function Home() {
   const [currentMessages, setCurrentMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
+  const [runStatus, setRunStatus] = useState<string | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [isAppLoaded, setIsAppLoaded] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const [authModalOpen, setAuthModalOpen] = useState<false | 'signin' | 'signup'>(false);
   const [user, setUser] = useState<SupabaseUser | null>(null);
+  const [account, setAccount] = useState<AccountAccess | null>(null);
+  const [inviteError, setInviteError] = useState<string | null>(null);
   const isCreatingMessage = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const activeRunRef = useRef<{ chatId?: string; runId?: string }>({});
 
   const [lastUserMessage, setLastUserMessage] = useState<string>("");
   const [dropdownOpen, setDropdownOpen] = useState<string | null>(null);
@@ -702,6 +1411,13 @@ export default function Home() {
     }
   }, [user]);
 
+  // Save the job context of the active chat
+  const handleSaveJobContext = useCallback(async (jobContext: JobContext | null) => {
+    if (!user || !activeChatId) return;
+    await saveJobContext(activeChatId, jobContext);
+    setChats(prev => prev.map(chat => chat.id === activeChatId ? { ...chat, jobContext } : chat));
+  }, [user, activeChatId]);
+
   // Delete chat function
   const handleDeleteChat = useCallback(async (chatId: string) => {
     if (!user) return;
@@ -722,8 +1438,8 @@ export default function Home() {
       
       const response = await fetch('/api/chatbot/delete-chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ chatId, userId: user.id, accessToken })
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ chatId })
       });
 
       if (response.ok) {
@@ -774,8 +1490,8 @@ export default function Home() {
       
       const response = await fetch('/api/chatbot/rename-chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ chatId, userId: user.id, newTitle: newTitle.trim(), accessToken })
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ chatId, newTitle: newTitle.trim() })
       });
 
       if (response.ok) {
@@ -803,8 +1519,8 @@ export default function Home() {
 
   // Load messages when switching chats
   useEffect(() => {
-    if (activeChat?.threadId) {
-      loadMessagesFromThread(activeChat.threadId).then(messages => {
+    if (activeChat?.hasThread) {
+      loadChatMessages(activeChat.id).then(messages => {
         setCurrentMessages(messages);
       });
     } else if (activeChat) {
@@ -812,7 +1528,7 @@ export default function Home() {
     } else {
       setCurrentMessages([]);
     }
-  }, [activeChatId, activeChat?.threadId]);
+  }, [activeChatId, activeChat?.hasThread]);
 
   // Enhanced scroll to bottom
   const scrollToBottom = useCallback(() => {
@@ -823,15 +1539,6 @@ export default function Home() {
     scrollToBottom();
   }, [currentMessages, loading, scrollToBottom]);
 
-  // Debug currentMessages changes
-  useEffect(() => {
-    console.log('Current messages updated:', currentMessages);
-    console.log('Messages length:', currentMessages.length);
-    if (currentMessages.length > 0) {
-      console.log('Last message:', currentMessages[currentMessages.length - 1]);
-    }
-  }, [currentMessages]);
-
   // Keyboard shortcuts and click outside handlers
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -884,6 +1591,54 @@ export default function Home() {
     };
   }, [sidebarOpen, dropdownOpen, editingChatId, handleNewChat]);
 
+  // Options for a new streaming request, so the Stop button can cancel it
+  const createStreamOptions = useCallback((chatId: string, messageId: string): StreamOptions => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    activeRunRef.current = {};
+    setRunStatus(null);
+    return {
+      signal: controller.signal,
+      onRunStarted: (runId) => {
+        activeRunRef.current = { chatId, runId };
+      },
+      onStatus: setRunStatus,
+      onCitations: (citations) => {
+        setCurrentMessages(prev => prev.map(msg =>
+          msg.id === messageId ? { ...msg, citations } : msg
+        ));
+      },
+      onToolResult: (toolResult) => {
+        setCurrentMessages(prev => prev.map(msg =>
+          msg.id === messageId ? { ...msg, toolResults: [...(msg.toolResults || []), toolResult] } : msg
+        ));
+      }
+    };
+  }, []);
+
+  // Stop generation: abort the stream and cancel the run server-side
+  const handleStop = useCallback(() => {
+    const { chatId, runId } = activeRunRef.current;
+    abortControllerRef.current?.abort();
+
+    if (chatId && runId) {
+      getAuthHeaders().then(headers => fetch('/api/chatbot/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ chatId, runId })
+      })).catch(error => {
+        console.error('Error cancelling run:', error);
+      });
+    }
+  }, []);
+
+  // Keep the partial answer but flag it as stopped
+  const markMessageInterrupted = useCallback((messageId: string) => {
+    setCurrentMessages(prev => prev.map(msg =>
+      msg.id === messageId ? { ...msg, interrupted: true } : msg
+    ));
+  }, []);
+
   // Enhanced message sending with better error handling
   async function handleSend(e: React.FormEvent) {
     e.preventDefault();
@@ -929,41 +1684,40 @@ export default function Home() {
     });
     
     try {
-      let receivedThreadId = activeChat.threadId;
-      
-      await queryStream(
-        { question: userMsg.text, threadId: activeChat.threadId },
+      const { interrupted } = await queryStream(
+        { question: userMsg.text, chatId: activeChatId },
         (text) => {
           // Append each character immediately for real-time streaming
-          console.log('Received character:', text);
           setCurrentMessages(prev => {
             const lastMessage = prev[prev.length - 1];
             const newText = (lastMessage?.text || "") + text;
-            console.log('Updated text:', newText);
             const newMessage = { 
+              ...lastMessage,
               sender: "bot", 
               text: newText, 
               id: loadingMessageId 
             };
-            console.log('New message object:', newMessage);
             return [
               ...prev.slice(0, -1),
               newMessage
             ];
           });
         },
-        (threadId) => {
-          receivedThreadId = threadId;
-        },
+        () => {},
         (error) => {
           throw new Error(error);
-        }
+        },
+        createStreamOptions(activeChatId, loadingMessageId)
       );
+
+      if (interrupted) {
+        markMessageInterrupted(loadingMessageId);
+      }
       
-      // Update chat with thread ID and updated timestamp
+      // Update chat with updated timestamp; it now has history to load
       const updatedChat: ChatSession = { 
         ...activeChat, 
-        threadId: receivedThreadId,
+        hasThread: true,
         title: newTitle || activeChat.title,
         updated: Date.now()
       };
@@ -977,24 +1731,19 @@ export default function Home() {
         try {
           await saveChatToDatabase(updatedChat, user.id);
         } catch (error) {
-          console.error('Error saving chat with threadId:', error);
+          console.error('Error saving chat:', error);
         }
       }
       
     } catch (err) {
       setCurrentMessages(prev => [
         ...prev.slice(0, -1),
-        { 
-          sender: "bot", 
-          text: "Sorry, there was an error processing your request. Please try again.", 
-          id: loadingMessageId,
-          isError: true, 
-          Error: err
-        }
+        failedReply(err, loadingMessageId, "Sorry, there was an error processing your request. Please try again.")
       ]);
     } finally {
       setLoading(false);
       isCreatingMessage.current = false;
+      abortControllerRef.current = null;
     }
   }
 
@@ -1017,15 +1766,15 @@ export default function Home() {
     });
     
     try {
-      await queryStream(
-        { question: lastUserMessage, threadId: activeChat.threadId },
+      const { interrupted } = await queryStream(
+        { question: lastUserMessage, chatId: activeChatId },
         (text) => {
           // Append each character immediately for real-time streaming
-          console.log('Regenerate - Received character:', text);
           setCurrentMessages(prev => {
             const lastMessage = prev[prev.length - 1];
             const newText = (lastMessage?.text || "") + text;
             const newMessage = { 
+              ...lastMessage,
               sender: "bot", 
               text: newText, 
               id: loadingMessageId 
@@ -1036,45 +1785,26 @@ export default function Home() {
             ];
           });
         },
-        (threadId) => {
-          // Update chat with new thread ID if needed
-          if (threadId !== activeChat.threadId) {
-            const updatedChat: ChatSession = { 
-              ...activeChat, 
-              threadId: threadId,
-              updated: Date.now()
-            };
-            setChats((prev) => prev.map(chat =>
-              chat.id === activeChatId
-                ? updatedChat
-                : chat
-            ));
-            
-            if (user) {
-              saveChatToDatabase(updatedChat, user.id).catch(error => {
-                console.error('Error saving regenerated chat:', error);
-              });
-            }
-          }
-        },
+        () => {},
         (error) => {
           throw new Error(error);
-        }
+        },
+        createStreamOptions(activeChatId, loadingMessageId)
       );
+
+      if (interrupted) {
+        markMessageInterrupted(loadingMessageId);
+      }
     } catch (err) {
       setCurrentMessages(prev => [
         ...prev.slice(0, -1),
-        { 
-          sender: "bot", 
-          text: "Sorry, there was an error regenerating the response. Please try again.", 
-          id: loadingMessageId,
-          isError: true 
-        }
+        failedReply(err, loadingMessageId, "Sorry, there was an error regenerating the response. Please try again.")
       ]);
     } finally {
       setLoading(false);
+      abortControllerRef.current = null;
     }
-  }, [lastUserMessage, loading, activeChat, activeChatId, user]);
+  }, [lastUserMessage, loading, activeChat, activeChatId, createStreamOptions, markMessageInterrupted]);
 
   // Copy message to clipboard
   const handleCopyMessage = useCallback(async (text: string) => {
@@ -1119,6 +1849,40 @@ export default function Home() {
     return () => { listener?.subscription.unsubscribe(); };
   }, []);
 
+  // Keep the token from an invite link and ask the invitee to sign up
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const token = url.searchParams.get('invite');
+    if (!token) return;
+    localStorage.setItem(PENDING_INVITE_KEY, token);
+    url.searchParams.delete('invite');
+    window.history.replaceState(null, '', url.toString());
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) setAuthModalOpen('signup');
+    });
+  }, []);
+
+  // Check the account's access once signed in, redeeming a saved invite first
+  const refreshAccount = useCallback(async () => {
+    const token = localStorage.getItem(PENDING_INVITE_KEY);
+    if (token) {
+      localStorage.removeItem(PENDING_INVITE_KEY);
+      setInviteError(await acceptInvite(token));
+    }
+    try {
+      setAccount(await loadAccount());
+    } catch (error) {
+      console.error('Error loading account:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    setAccount(null);
+    if (user) refreshAccount();
+  }, [user, refreshAccount]);
+
+  const accountApproved = !!account?.approved;
+
   // Handle sign out with proper error handling
   const handleSignOut = async () => {
     try {
@@ -1153,6 +1917,7 @@ export default function Home() {
   // Load user chats when user changes
   useEffect(() => {
     if (user) {
+      if (!accountApproved) return;
       loadUserChats(user.id).then(userChats => {
         if (userChats.length > 0) {
           setChats(userChats);
@@ -1174,16 +1939,28 @@ export default function Home() {
       setActiveChatId(newChat.id);
       setCurrentMessages([]); // Clear messages to show suggested questions
     }
-  }, [user]);
+  }, [user, accountApproved]);
 
   // Save chat to database when it changes
   useEffect(() => {
-    if (activeChat && user) {
+    if (activeChat && user && accountApproved) {
       saveChatToDatabase(activeChat, user.id).catch(error => {
         console.error('Error saving chat:', error);
       });
     }
-  }, [activeChat, user]);
+  }, [activeChat, user, accountApproved]);
+
+  // Accounts outside the company domains wait for an admin or an invite
+  if (user && !account) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner />
+      </div>
+    );
+  }
+  if (user && account && !account.approved) {
+    return <PendingApproval access={account} inviteError={inviteError} onRefresh={refreshAccount} onSignOut={handleSignOut} />;
+  }
 
   const handleSuggestedQuestion = async (question: string) => {
     // Automatically send the suggested question
@@ -1227,32 +2004,27 @@ export default function Home() {
     });
     
     try {
-      let receivedThreadId = activeChat.threadId;
-      
-      await queryStream(
-        { question: userMsg.text, threadId: activeChat.threadId },
+      const { interrupted } = await queryStream(
+        { question: userMsg.text, chatId: activeChatId },
         (text) => {
           // Append each character immediately for real-time streaming
-          console.log('Received character:', text);
           setCurrentMessages(prev => {
             const lastMessage = prev[prev.length - 1];
             const newText = (lastMessage?.text || "") + text;
-            console.log('Updated text:', newText);
             const newMessage = { 
+              ...lastMessage,
               sender: "bot", 
               text: newText, 
               id: loadingMessageId 
             };
-            console.log('New message object:', newMessage);
             return [
               ...prev.slice(0, -1),
               newMessage
             ];
           });
         },
-        (threadId) => {
-          receivedThreadId = threadId;
-          console.log('Stream completed, thread ID:', threadId);
+        () => {
+          console.log('Stream started for chat:', activeChatId);
         },
         (error) => {
           console.error('Stream error:', error);
@@ -1268,13 +2040,18 @@ export default function Home() {
               }
             ];
           });
-        }
+        },
+        createStreamOptions(activeChatId, loadingMessageId)
       );
+
+      if (interrupted) {
+        markMessageInterrupted(loadingMessageId);
+      }
       
-      // Update chat with new thread ID and title
+      // Update chat with new title; it now has history to load
       const updatedChat: ChatSession = {
         ...activeChat,
-        threadId: receivedThreadId,
+        hasThread: true,
         title: newTitle,
         updated: Date.now()
       };
@@ -1292,21 +2069,14 @@ export default function Home() {
       
     } catch (error) {
       console.error('Error in handleSuggestedQuestion:', error);
-      setCurrentMessages(prev => {
-        const lastMessage = prev[prev.length - 1];
-        return [
-          ...prev.slice(0, -1),
-          { 
-            sender: "bot", 
-            text: "I apologize, but I encountered an error processing your request. Please try again.", 
-            id: loadingMessageId,
-            isError: true
-          }
-        ];
-      });
+      setCurrentMessages(prev => [
+        ...prev.slice(0, -1),
+        failedReply(error, loadingMessageId, "I apologize, but I encountered an error processing your request. Please try again.")
+      ]);
     } finally {
       setLoading(false);
       isCreatingMessage.current = false;
+      abortControllerRef.current = null;
     }
   };
 
@@ -1395,99 +2165,111 @@ export default function Home() {
                 </button>
               </div>
               <div className="p-2">
-                {chats.map((chat) => (
-                  <div
-                    key={chat.id}
-                    className={`relative group/chat w-full px-3 py-3 border border-transparent hover:border-blue-200 hover:bg-blue-50/50 transition-all duration-200 rounded-xl mb-2 ${
-                      chat.id === activeChatId ? 'bg-blue-100/70 border-blue-200 shadow-sm' : ''
-                    }`}
-                  >
-                    {/* Chat content */}
-                    <div className="flex items-center justify-between">
-                      <button
-                        className="flex-1 text-left flex flex-col"
-                        onClick={() => { setActiveChatId(chat.id); setSidebarOpen(false); }}
+                {groupChatsByJob(chats).map(group => (
+                  <div key={group.label || ''}>
+                    {group.label && (
+                      <div className="px-3 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 truncate">{group.label}</div>
+                    )}
+                    {group.chats.map((chat) => (
+                      <div
+                        key={chat.id}
+                        className={`relative group/chat w-full px-3 py-3 border border-transparent hover:border-blue-200 hover:bg-blue-50/50 transition-all duration-200 rounded-xl mb-2 ${
+                          chat.id === activeChatId ? 'bg-blue-100/70 border-blue-200 shadow-sm' : ''
+                        }`}
                       >
-                        {editingChatId === chat.id ? (
-                          <input
-                            type="text"
-                            value={editingTitle}
-                            onChange={(e) => setEditingTitle(e.target.value)}
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') {
-                                handleRenameChat(chat.id, editingTitle);
-                              } else if (e.key === 'Escape') {
-                                setEditingChatId(null);
-                                setEditingTitle('');
-                              }
-                            }}
-                            onBlur={() => {
-                              if (editingTitle.trim()) {
-                                handleRenameChat(chat.id, editingTitle);
-                              } else {
-                                setEditingChatId(null);
-                                setEditingTitle('');
-                              }
-                            }}
-                            className="font-medium text-gray-900 text-sm bg-transparent border-none outline-none focus:ring-0"
-                            autoFocus
-                          />
-                        ) : (
-                          <span className="font-medium text-gray-900 truncate text-sm">{chat.title}</span>
-                        )}
-                        <span className="text-xs text-gray-400 mt-1">{formatDate(chat.updated)}</span>
-                      </button>
+                        {/* Chat content */}
+                        <div className="flex items-center justify-between">
+                          <button
+                            className="flex-1 text-left flex flex-col"
+                            onClick={() => { setActiveChatId(chat.id); setSidebarOpen(false); }}
+                          >
+                            {editingChatId === chat.id ? (
+                              <input
+                                type="text"
+                                value={editingTitle}
+                                onChange={(e) => setEditingTitle(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') {
+                                    handleRenameChat(chat.id, editingTitle);
+                                  } else if (e.key === 'Escape') {
+                                    setEditingChatId(null);
+                                    setEditingTitle('');
+                                  }
+                                }}
+                                onBlur={() => {
+                                  if (editingTitle.trim()) {
+                                    handleRenameChat(chat.id, editingTitle);
+                                  } else {
+                                    setEditingChatId(null);
+                                    setEditingTitle('');
+                                  }
+                                }}
+                                className="font-medium text-gray-900 text-sm bg-transparent border-none outline-none focus:ring-0"
+                                autoFocus
+                              />
+                            ) : (
+                              <span className="font-medium text-gray-900 truncate text-sm">{chat.title}</span>
+                            )}
+                            <span className="text-xs text-gray-400 mt-1">{formatDate(chat.updated)}</span>
+                          </button>
                       
-                      {/* Three dots button for individual chat actions */}
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setDropdownOpen(dropdownOpen === chat.id ? null : chat.id);
-                        }}
-                        className="opacity-0 group-hover/chat:opacity-100 transition-opacity duration-200 p-1 hover:bg-gray-200 rounded-full"
-                      >
-                        <svg className="w-4 h-4 text-gray-500" fill="currentColor" viewBox="0 0 20 20">
-                          <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
-                        </svg>
-                      </button>
-                    </div>
+                          {/* Three dots button for individual chat actions */}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setDropdownOpen(dropdownOpen === chat.id ? null : chat.id);
+                            }}
+                            className="opacity-0 group-hover/chat:opacity-100 transition-opacity duration-200 p-1 hover:bg-gray-200 rounded-full"
+                          >
+                            <svg className="w-4 h-4 text-gray-500" fill="currentColor" viewBox="0 0 20 20">
+                              <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
+                            </svg>
+                          </button>
+                        </div>
 
-                    {/* Individual chat dropdown menu */}
-                    {dropdownOpen === chat.id && (
-                      <div data-dropdown className="absolute right-0 top-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-50 min-w-[120px]">
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setEditingChatId(chat.id);
-                            setEditingTitle(chat.title);
-                            setDropdownOpen(null);
-                          }}
-                          className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
-                        >
-                          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0115.75 21H5.25A2.25 2.25 0 013 18.75V8.25A2.25 2.25 0 015.25 6H10" />
-                          </svg>
-                          Rename
-                        </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            if (confirm('Are you sure you want to delete this chat? This action cannot be undone.')) {
-                              handleDeleteChat(chat.id);
-                            }
-                          }}
-                          className="w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"
-                        >
-                          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
-                          </svg>
-                          Delete
-                        </button>
+                        {/* Individual chat dropdown menu */}
+                        {dropdownOpen === chat.id && (
+                          <div data-dropdown className="absolute right-0 top-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-50 min-w-[120px]">
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setEditingChatId(chat.id);
+                                setEditingTitle(chat.title);
+                                setDropdownOpen(null);
+                              }}
+                              className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                            >
+                              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0115.75 21H5.25A2.25 2.25 0 013 18.75V8.25A2.25 2.25 0 015.25 6H10" />
+                              </svg>
+                              Rename
+                            </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                if (confirm('Are you sure you want to delete this chat? This action cannot be undone.')) {
+                                  handleDeleteChat(chat.id);
+                                }
+                              }}
+                              className="w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"
+                            >
+                              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+                              </svg>
+                              Delete
+                            </button>
+                          </div>
+                        )}
                       </div>
-                    )}
+                    ))}
                   </div>
                 ))}
               </div>
+              <UpcomingBids userId={user?.id} />
+              <div className="px-4 py-2 border-t border-gray-200 text-sm flex gap-4">
+                <Link href="/projects" className="text-blue-700 hover:underline">Projects</Link>
+                <Link href="/doors" className="text-blue-700 hover:underline">Door check</Link>
+              </div>
               <div className="p-4 border-t border-gray-200 text-xs text-gray-400">
                 {new Date().getFullYear()} First Glass of Arkansas
                 <br />
@@ -1568,99 +2350,111 @@ export default function Home() {
                     </button>
                   </div>
                   <div className="p-2">
-                    {chats.map((chat) => (
-                      <div
-                        key={chat.id}
-                        className={`relative group/chat w-full px-3 py-3 border border-transparent hover:border-blue-200 hover:bg-blue-50/50 transition-all duration-200 rounded-xl mb-2 ${
-                          chat.id === activeChatId ? 'bg-blue-100/70 border-blue-200 shadow-sm' : ''
-                        }`}
-                      >
-                        {/* Chat content */}
-                        <div className="flex items-center justify-between">
-                          <button
-                            className="flex-1 text-left flex flex-col"
-                            onClick={() => { setActiveChatId(chat.id); setSidebarOpen(false); }}
+                    {groupChatsByJob(chats).map(group => (
+                      <div key={group.label || ''}>
+                        {group.label && (
+                          <div className="px-3 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 truncate">{group.label}</div>
+                        )}
+                        {group.chats.map((chat) => (
+                          <div
+                            key={chat.id}
+                            className={`relative group/chat w-full px-3 py-3 border border-transparent hover:border-blue-200 hover:bg-blue-50/50 transition-all duration-200 rounded-xl mb-2 ${
+                              chat.id === activeChatId ? 'bg-blue-100/70 border-blue-200 shadow-sm' : ''
+                            }`}
                           >
-                            {editingChatId === chat.id ? (
-                              <input
-                                type="text"
-                                value={editingTitle}
-                                onChange={(e) => setEditingTitle(e.target.value)}
-                                onKeyDown={(e) => {
-                                  if (e.key === 'Enter') {
-                                    handleRenameChat(chat.id, editingTitle);
-                                  } else if (e.key === 'Escape') {
-                                    setEditingChatId(null);
-                                    setEditingTitle('');
-                                  }
-                                }}
-                                onBlur={() => {
-                                  if (editingTitle.trim()) {
-                                    handleRenameChat(chat.id, editingTitle);
-                                  } else {
-                                    setEditingChatId(null);
-                                    setEditingTitle('');
-                                  }
+                            {/* Chat content */}
+                            <div className="flex items-center justify-between">
+                              <button
+                                className="flex-1 text-left flex flex-col"
+                                onClick={() => { setActiveChatId(chat.id); setSidebarOpen(false); }}
+                              >
+                                {editingChatId === chat.id ? (
+                                  <input
+                                    type="text"
+                                    value={editingTitle}
+                                    onChange={(e) => setEditingTitle(e.target.value)}
+                                    onKeyDown={(e) => {
+                                      if (e.key === 'Enter') {
+                                        handleRenameChat(chat.id, editingTitle);
+                                      } else if (e.key === 'Escape') {
+                                        setEditingChatId(null);
+                                        setEditingTitle('');
+                                      }
+                                    }}
+                                    onBlur={() => {
+                                      if (editingTitle.trim()) {
+                                        handleRenameChat(chat.id, editingTitle);
+                                      } else {
+                                        setEditingChatId(null);
+                                        setEditingTitle('');
+                                      }
+                                    }}
+                                    className="font-medium text-gray-900 text-sm bg-transparent border-none outline-none focus:ring-0"
+                                    autoFocus
+                                  />
+                                ) : (
+                                  <span className="font-medium text-gray-900 truncate text-sm">{chat.title}</span>
+                                )}
+                                <span className="text-xs text-gray-400 mt-1">{formatDate(chat.updated)}</span>
+                              </button>
+                          
+                              {/* Three dots button for individual chat actions */}
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setDropdownOpen(dropdownOpen === chat.id ? null : chat.id);
                                 }}
-                                className="font-medium text-gray-900 text-sm bg-transparent border-none outline-none focus:ring-0"
-                                autoFocus
-                              />
-                            ) : (
-                              <span className="font-medium text-gray-900 truncate text-sm">{chat.title}</span>
+                                className="opacity-0 group-hover/chat:opacity-100 transition-opacity duration-200 p-1 hover:bg-gray-200 rounded-full"
+                              >
+                                <svg className="w-4 h-4 text-gray-500" fill="currentColor" viewBox="0 0 20 20">
+                                  <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
+                                </svg>
+                              </button>
+                            </div>
+
+                            {/* Individual chat dropdown menu */}
+                            {dropdownOpen === chat.id && (
+                              <div data-dropdown className="absolute right-0 top-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-50 min-w-[120px]">
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setEditingChatId(chat.id);
+                                    setEditingTitle(chat.title);
+                                    setDropdownOpen(null);
+                                  }}
+                                  className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                                >
+                                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0115.75 21H5.25A2.25 2.25 0 013 18.75V8.25A2.25 2.25 0 015.25 6H10" />
+                                  </svg>
+                                  Rename
+                                </button>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    if (confirm('Are you sure you want to delete this chat? This action cannot be undone.')) {
+                                      handleDeleteChat(chat.id);
+                                    }
+                                  }}
+                                  className="w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"
+                                >
+                                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+                                  </svg>
+                                  Delete
+                                </button>
+                              </div>
                             )}
-                            <span className="text-xs text-gray-400 mt-1">{formatDate(chat.updated)}</span>
-                          </button>
-                          
-                          {/* Three dots button for individual chat actions */}
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setDropdownOpen(dropdownOpen === chat.id ? null : chat.id);
-                            }}
-                            className="opacity-0 group-hover/chat:opacity-100 transition-opacity duration-200 p-1 hover:bg-gray-200 rounded-full"
-                          >
-                            <svg className="w-4 h-4 text-gray-500" fill="currentColor" viewBox="0 0 20 20">
-                              <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
-                            </svg>
-                          </button>
-                        </div>
-
-                        {/* Individual chat dropdown menu */}
-                        {dropdownOpen === chat.id && (
-                          <div data-dropdown className="absolute right-0 top-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-50 min-w-[120px]">
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                setEditingChatId(chat.id);
-                                setEditingTitle(chat.title);
-                                setDropdownOpen(null);
-                              }}
-                              className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
-                            >
-                              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
-                                <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L10.582 16.07a4.5 4.5 0 01-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 011.13-1.897l8.932-8.931zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0115.75 21H5.25A2.25 2.25 0 013 18.75V8.25A2.25 2.25 0 015.25 6H10" />
-                              </svg>
-                              Rename
-                            </button>
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                if (confirm('Are you sure you want to delete this chat? This action cannot be undone.')) {
-                                  handleDeleteChat(chat.id);
-                                }
-                              }}
-                              className="w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"
-                            >
-                              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
-                                <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
-                              </svg>
-                              Delete
-                            </button>
                           </div>
-                        )}
+                        ))}
                       </div>
                     ))}
                   </div>
+                  <UpcomingBids userId={user?.id} />
+                  <div className="px-4 py-2 border-t border-gray-200 text-sm flex gap-4">
+                    <Link href="/projects" className="text-blue-700 hover:underline">Projects</Link>
+                    <Link href="/doors" className="text-blue-700 hover:underline">Door check</Link>
+                  </div>
                   <div className="p-4 border-t border-gray-200 text-xs text-gray-400">
                     {new Date().getFullYear()} First Glass of Arkansas
                     <br />
@@ -1713,6 +2507,15 @@ export default function Home() {
             </div>
           </div>
 
+          {user && activeChat && (
+            <JobContextPanel
+              key={activeChat.id}
+              jobContext={activeChat.jobContext}
+              disabled={loading}
+              onSave={handleSaveJobContext}
+            />
+          )}
+
           {/* Chat Messages Area */}
           <div className="flex-1 overflow-y-auto px-6 py-4">
             <div className="max-w-4xl mx-auto space-y-4">
@@ -1733,6 +2536,8 @@ export default function Home() {
                         ? "bg-blue-600 text-white"
                         : msg.isError
                         ? "bg-red-50 border border-red-200 text-red-800"
+                        : msg.rateLimited
+                        ? "bg-amber-50 border border-amber-200 text-amber-900"
                         : "bg-white border border-blue-100 text-gray-800"
                     }`}
                   >
@@ -1748,12 +2553,21 @@ export default function Home() {
                     <div className="whitespace-pre-wrap">
                       {msg.sender === "bot" ? (
                         <div className="prose prose-sm max-w-none">
-                          {msg.text ? processTextWithCitations(msg.text) : <TypingDots />}
+                          {msg.toolResults?.map(toolResult => (
+                            <ToolResultCard key={toolResult.toolCallId} toolResult={toolResult} />
+                          ))}
+                          {msg.text ? <MessageContent text={msg.text} citations={msg.citations} /> : !msg.interrupted && <TypingDots />}
                         </div>
                       ) : (
                         msg.text
                       )}
                     </div>
+                    {msg.interrupted && (
+                      <p className="mt-2 text-xs italic text-gray-400">Response stopped</p>
+                    )}
+                    {loading && msg.sender === "bot" && idx === currentMessages.length - 1 && runStatus && RUN_STATUS_LABELS[runStatus] && (
+                      <p className="mt-2 text-xs text-blue-500">{RUN_STATUS_LABELS[runStatus]}</p>
+                    )}
                     {msg.sender === "bot" && (
                       <MessageActions
                         message={msg}
@@ -1805,13 +2619,25 @@ export default function Home() {
                     </svg>
                   </label>
                 </div>
-                <button
-                  type="submit"
-                  disabled={!input.trim() || loading || !user}
-                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-2xl px-6 py-3 font-medium transition-all duration-200 shadow-sm hover:shadow-md disabled:shadow-none"
-                >
-                  {loading ? <Spinner /> : "Send"}
-                </button>
+                {loading ? (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    className="flex items-center gap-2 bg-red-50 hover:bg-red-100 text-red-600 hover:text-red-700 rounded-2xl px-6 py-3 font-medium transition-all duration-200 border border-red-200 hover:border-red-300"
+                    title="Stop generating"
+                  >
+                    <Spinner />
+                    Stop
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!input.trim() || !user}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-2xl px-6 py-3 font-medium transition-all duration-200 shadow-sm hover:shadow-md disabled:shadow-none"
+                  >
+                    Send
+                  </button>
+                )}
               </form>
               <p className="text-xs text-gray-500 mt-2 text-center">
                 By chatting, you agree to AI Terms of Use.
@@ -0,0 +1,56 @@
+'use client'
+import { useEffect, useState } from "react";
+import Link from 'next/link';
+import { supabase } from '../supabaseClient';
+import { companyToday, formatBidDateLong } from '@/lib/projects/dates';
+import type { Project } from '@/lib/projects/store';
+
+const SIDEBAR_LIMIT = 5;
+
+// Next pending bids, shown in the sidebar under the chat list
+export default function UpcomingBids({ userId }: { userId?: string }) {
+  const [projects, setProjects] = useState<Project[]>([]);
+
+  useEffect(() => {
+    if (!userId) return;
+    supabase
+      .from('projects')
+      .select('*')
+      .eq('status', 'pending')
+      .gte('bid_date', companyToday())
+      .order('bid_date', { ascending: true })
+      .limit(SIDEBAR_LIMIT)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading upcoming bids:', error);
+          return;
+        }
+        setProjects(data || []);
+      });
+  }, [userId]);
+
+  if (!userId) return null;
+
+  return (
+    <div className="px-4 py-3 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-bold text-gray-900 text-sm">Upcoming bids</span>
+        <Link href="/projects" className="text-xs text-blue-700 hover:underline">All projects</Link>
+      </div>
+      {projects.length === 0 ? (
+        <p className="text-xs text-gray-400">No bids coming up</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {projects.map(project => (
+            <li key={project.id} className="text-sm">
+              <span className="font-medium text-gray-900">{project.name}</span>
+              <span className="block text-xs text-gray-400">
+                {formatBidDateLong(project.bid_date!)}{project.gc_name ? ` · ${project.gc_name}` : ''}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
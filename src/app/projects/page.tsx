@@ -0,0 +1,196 @@
+'use client'
+import { useState, useEffect, useCallback } from "react";
+import Link from 'next/link';
+import { supabase } from '../supabaseClient';
+import { companyToday, formatBidDateLong } from '@/lib/projects/dates';
+import { PROJECT_STATUSES, type Project, type ProjectStatus } from '@/lib/projects/store';
+
+type ProjectView = 'upcoming' | 'all' | ProjectStatus;
+
+const VIEWS: Array<[ProjectView, string]> = [
+  ['upcoming', 'Upcoming bids'],
+  ['all', 'All'],
+  ['pending', 'Pending'],
+  ['won', 'Won'],
+  ['lost', 'Lost'],
+];
+
+const STATUS_STYLES: Record<ProjectStatus, string> = {
+  pending: 'bg-amber-50 text-amber-800 border-amber-200',
+  won: 'bg-green-50 text-green-800 border-green-200',
+  lost: 'bg-gray-100 text-gray-600 border-gray-200',
+};
+
+// Authorization header for the API routes
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+export default function ProjectsPage() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [view, setView] = useState<ProjectView>('upcoming');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const loadProjects = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Sign in to see projects');
+
+      let query = supabase.from('projects').select('*');
+      if (view === 'upcoming') {
+        query = query.eq('status', 'pending').gte('bid_date', companyToday());
+      } else if (view !== 'all') {
+        query = query.eq('status', view);
+      }
+      const { data, error } = await query
+        .order('bid_date', { ascending: view === 'upcoming', nullsFirst: false })
+        .order('name', { ascending: true });
+      if (error) throw error;
+
+      setProjects(data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load projects');
+    } finally {
+      setLoading(false);
+    }
+  }, [view]);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  async function handleStatusChange(project: Project, status: ProjectStatus) {
+    setError(null);
+    const { error } = await supabase.from('projects').update({ status }).eq('id', project.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    await loadProjects();
+  }
+
+  async function handleSubscribe() {
+    setError(null);
+    try {
+      const response = await fetch('/api/projects/calendar-feed', { headers: await getAuthHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to get calendar feed');
+      }
+      setFeedUrl(data.url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to get calendar feed');
+    }
+  }
+
+  async function copyFeedUrl() {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy feed URL:', err);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-6 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">Projects</h1>
+            <p className="text-sm text-gray-500">Bid list shared by the office. Ask the assistant to add projects, change bid dates or mark jobs won or lost.</p>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">Back to chat</Link>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-2xl shadow-sm p-5 mb-6 text-sm">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="flex-1 text-gray-700">Bid calendar: subscribe in Outlook or Google Calendar to see every bid date.</span>
+            {!feedUrl && (
+              <button
+                onClick={handleSubscribe}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors"
+              >
+                Get calendar link
+              </button>
+            )}
+          </div>
+          {feedUrl && (
+            <div className="mt-3 flex items-center gap-2">
+              <input readOnly value={feedUrl} onFocus={e => e.target.select()} className="flex-1 px-2 py-1.5 border border-gray-200 rounded-md text-xs text-gray-700 bg-gray-50" />
+              <button onClick={copyFeedUrl} className="text-xs px-3 py-1.5 rounded-lg border border-blue-200 text-blue-700 hover:bg-blue-50 transition-colors">
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          )}
+          {feedUrl && <p className="mt-2 text-xs text-gray-400">The link is personal; anyone with it can see the bid list.</p>}
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {VIEWS.map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => { setLoading(true); setView(value); }}
+              className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                view === value ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-200 hover:bg-blue-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {error && <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">{error}</div>}
+
+        <div className="bg-white border border-gray-200 rounded-2xl shadow-sm overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs uppercase text-gray-500">
+              <tr>
+                <th className="px-4 py-3">Project</th>
+                <th className="px-4 py-3">Bid date</th>
+                <th className="px-4 py-3">GC</th>
+                <th className="px-4 py-3">Estimator</th>
+                <th className="px-4 py-3">PM</th>
+                <th className="px-4 py-3">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {loading ? (
+                <tr><td colSpan={6} className="px-4 py-6 text-center text-gray-400">Loading…</td></tr>
+              ) : projects.length === 0 ? (
+                <tr><td colSpan={6} className="px-4 py-6 text-center text-gray-400">No projects</td></tr>
+              ) : projects.map(project => (
+                <tr key={project.id} className="text-gray-800 align-top">
+                  <td className="px-4 py-3">
+                    <span className="font-medium">{project.name}</span>
+                    {project.scope && <div className="text-xs text-gray-400">{project.scope}</div>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">{project.bid_date ? formatBidDateLong(project.bid_date) : '—'}</td>
+                  <td className="px-4 py-3">{project.gc_name}</td>
+                  <td className="px-4 py-3">{project.estimator}</td>
+                  <td className="px-4 py-3">{project.project_manager}</td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={project.status}
+                      onChange={e => handleStatusChange(project, e.target.value as ProjectStatus)}
+                      className={`px-2 py-1 border rounded-md text-xs capitalize ${STATUS_STYLES[project.status]}`}
+                    >
+                      {PROJECT_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { authenticate, withAdmin, withAuth } from '@/lib/auth';
+
+type FakeUser = { id: string; email: string; email_confirmed_at: string | null };
+
+const mocks = vi.hoisted(() => ({
+  user: null as FakeUser | null,
+  profile: null as { role: string; status: string } | null,
+  confirmationRequired: true,
+  upsert: vi.fn<(row: object, options?: object) => Promise<{ error: null }>>(async () => ({ error: null })),
+  update: vi.fn<(fields: object) => void>()
+}));
+
+vi.mock('@/lib/supabaseServer', () => ({
+  createSupabaseWithAuth: () => ({
+    auth: {
+      getUser: async (token: string) => token === 'valid-token' && mocks.user
+        ? { data: { user: mocks.user }, error: null }
+        : { data: { user: null }, error: new Error('invalid JWT') }
+    },
+    from: () => ({
+      select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: mocks.profile, error: null }) }) })
+    })
+  }),
+  createSupabaseAdmin: () => ({
+    from: () => ({
+      upsert: mocks.upsert,
+      update: (fields: object) => {
+        mocks.update(fields);
+        return { eq: () => ({ select: () => ({ maybeSingle: async () => ({ data: { ...mocks.profile, ...fields }, error: null }) }) }) };
+      }
+    })
+  }),
+  isEmailConfirmationRequired: async () => mocks.confirmationRequired
+}));
+
+function request(token: string | null = 'valid-token') {
+  return new NextRequest('http://localhost/api/chatbot', { headers: token ? { authorization: `Bearer ${token}` } : {} });
+}
+
+function signIn(user: Partial<FakeUser>, profile: { role: string; status: string } | null) {
+  mocks.user = { id: 'user-1', email: 'sam@firstglassar.com', email_confirmed_at: '2025-08-01T00:00:00Z', ...user };
+  mocks.profile = profile;
+}
+
+beforeEach(() => {
+  mocks.confirmationRequired = true;
+  mocks.upsert.mockClear();
+  mocks.update.mockClear();
+  vi.stubEnv('ALLOWED_EMAIL_DOMAINS', 'firstglassar.com');
+  vi.stubEnv('ADMIN_EMAILS', 'owner@example.com');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('authenticate', () => {
+  it('needs a valid bearer token', async () => {
+    signIn({}, { role: 'employee', status: 'approved' });
+    expect(await authenticate(request(null))).toBeNull();
+    expect(await authenticate(request('forged'))).toBeNull();
+  });
+
+  it('loads the role and approval from the profile', async () => {
+    signIn({}, { role: 'estimator', status: 'approved' });
+    expect(await authenticate(request())).toMatchObject({ user: { id: 'user-1' }, role: 'estimator', status: 'approved', approved: true });
+    expect(mocks.upsert).not.toHaveBeenCalled();
+  });
+
+  it('approves a confirmed company address and saves it', async () => {
+    signIn({}, { role: 'employee', status: 'pending' });
+    expect(await authenticate(request())).toMatchObject({ status: 'approved', approved: true });
+    expect(mocks.upsert).toHaveBeenCalledWith({ id: 'user-1', email: 'sam@firstglassar.com', status: 'approved' }, { onConflict: 'id' });
+  });
+
+  it('leaves other addresses, unconfirmed ones and revoked accounts alone', async () => {
+    signIn({ email: 'sub@example.com' }, { role: 'employee', status: 'pending' });
+    expect(await authenticate(request())).toMatchObject({ status: 'pending', approved: false });
+
+    signIn({ email_confirmed_at: null }, { role: 'employee', status: 'pending' });
+    expect(await authenticate(request())).toMatchObject({ status: 'pending', approved: false });
+
+    signIn({}, { role: 'employee', status: 'revoked' });
+    expect(await authenticate(request())).toMatchObject({ status: 'revoked', approved: false });
+
+    expect(mocks.upsert).not.toHaveBeenCalled();
+  });
+
+  it('approves no one by domain while Supabase does not require email confirmation', async () => {
+    mocks.confirmationRequired = false;
+    signIn({}, { role: 'employee', status: 'pending' });
+
+    expect(await authenticate(request())).toMatchObject({ status: 'pending', approved: false });
+    expect(mocks.upsert).not.toHaveBeenCalled();
+  });
+
+  it('treats ADMIN_EMAILS as admins and approves them', async () => {
+    signIn({ email: 'Owner@example.com' }, null);
+    expect(await authenticate(request())).toMatchObject({ role: 'admin', status: 'approved', approved: true });
+  });
+
+  it('saves the admin role of approved ADMIN_EMAILS users for RLS', async () => {
+    signIn({ email: 'owner@example.com' }, { role: 'employee', status: 'approved' });
+    expect(await authenticate(request())).toMatchObject({ role: 'admin' });
+    expect(mocks.update).toHaveBeenCalledWith({ role: 'admin' });
+
+    mocks.update.mockClear();
+    signIn({ email: 'owner@example.com' }, { role: 'admin', status: 'approved' });
+    await authenticate(request());
+    signIn({ email: 'owner@example.com', email_confirmed_at: null }, { role: 'employee', status: 'pending' });
+    expect(await authenticate(request())).toMatchObject({ role: 'admin', approved: false });
+    expect(mocks.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('withAuth and withAdmin', () => {
+  const handler = vi.fn(async () => new Response('ok'));
+
+  it('answers 401 without a session and 403 until approved', async () => {
+    signIn({ email: 'sub@example.com' }, { role: 'employee', status: 'pending' });
+
+    expect((await withAuth(handler)(request(null), undefined)).status).toBe(401);
+    const pending = await withAuth(handler)(request(), undefined);
+    expect(pending.status).toBe(403);
+    expect(await pending.json()).toEqual({ error: 'Your account is waiting for approval' });
+
+    signIn({ email: 'sub@example.com' }, { role: 'employee', status: 'revoked' });
+    expect((await withAuth(handler)(request(), undefined)).status).toBe(403);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('lets only approved admins through withAdmin', async () => {
+    signIn({}, { role: 'estimator', status: 'approved' });
+    const refused = await withAdmin(handler)(request(), undefined);
+    expect(refused.status).toBe(403);
+    expect(await refused.json()).toEqual({ error: 'Admin access required' });
+
+    signIn({}, { role: 'admin', status: 'revoked' });
+    expect((await withAdmin(handler)(request(), undefined)).status).toBe(403);
+    expect(handler).not.toHaveBeenCalled();
+
+    signIn({}, { role: 'admin', status: 'approved' });
+    expect(await (await withAdmin(handler)(request(), undefined)).text()).toBe('ok');
+    expect(handler).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ role: 'admin', supabaseAdmin: expect.anything() }), undefined);
+  });
+});
@@ -0,0 +1,137 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { createSupabaseAdmin, createSupabaseWithAuth, isEmailConfirmationRequired } from '@/lib/supabaseServer';
+import { approveProfile, getProfileAccess, isAllowedEmailDomain, updateProfile, type ProfileStatus, type Role } from '@/lib/profiles';
+
+// Access token from an `Authorization: Bearer <token>` header
+export function getBearerToken(req: NextRequest) {
+  const header = req.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// Users listed by email in ADMIN_EMAILS (comma-separated) are always admins,
+// whatever their profile says, so the first admin can hand out roles
+function isListedAdmin(user: User) {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  return !!user.email && adminEmails.includes(user.email.toLowerCase());
+}
+
+export type AuthContext = {
+  user: User;
+  accessToken: string;
+  supabase: SupabaseClient; // Acts as the user, so RLS applies
+  role: Role;
+  status: ProfileStatus;
+  approved: boolean; // withAuth refuses accounts that are pending or revoked
+};
+
+// What withAdmin hands its handler: the caller plus the service-role client,
+// which bypasses RLS for admin-only tables
+export type AdminContext = AuthContext & {
+  supabaseAdmin: SupabaseClient;
+};
+
+export function isAdmin(auth: AuthContext) {
+  return auth.approved && auth.role === 'admin';
+}
+
+// Confirmed company addresses and listed admins need no approval. It is saved
+// to the profile so RLS policies, which cannot read the environment, see it too.
+// Addresses only count as confirmed while Supabase Auth requires confirmation.
+async function approveWithoutInvite(user: User) {
+  if (!user.email_confirmed_at || !(isListedAdmin(user) || isAllowedEmailDomain(user.email))) return false;
+  if (!await isEmailConfirmationRequired()) return false;
+
+  const supabaseAdmin = createSupabaseAdmin();
+  if (!supabaseAdmin) {
+    console.error('SUPABASE_SERVICE_ROLE_KEY is needed to save approvals; shared tables stay hidden from this user');
+    return true;
+  }
+  await approveProfile(supabaseAdmin, user).catch(() => {});
+  return true;
+}
+
+// Listed admins get the role saved to their profile as well, so RLS policies,
+// which check the profile, agree with the role the routes use
+async function saveListedAdminRole(user: User) {
+  const supabaseAdmin = createSupabaseAdmin();
+  if (!supabaseAdmin) {
+    console.error('SUPABASE_SERVICE_ROLE_KEY is needed to save the admin role; RLS still sees the profile role');
+    return;
+  }
+  await updateProfile(supabaseAdmin, user.id, { role: 'admin' }).catch(() => {});
+}
+
+// Verifies the Supabase JWT with Supabase Auth; null when missing, expired or revoked
+export async function authenticate(req: NextRequest): Promise<AuthContext | null> {
+  const accessToken = getBearerToken(req);
+  if (!accessToken) return null;
+
+  const supabase = createSupabaseWithAuth(accessToken);
+  const { data, error } = await supabase.auth.getUser(accessToken);
+  if (error || !data.user) return null;
+
+  const profile = await getProfileAccess(supabase, data.user.id);
+  const status = profile.status === 'pending' && await approveWithoutInvite(data.user) ? 'approved' : profile.status;
+  const listedAdmin = isListedAdmin(data.user);
+  if (listedAdmin && status === 'approved' && profile.role !== 'admin') {
+    await saveListedAdminRole(data.user);
+  }
+  const role = listedAdmin ? 'admin' : profile.role;
+  return { user: data.user, accessToken, supabase, role, status, approved: status === 'approved' };
+}
+
+// Consistent JSON errors for requests that are not signed in (401) or not allowed (403)
+export function unauthorized(error = 'Not signed in') {
+  return NextResponse.json({ error }, { status: 401 });
+}
+
+export function forbidden(error = 'Not allowed') {
+  return NextResponse.json({ error }, { status: 403 });
+}
+
+// 403 when a request body names a different user than the token, for
+// clients that still send their user id
+export function rejectOtherUser(auth: AuthContext, userId: unknown) {
+  if (userId === undefined || userId === null || userId === auth.user.id) return null;
+  return forbidden('userId does not match the signed-in user');
+}
+
+export function pendingApproval() {
+  return forbidden('Your account is waiting for approval');
+}
+
+// Wraps a route handler so it only runs for signed-in, approved users. The
+// user id comes from the verified token; ids in the request body are never trusted.
+export function withAuth<Context = unknown>(
+  handler: (req: NextRequest, auth: AuthContext, context: Context) => Promise<Response>
+) {
+  return async (req: NextRequest, context: Context): Promise<Response> => {
+    const auth = await authenticate(req);
+    if (!auth) return unauthorized();
+    if (!auth.approved) return pendingApproval();
+    return handler(req, auth, context);
+  };
+}
+
+// Wraps an admin route handler so it only runs for approved admins, with the
+// service-role client ready (500 when SUPABASE_SERVICE_ROLE_KEY is not set).
+export function withAdmin<Context = unknown>(
+  handler: (req: NextRequest, auth: AdminContext, context: Context) => Promise<Response>
+) {
+  return async (req: NextRequest, context: Context): Promise<Response> => {
+    const auth = await authenticate(req);
+    if (!auth) return unauthorized();
+    if (!isAdmin(auth)) return forbidden('Admin access required');
+
+    const supabaseAdmin = createSupabaseAdmin();
+    if (!supabaseAdmin) {
+      return NextResponse.json({ error: 'Supabase service role configuration missing' }, { status: 500 });
+    }
+    return handler(req, { ...auth, supabaseAdmin }, context);
+  };
+}
@@ -0,0 +1,67 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider } from '@/lib/llm';
+
+// Provider threads behind chats. Clients only ever send chat ids; the thread
+// id is looked up in the `chats` table with the caller's Supabase client, so
+// RLS decides whose threads a request can reach. Clients cannot write
+// `chats.thread_id` (see supabase-schema.sql), so a chat can only point at a
+// thread the server started for it, and the app only reads `has_thread`.
+
+export type ChatThread = {
+  chatId: string;
+  threadId: string | null; // Null until the first message
+};
+
+// The chat's thread, null when the chat does not exist or is not the caller's
+export async function getChatThread(supabase: SupabaseClient, chatId: string): Promise<ChatThread | null> {
+  const { data, error } = await supabase
+    .from('chats')
+    .select('id, thread_id')
+    .eq('id', chatId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error loading chat thread:', error);
+    throw error;
+  }
+
+  return data ? { chatId: data.id, threadId: data.thread_id } : null;
+}
+
+// The chat's thread id, creating the thread on the chat's first message.
+// Null when the chat does not exist or is not the caller's. The chat is
+// looked up with the caller's client; the new thread id is written with the
+// service-role client, since only the server may set it.
+export async function ensureChatThread(
+  supabase: SupabaseClient,
+  supabaseAdmin: SupabaseClient,
+  llm: LLMProvider,
+  chatId: string
+): Promise<string | null> {
+  const chat = await getChatThread(supabase, chatId);
+  if (!chat) return null;
+  if (chat.threadId) return chat.threadId;
+
+  const threadId = await llm.createThread();
+  const { data, error } = await supabaseAdmin
+    .from('chats')
+    .update({ thread_id: threadId })
+    .eq('id', chatId)
+    .is('thread_id', null)
+    .select('thread_id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error saving chat thread:', error);
+    await llm.deleteThread(threadId).catch(() => {});
+    throw error;
+  }
+
+  // Another request started the thread first; use theirs
+  if (!data) {
+    await llm.deleteThread(threadId).catch(() => {});
+    return (await getChatThread(supabase, chatId))?.threadId ?? null;
+  }
+
+  return threadId;
+}
@@ -0,0 +1,133 @@
+import type { Annotation, LLMProvider } from '@/lib/llm';
+import type { StoredToolCall } from '@/lib/messageStore';
+
+// Sources behind an assistant answer. File citations come from provider
+// annotations; web citations from pages the assistant read or linked with the
+// web tools. Each citation is shown as a numbered footnote, referenced in the
+// text as [n].
+
+export type Citation = {
+  index: number; // Footnote number
+  type: 'file' | 'web';
+  title: string;
+  quote?: string;
+  page?: number;
+  url?: string;
+  fileId?: string;
+};
+
+// Raw citation markers left in the text without an annotation
+const MARKER_PATTERN = /【[^】]*】/g;
+
+// Extracted PDF text is labelled per page, e.g. "[Page 3]"
+function findPage(quote?: string) {
+  const match = quote?.match(/\[Page (\d+)\]/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function parseOutput(toolCall: StoredToolCall): Record<string, unknown> | null {
+  try {
+    const output = JSON.parse(toolCall.output || 'null');
+    return output && typeof output === 'object' && !('error' in output) ? output : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createCitationTracker(llm: LLMProvider) {
+  const citations: Citation[] = [];
+  const fileNames = new Map<string, Promise<string>>();
+
+  function resolveFileName(fileId: string) {
+    let name = fileNames.get(fileId);
+    if (!name) {
+      name = llm.getFileName(fileId)
+        .catch(() => null)
+        .then(fileName => fileName || 'Document');
+      fileNames.set(fileId, name);
+    }
+    return name;
+  }
+
+  async function addFileCitation(annotation: Annotation) {
+    // One footnote per document and passage
+    const existing = citations.find(citation =>
+      citation.fileId === annotation.fileId && citation.quote === annotation.quote
+    );
+    if (existing) return { citation: existing, added: false };
+
+    const citation: Citation = {
+      index: citations.length + 1,
+      type: 'file',
+      title: await resolveFileName(annotation.fileId),
+      quote: annotation.quote,
+      page: findPage(annotation.quote),
+      fileId: annotation.fileId
+    };
+    citations.push(citation);
+    return { citation, added: true };
+  }
+
+  function addWebCitation(url: string, title: string) {
+    if (citations.some(citation => citation.url === url)) return false;
+    citations.push({ index: citations.length + 1, type: 'web', title: title || url, url });
+    return true;
+  }
+
+  return {
+    // Replace annotation markers with footnote references. `added` is true when
+    // the text cited a source that was not in the list yet.
+    async addAnnotations(text: string, annotations: Annotation[] = []) {
+      let added = false;
+
+      for (const annotation of annotations) {
+        const result = await addFileCitation(annotation);
+        added ||= result.added;
+
+        // Generated files are linked from markdown, so point the link at the footnote
+        const replacement = annotation.type === 'file_path'
+          ? `#citation-${result.citation.index}`
+          : `[${result.citation.index}]`;
+        text = text.split(annotation.text).join(replacement);
+      }
+
+      return { text: text.replace(MARKER_PATTERN, ''), added };
+    },
+
+    // Pages read with fetch_url, and search results the answer links to.
+    // Returns true when new citations were added.
+    addWebSources(toolCalls: StoredToolCall[], answerText: string) {
+      let added = false;
+
+      for (const toolCall of toolCalls) {
+        const output = parseOutput(toolCall);
+        if (!output) continue;
+
+        if (toolCall.name === 'fetch_url' && typeof output.url === 'string') {
+          added = addWebCitation(output.url, typeof output.title === 'string' ? output.title : '') || added;
+        }
+
+        if (toolCall.name === 'web_search' && Array.isArray(output.results)) {
+          for (const result of output.results as Array<{ url?: string; title?: string }>) {
+            if (result.url && answerText.includes(result.url)) {
+              added = addWebCitation(result.url, result.title || '') || added;
+            }
+          }
+        }
+      }
+
+      return added;
+    },
+
+    list() {
+      return [...citations];
+    }
+  };
+}
+
+// Resolve the annotations of a finished message in one go
+export async function resolveCitations(llm: LLMProvider, text: string, annotations?: Annotation[]) {
+  const tracker = createCitationTracker(llm);
+  const resolved = await tracker.addAnnotations(text, annotations);
+  return { text: resolved.text, citations: tracker.list() };
+}
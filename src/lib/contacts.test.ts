@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { matchContacts, toTelUrl, validateContact, type Contact } from '@/lib/contacts';
+
+function contact(fields: Partial<Contact>): Contact {
+  return {
+    id: fields.name ?? 'contact',
+    name: 'Contact',
+    role: null,
+    company: null,
+    email: null,
+    phone: null,
+    notes: null,
+    restricted: false,
+    created_at: '2025-08-01T00:00:00Z',
+    updated_at: '2025-08-01T00:00:00Z',
+    ...fields
+  };
+}
+
+const DIRECTORY = [
+  contact({ name: 'Tiffin Hubbard', role: 'Owner', company: 'First Glass of Arkansas', email: 'Tiffin@FirstGlassAR.com', restricted: true }),
+  contact({ name: 'Nat Long', role: 'Senior Project Manager', company: 'First Glass of Arkansas', email: 'Nat@FirstGlassAR.com' }),
+  contact({ name: 'Blake Neafus', role: 'Glass rep', company: 'Tristar Glass', email: 'BlakeN@tristarglass.com' })
+];
+
+describe('validateContact', () => {
+  it('trims fields and clears empty ones', () => {
+    expect(validateContact({ name: ' Blake Neafus ', company: 'Tristar Glass', phone: ' ', restricted: true })).toEqual({
+      fields: { name: 'Blake Neafus', role: null, company: 'Tristar Glass', email: null, phone: null, notes: null, restricted: true }
+    });
+  });
+
+  it('rejects missing names, bad emails and wrong types', () => {
+    expect(validateContact(null)).toEqual({ error: 'Contact must be an object' });
+    expect(validateContact({ name: '  ' })).toEqual({ error: 'Name is required' });
+    expect(validateContact({ name: 'Blake', email: 'blake@' })).toEqual({ error: 'blake@ is not a valid email address' });
+    expect(validateContact({ name: 'Blake', phone: 5015550100 })).toEqual({ error: 'phone must be text' });
+    expect(validateContact({ name: 'Blake', restricted: 'yes' })).toEqual({ error: 'restricted must be true or false' });
+  });
+});
+
+describe('matchContacts', () => {
+  it('keeps the contacts matching the most words', () => {
+    expect(matchContacts(DIRECTORY, 'senior PM nat').map(entry => entry.name)).toEqual(['Nat Long']);
+    expect(matchContacts(DIRECTORY, 'first glass').map(entry => entry.name)).toEqual(['Tiffin Hubbard', 'Nat Long']);
+    expect(matchContacts(DIRECTORY, 'tristarglass.com').map(entry => entry.name)).toEqual(['Blake Neafus']);
+  });
+
+  it('returns nothing for no match and everyone for an empty query', () => {
+    expect(matchContacts(DIRECTORY, 'architect')).toEqual([]);
+    expect(matchContacts(DIRECTORY, ' ')).toHaveLength(3);
+  });
+});
+
+describe('toTelUrl', () => {
+  it('keeps digits and a leading plus', () => {
+    expect(toTelUrl('(501) 555-0100')).toBe('tel:5015550100');
+    expect(toTelUrl(' +1 501.555.0100')).toBe('tel:+15015550100');
+  });
+});
@@ -0,0 +1,126 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Company and vendor contacts in the Supabase `contacts` table. Admins keep
+// the directory current; the assistant looks people up here instead of
+// answering from what it was trained on. Restricted contacts, such as the
+// owner, are hidden by RLS from roles outside RESTRICTED_CONTACT_ROLES.
+
+export type Contact = {
+  id: string;
+  name: string;
+  role: string | null; // e.g. Owner, Senior Project Manager, Glass rep
+  company: string | null;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  restricted: boolean; // Only RESTRICTED_CONTACT_ROLES can look it up
+  created_at: string;
+  updated_at: string;
+};
+
+export type ContactFields = Pick<Contact, 'name' | 'role' | 'company' | 'email' | 'phone' | 'notes' | 'restricted'>;
+
+const OPTIONAL_FIELDS = ['role', 'company', 'email', 'phone', 'notes'] as const;
+
+// Trimmed fields from an admin form, or an error message
+export function validateContact(value: unknown): { fields: ContactFields } | { error: string } {
+  if (!value || typeof value !== 'object') return { error: 'Contact must be an object' };
+  const input = value as Record<string, unknown>;
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) return { error: 'Name is required' };
+
+  if (input.restricted !== undefined && typeof input.restricted !== 'boolean') {
+    return { error: 'restricted must be true or false' };
+  }
+
+  const fields: ContactFields = { name, role: null, company: null, email: null, phone: null, notes: null, restricted: input.restricted === true };
+  for (const key of OPTIONAL_FIELDS) {
+    const field = input[key];
+    if (field === undefined || field === null) continue;
+    if (typeof field !== 'string') return { error: `${key} must be text` };
+    fields[key] = field.trim() || null;
+  }
+
+  if (fields.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(fields.email)) {
+    return { error: `${fields.email} is not a valid email address` };
+  }
+  return { fields };
+}
+
+// Contacts matching the most words of the query in their name, role, company
+// or email, e.g. "owner", "Nat", "tristar glass", "senior PM"
+export function matchContacts(contacts: Contact[], query: string) {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return contacts;
+
+  const scored = contacts.map(contact => {
+    const haystack = [contact.name, contact.role, contact.company, contact.email].filter(Boolean).join(' ').toLowerCase();
+    return { contact, score: words.filter(word => haystack.includes(word)).length };
+  });
+  const best = Math.max(...scored.map(entry => entry.score));
+  return best > 0 ? scored.filter(entry => entry.score === best).map(entry => entry.contact) : [];
+}
+
+// Digits for a tel: link, keeping a leading + for international numbers
+export function toTelUrl(phone: string) {
+  return `tel:${phone.trim().startsWith('+') ? '+' : ''}${phone.replace(/\D/g, '')}`;
+}
+
+export async function listContacts(supabase: SupabaseClient): Promise<Contact[]> {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('*')
+    .order('company', { ascending: true, nullsFirst: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Supabase error listing contacts:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+export async function createContact(supabase: SupabaseClient, fields: ContactFields): Promise<Contact> {
+  const { data, error } = await supabase
+    .from('contacts')
+    .insert(fields)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Supabase error creating contact:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+export async function updateContact(supabase: SupabaseClient, id: string, fields: ContactFields): Promise<Contact | null> {
+  const { data, error } = await supabase
+    .from('contacts')
+    .update(fields)
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error updating contact:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+export async function deleteContact(supabase: SupabaseClient, id: string) {
+  const { error } = await supabase
+    .from('contacts')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Supabase error deleting contact:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RATES, calculateBid, type BidInput } from '@/lib/estimating';
+
+const storefrontJob: BidInput = {
+  projectName: 'Baptist Health Entry',
+  materials: [
+    { description: '1" IGU', cost: 1000, category: 'glass' },
+    { description: 'Storefront framing', cost: 500, category: 'metal' }
+  ],
+  laborHours: 10
+};
+
+describe('calculateBid', () => {
+  it('prices materials, breakage, tax, labor and flat fees, then marks up', () => {
+    const bid = calculateBid(storefrontJob, DEFAULT_RATES);
+
+    expect(bid.lineItems.map(item => [item.label, item.amount])).toEqual([
+      ['1" IGU', 1000],
+      ['Storefront framing', 500],
+      ['Glass breakage allowance', 200],
+      ['Sales tax', 156.4],
+      ['Labor', 650],
+      ['Mobilization', 1500],
+      ['Admin', 1500]
+    ]);
+    expect(bid.lineItems[3].basis).toBe('9.2% of $1,700.00 materials');
+    expect(bid).toMatchObject({ projectName: 'Baptist Health Entry', subtotal: 5506.4, markupPercent: 30, markup: 1651.92, total: 7158.32, warnings: [] });
+  });
+
+  it('leaves additional costs untaxed and drops fees that are turned off', () => {
+    const bid = calculateBid({
+      materials: [{ description: 'Hardware', cost: 100, category: 'hardware' }],
+      laborHours: 0,
+      additionalCosts: [{ description: 'Lift rental', cost: 400 }],
+      includeMobilization: false,
+      includeAdmin: false,
+      markupPercent: 35
+    }, DEFAULT_RATES);
+
+    expect(bid.lineItems.map(item => [item.label, item.amount])).toEqual([
+      ['Hardware', 100],
+      ['Sales tax', 9.2],
+      ['Lift rental', 400]
+    ]);
+    expect(bid).toMatchObject({ subtotal: 509.2, markup: 178.22, total: 687.42 });
+  });
+
+  it('warns about tax exempt jobs and markup outside the standard range', () => {
+    const bid = calculateBid({ ...storefrontJob, taxExempt: true, markupPercent: 20 }, DEFAULT_RATES);
+
+    expect(bid.lineItems.some(item => item.label === 'Sales tax')).toBe(false);
+    expect(bid.warnings).toEqual([
+      'Project marked tax exempt: no sales tax included.',
+      'Markup of 20% is outside the standard 30%–35% range.'
+    ]);
+  });
+
+  it('uses the rates it is given', () => {
+    const rates = { ...DEFAULT_RATES, laborRate: 80, taxRate: 0 };
+    const bid = calculateBid({ materials: [], laborHours: 2, includeMobilization: false, includeAdmin: false }, rates);
+
+    expect(bid.lineItems).toEqual([{ label: 'Labor', basis: '2 h × $80.00/h', amount: 160 }]);
+    expect(bid.rates.laborRate).toBe(80);
+  });
+
+  it('rejects negative or non-numeric amounts and unknown categories', () => {
+    expect(() => calculateBid({ ...storefrontJob, laborHours: -1 }, DEFAULT_RATES)).toThrow('laborHours must be a number of zero or more');
+    expect(() => calculateBid({ ...storefrontJob, materials: [{ description: 'Glass', cost: Number.NaN }] }, DEFAULT_RATES)).toThrow('materials[0].cost');
+    expect(() => calculateBid({ ...storefrontJob, additionalCosts: [{ description: 'Lift', cost: -5 }] }, DEFAULT_RATES)).toThrow('additionalCosts[0].cost');
+    expect(() => calculateBid({ ...storefrontJob, materials: [{ description: 'Wood', cost: 5, category: 'lumber' as never }] }, DEFAULT_RATES)).toThrow('category must be one of');
+  });
+});
@@ -0,0 +1,145 @@
+import type { EstimatingRates } from './rates';
+
+export type MaterialCategory = 'glass' | 'metal' | 'hardware' | 'sealant' | 'other';
+
+export type BidInput = {
+  projectName?: string;
+  materials: Array<{ description: string; cost: number; category?: MaterialCategory }>;
+  laborHours: number;
+  markupPercent?: number; // Defaults to the standard markup
+  additionalCosts?: Array<{ description: string; cost: number }>; // Lift rental, shop drawings etc., not taxed
+  includeMobilization?: boolean; // Default true
+  includeAdmin?: boolean; // Default true
+  taxExempt?: boolean;
+};
+
+export type BidLineItem = {
+  label: string;
+  basis: string; // How the amount was worked out, so the estimate can be audited
+  amount: number;
+};
+
+export type BidBreakdown = {
+  projectName?: string;
+  lineItems: BidLineItem[]; // Costs before markup
+  subtotal: number;
+  markupPercent: number;
+  markup: number;
+  total: number;
+  rates: BidRates; // Standards the bid was priced with
+  warnings: string[];
+};
+
+type BidRates = Pick<EstimatingRates, 'laborRate' | 'markup' | 'taxRate' | 'mobilization' | 'adminFee' | 'glassBreakage'>;
+
+export const MATERIAL_CATEGORIES: MaterialCategory[] = ['glass', 'metal', 'hardware', 'sealant', 'other'];
+
+export function roundCents(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+export function formatCurrency(amount: number) {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+function formatPercent(fraction: number) {
+  return `${roundCents(fraction * 100)}%`;
+}
+
+function assertAmount(value: unknown, name: string) {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a number of zero or more`);
+  }
+}
+
+export function calculateBid(input: BidInput, rates: EstimatingRates): BidBreakdown {
+  assertAmount(input.laborHours, 'laborHours');
+  input.materials.forEach((material, index) => {
+    assertAmount(material.cost, `materials[${index}].cost`);
+    if (material.category && !MATERIAL_CATEGORIES.includes(material.category)) {
+      throw new Error(`materials[${index}].category must be one of: ${MATERIAL_CATEGORIES.join(', ')}`);
+    }
+  });
+  (input.additionalCosts || []).forEach((cost, index) => assertAmount(cost.cost, `additionalCosts[${index}].cost`));
+
+  const warnings: string[] = [];
+  const lineItems: BidLineItem[] = [];
+
+  // Materials, with the breakage allowance on glass
+  for (const material of input.materials) {
+    lineItems.push({
+      label: material.description || 'Material',
+      basis: `Material${material.category ? ` (${material.category})` : ''}`,
+      amount: roundCents(material.cost)
+    });
+  }
+
+  const glassCost = input.materials
+    .filter(material => material.category === 'glass')
+    .reduce((sum, material) => sum + material.cost, 0);
+  if (glassCost > 0) {
+    lineItems.push({
+      label: 'Glass breakage allowance',
+      basis: `${formatPercent(rates.glassBreakage)} of ${formatCurrency(glassCost)} glass`,
+      amount: roundCents(glassCost * rates.glassBreakage)
+    });
+  }
+
+  // Sales tax applies to materials, including the breakage allowance
+  const taxableMaterials = lineItems.reduce((sum, item) => sum + item.amount, 0);
+  if (input.taxExempt) {
+    warnings.push('Project marked tax exempt: no sales tax included.');
+  } else if (taxableMaterials > 0) {
+    lineItems.push({
+      label: 'Sales tax',
+      basis: `${formatPercent(rates.taxRate)} of ${formatCurrency(taxableMaterials)} materials`,
+      amount: roundCents(taxableMaterials * rates.taxRate)
+    });
+  }
+
+  if (input.laborHours > 0) {
+    lineItems.push({
+      label: 'Labor',
+      basis: `${input.laborHours} h × ${formatCurrency(rates.laborRate)}/h`,
+      amount: roundCents(input.laborHours * rates.laborRate)
+    });
+  }
+
+  for (const cost of input.additionalCosts || []) {
+    lineItems.push({ label: cost.description || 'Additional cost', basis: 'Additional cost', amount: roundCents(cost.cost) });
+  }
+
+  if (input.includeMobilization !== false) {
+    lineItems.push({ label: 'Mobilization', basis: 'Flat rate', amount: rates.mobilization });
+  }
+  if (input.includeAdmin !== false) {
+    lineItems.push({ label: 'Admin', basis: 'Flat rate', amount: rates.adminFee });
+  }
+
+  const markupPercent = input.markupPercent ?? rates.markup.default * 100;
+  assertAmount(markupPercent, 'markupPercent');
+  if (markupPercent < rates.markup.min * 100 || markupPercent > rates.markup.max * 100) {
+    warnings.push(`Markup of ${markupPercent}% is outside the standard ${formatPercent(rates.markup.min)}–${formatPercent(rates.markup.max)} range.`);
+  }
+
+  const subtotal = roundCents(lineItems.reduce((sum, item) => sum + item.amount, 0));
+  const markup = roundCents(subtotal * markupPercent / 100);
+
+  return {
+    projectName: input.projectName,
+    lineItems,
+    subtotal,
+    markupPercent,
+    markup,
+    total: roundCents(subtotal + markup),
+    rates: {
+      laborRate: rates.laborRate,
+      markup: rates.markup,
+      taxRate: rates.taxRate,
+      mobilization: rates.mobilization,
+      adminFee: rates.adminFee,
+      glassBreakage: rates.glassBreakage
+    },
+    warnings
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { validateDoorConfig } from '@/lib/estimating';
+
+describe('validateDoorConfig', () => {
+  it('passes a complete spec and fills in what the rules imply', () => {
+    const result = validateDoorConfig({
+      mark: 'D101',
+      quantity: 2,
+      configuration: 'pair',
+      series: '350',
+      widthIn: 72,
+      heightIn: 84,
+      hinge: 'continuous',
+      sidelites: true,
+      finish: 'clear anodized'
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.flags).toEqual([]);
+    expect(result.spec).toMatchObject({ series: '350', stile: 'medium', stileWidthIn: 3.5, edge: 'rabbeted', frameType: 'openback' });
+    expect(result.orderLine).toBe('(2) Kawneer 350 Series medium stile (3 1/2") pair, 72" × 84", continuous hinge, rabbeted, openback frame w/ sidelites, clear anodized – D101');
+  });
+
+  it('accepts "Series" in the series and infers the series from the stile', () => {
+    expect(validateDoorConfig({ configuration: 'single', series: '500 Series', hinge: 'butt' }).spec.series).toBe('500');
+
+    const inferred = validateDoorConfig({ configuration: 'single', stile: 'Narrow', hinge: 'offset_pivot' });
+    expect(inferred.valid).toBe(true);
+    expect(inferred.spec).toMatchObject({ series: '190', stileWidthIn: 2.125, edge: 'beveled' });
+    expect(inferred.flags).toEqual([expect.objectContaining({ rule: 'stile-series', severity: 'warning' })]);
+
+    expect(validateDoorConfig({ configuration: 'single', stileWidthIn: 5, hinge: 'butt' }).spec.series).toBe('500');
+  });
+
+  it('flags stile, edge and frame conflicts', () => {
+    const result = validateDoorConfig({
+      configuration: 'single',
+      series: '190',
+      stile: 'wide',
+      stileWidthIn: 5,
+      hinge: 'butt',
+      edge: 'rabbeted',
+      sidelites: true,
+      frameType: 'closed_back'
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.flags.map(flag => flag.message)).toEqual([
+      '190 Series is narrow stile, not wide.',
+      '190 Series stiles are 2 1/8", not 5".',
+      'Doors with butt hinges are ordered beveled, not rabbeted.',
+      'The opening has sidelites, so the frame must be openback, not closed back.'
+    ]);
+    expect(result.flags[0].ruleName).toBe('Stile series');
+    expect(result.spec).toMatchObject({ stile: 'narrow', edge: 'beveled', frameType: 'openback' });
+  });
+
+  it('flags missing required fields and unknown series', () => {
+    const empty = validateDoorConfig({});
+    expect(empty.valid).toBe(false);
+    expect(empty.flags.map(flag => flag.rule)).toEqual(['required-fields', 'required-fields', 'required-fields']);
+    expect(empty.orderLine).toBe('(1) Kawneer series TBD door, hinge TBD');
+
+    const unknown = validateDoorConfig({ configuration: 'single', series: '450', hinge: 'butt' });
+    expect(unknown.flags).toEqual([expect.objectContaining({ rule: 'stile-series', severity: 'error' })]);
+  });
+
+  it('rejects a bad quantity', () => {
+    expect(() => validateDoorConfig({ quantity: 0 })).toThrow('quantity must be a whole number');
+    expect(() => validateDoorConfig({ quantity: 1.5 })).toThrow('quantity must be a whole number');
+  });
+});
@@ -0,0 +1,187 @@
+import { formatInches } from './elevation';
+
+// Kawneer entrance ordering rules. Each rule has an id and a statement so that
+// every flag on a door spec names the rule it breaks.
+
+export type StileSeries = '500' | '350' | '190';
+export type HingeType = 'continuous' | 'butt' | 'offset_pivot';
+export type DoorEdge = 'rabbeted' | 'beveled';
+export type DoorFrameType = 'openback' | 'closed_back';
+export type Handing = 'LH' | 'RH' | 'LHR' | 'RHR';
+
+export type DoorSpec = {
+  mark?: string; // Door number from the schedule
+  quantity?: number;
+  configuration?: 'single' | 'pair';
+  series?: string; // 500, 350 or 190
+  stile?: string; // wide, medium or narrow
+  stileWidthIn?: number;
+  widthIn?: number; // Opening width
+  heightIn?: number; // Opening height
+  hinge?: HingeType;
+  edge?: DoorEdge;
+  sidelites?: boolean;
+  frameType?: DoorFrameType;
+  handing?: Handing;
+  finish?: string;
+  hardware?: string; // Lock, closer, panic device etc.
+};
+
+export type DoorRuleId = 'required-fields' | 'stile-series' | 'hinge-edge' | 'openback-sidelites';
+
+export type DoorRule = {
+  id: DoorRuleId;
+  name: string;
+  rule: string;
+};
+
+export type DoorFlag = {
+  rule: DoorRuleId;
+  ruleName: string;
+  severity: 'error' | 'warning';
+  message: string;
+};
+
+export type DoorConfigResult = {
+  valid: boolean; // No errors; warnings only need a look
+  spec: DoorSpec; // Normalized, with the values the rules imply filled in
+  flags: DoorFlag[];
+  orderLine: string;
+};
+
+export const DOOR_RULES: Record<DoorRuleId, DoorRule> = {
+  'required-fields': {
+    id: 'required-fields',
+    name: 'Required information',
+    rule: 'A door order needs the stile series, hinge type and configuration.'
+  },
+  'stile-series': {
+    id: 'stile-series',
+    name: 'Stile series',
+    rule: '500 Series is wide stile (5"), 350 Series medium stile (3½"), 190 Series narrow stile (2⅛"). Stile is the width of the vertical, not the thickness.'
+  },
+  'hinge-edge': {
+    id: 'hinge-edge',
+    name: 'Hinge and door edge',
+    rule: 'Order rabbeted for continuous hinges, beveled for butt hinges or offset pivots.'
+  },
+  'openback-sidelites': {
+    id: 'openback-sidelites',
+    name: 'Openback frames with sidelites',
+    rule: 'Always order openback door frames when sidelites are present.'
+  }
+};
+
+export const STILE_SERIES: Record<StileSeries, { stile: string; widthIn: number }> = {
+  '500': { stile: 'wide', widthIn: 5 },
+  '350': { stile: 'medium', widthIn: 3.5 },
+  '190': { stile: 'narrow', widthIn: 2.125 }
+};
+
+const HINGE_EDGES: Record<HingeType, DoorEdge> = {
+  continuous: 'rabbeted',
+  butt: 'beveled',
+  offset_pivot: 'beveled'
+};
+
+const HINGE_LABELS: Record<HingeType, string> = {
+  continuous: 'continuous hinge',
+  butt: 'butt hinges',
+  offset_pivot: 'offset pivots'
+};
+
+function seriesFromStile(stile?: string, widthIn?: number): StileSeries | undefined {
+  const entries = Object.entries(STILE_SERIES) as Array<[StileSeries, { stile: string; widthIn: number }]>;
+  const byName = stile && entries.find(([, standard]) => standard.stile === stile.toLowerCase().trim());
+  if (byName) return byName[0];
+  const byWidth = widthIn !== undefined && entries.find(([, standard]) => Math.abs(standard.widthIn - widthIn) < 0.01);
+  return byWidth ? byWidth[0] : undefined;
+}
+
+export function validateDoorConfig(input: DoorSpec): DoorConfigResult {
+  const flags: DoorFlag[] = [];
+  const flag = (rule: DoorRuleId, severity: DoorFlag['severity'], message: string) => {
+    flags.push({ rule, ruleName: DOOR_RULES[rule].name, severity, message });
+  };
+
+  const quantity = input.quantity ?? 1;
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new Error('quantity must be a whole number of 1 or more');
+  }
+  const spec: DoorSpec = { ...input, quantity };
+
+  // Stile series, worked out from the stile name or width when not given
+  const series = input.series?.toString().replace(/\s*series$/i, '').trim();
+  if (series && !(series in STILE_SERIES)) {
+    flag('stile-series', 'error', `Series ${series} is not one of the stile series: 500, 350 or 190.`);
+  } else if (series) {
+    const standard = STILE_SERIES[series as StileSeries];
+    if (input.stile && input.stile.toLowerCase().trim() !== standard.stile) {
+      flag('stile-series', 'error', `${series} Series is ${standard.stile} stile, not ${input.stile}.`);
+    }
+    if (input.stileWidthIn !== undefined && Math.abs(input.stileWidthIn - standard.widthIn) >= 0.01) {
+      flag('stile-series', 'error', `${series} Series stiles are ${formatInches(standard.widthIn)}, not ${formatInches(input.stileWidthIn)}.`);
+    }
+    spec.series = series;
+  } else {
+    const inferred = seriesFromStile(input.stile, input.stileWidthIn);
+    if (inferred) {
+      spec.series = inferred;
+      flag('stile-series', 'warning', `No series given; ${STILE_SERIES[inferred].stile} stile is the ${inferred} Series.`);
+    } else {
+      flag('required-fields', 'error', 'Stile series is missing (500 wide, 350 medium or 190 narrow).');
+    }
+  }
+  if (spec.series && spec.series in STILE_SERIES) {
+    const standard = STILE_SERIES[spec.series as StileSeries];
+    spec.stile = standard.stile;
+    spec.stileWidthIn = standard.widthIn;
+  }
+
+  // Door edge follows the hinge
+  if (!input.hinge) {
+    flag('required-fields', 'error', 'Hinge type is missing (continuous, butt or offset pivot).');
+  } else {
+    const edge = HINGE_EDGES[input.hinge];
+    if (input.edge && input.edge !== edge) {
+      flag('hinge-edge', 'error', `Doors with ${HINGE_LABELS[input.hinge]} are ordered ${edge}, not ${input.edge}.`);
+    }
+    spec.edge = edge;
+  }
+
+  // Sidelites need openback frames
+  if (input.sidelites) {
+    if (input.frameType === 'closed_back') {
+      flag('openback-sidelites', 'error', 'The opening has sidelites, so the frame must be openback, not closed back.');
+    }
+    spec.frameType = 'openback';
+  }
+
+  if (!input.configuration) {
+    flag('required-fields', 'error', 'Configuration is missing (single or pair).');
+  }
+
+  return {
+    valid: !flags.some(item => item.severity === 'error'),
+    spec,
+    flags,
+    orderLine: formatOrderLine(spec)
+  };
+}
+
+// One line for the order, e.g.
+// (2) Kawneer 350 Series medium stile (3 1/2") pair, 72" × 84", continuous hinge, rabbeted, openback frame w/ sidelites, clear anodized – D101
+export function formatOrderLine(spec: DoorSpec) {
+  const parts: string[] = [];
+  const series = spec.series ? `${spec.series} Series ${spec.stile || ''} stile${spec.stileWidthIn ? ` (${formatInches(spec.stileWidthIn)})` : ''}` : 'series TBD';
+  parts.push(`(${spec.quantity ?? 1}) Kawneer ${series.replace(/\s+/g, ' ')} ${spec.configuration || 'door'}`);
+  if (spec.widthIn && spec.heightIn) parts.push(`${formatInches(spec.widthIn)} × ${formatInches(spec.heightIn)}`);
+  if (spec.handing) parts.push(spec.handing);
+  parts.push(spec.hinge ? HINGE_LABELS[spec.hinge] : 'hinge TBD');
+  if (spec.edge) parts.push(spec.edge);
+  if (spec.frameType) parts.push(`${spec.frameType === 'openback' ? 'openback' : 'closed back'} frame${spec.sidelites ? ' w/ sidelites' : ''}`);
+  if (spec.hardware) parts.push(spec.hardware);
+  if (spec.finish) parts.push(spec.finish);
+
+  return parts.join(', ') + (spec.mark ? ` – ${spec.mark}` : '');
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RATES, calculateElevationTakeoff, elevationTakeoffToCsv, formatInches } from '@/lib/estimating';
+
+describe('formatInches', () => {
+  it('writes sixteenths as reduced fractions', () => {
+    expect(formatInches(33.875)).toBe('33 7/8"');
+    expect(formatInches(0.375)).toBe('3/8"');
+    expect(formatInches(2)).toBe('2"');
+    expect(formatInches(10.0625)).toBe('10 1/16"');
+  });
+});
+
+describe('calculateElevationTakeoff', () => {
+  it('takes off frame and glass for equal bays', () => {
+    // (122" - 4 verticals × 2") / 3 bays = 38" daylight; 120" - 2 × 2" = 116" daylight
+    const takeoff = calculateElevationTakeoff({ systemType: 'storefront', widthIn: 122, heightIn: 120, bays: 3 }, DEFAULT_RATES);
+
+    expect(takeoff.frame).toEqual({ verticalsFt: 40, headFt: 9.5, sillFt: 9.5, horizontalsFt: 0, doorHeadersFt: 0, totalFt: 59 });
+    expect(takeoff.lites).toEqual([{ glassType: 'Glass type 1', widthIn: 38.75, heightIn: 116.75, quantity: 3, sqft: 94.25 }]);
+    expect(takeoff.totalGlassSqft).toBe(94.25);
+    expect(takeoff.glassStops).toEqual({ location: 'Head', lengthFt: 9.5 });
+    expect(takeoff.doors).toEqual({ openings: 0, leaves: 0, items: [] });
+  });
+
+  it('handles horizontals, row glass types and a door bay', () => {
+    const takeoff = calculateElevationTakeoff({
+      name: 'E1',
+      systemType: 'storefront',
+      widthIn: 122,
+      heightIn: 120,
+      bays: 3,
+      horizontalsIn: [60],
+      doors: [{ bay: 2 }],
+      rowGlassTypes: ['Tempered', 'Clear']
+    }, DEFAULT_RATES);
+
+    expect(takeoff.lites).toEqual([
+      { glassType: 'Tempered', widthIn: 38.75, heightIn: 57.75, quantity: 2, sqft: 31.08 },
+      { glassType: 'Clear', widthIn: 38.75, heightIn: 57.75, quantity: 2, sqft: 31.08 },
+      { glassType: 'Clear', widthIn: 38.75, heightIn: 32.75, quantity: 1, sqft: 8.81 }
+    ]);
+    expect(takeoff.glassTypes).toEqual([
+      { glassType: 'Tempered', lites: 2, sqft: 31.08 },
+      { glassType: 'Clear', lites: 3, sqft: 39.89 }
+    ]);
+    // No sill in the door bay; a door header instead
+    expect(takeoff.frame).toMatchObject({ sillFt: 6.33, horizontalsFt: 6.33, doorHeadersFt: 3.17 });
+    expect(takeoff.doors).toEqual({ openings: 1, leaves: 1, items: [{ bay: 2, type: 'single', widthIn: 38, heightIn: 84 }] });
+    expect(takeoff.notes).toContain('Door bays have no sill; door jambs are counted with the verticals.');
+  });
+
+  it('multiplies by the number of identical elevations', () => {
+    const single = calculateElevationTakeoff({ systemType: 'curtainwall', widthIn: 100, heightIn: 100, bays: 2, doors: [{ bay: 1, type: 'pair' }] }, DEFAULT_RATES);
+    const triple = calculateElevationTakeoff({ systemType: 'curtainwall', widthIn: 100, heightIn: 100, bays: 2, doors: [{ bay: 1, type: 'pair' }], quantity: 3 }, DEFAULT_RATES);
+
+    expect(triple.frame.verticalsFt).toBe(single.frame.verticalsFt * 3);
+    expect(triple.lites[0].quantity).toBe(single.lites[0].quantity * 3);
+    expect(triple.doors).toMatchObject({ openings: 3, leaves: 6 });
+  });
+
+  it('rejects layouts that do not fit', () => {
+    const base = { systemType: 'storefront' as const, widthIn: 122, heightIn: 120, bays: 3 };
+    expect(() => calculateElevationTakeoff({ ...base, bays: 0 }, DEFAULT_RATES)).toThrow('bays must be a whole number');
+    expect(() => calculateElevationTakeoff({ ...base, widthIn: 7 }, DEFAULT_RATES)).toThrow('3 bays do not fit');
+    expect(() => calculateElevationTakeoff({ ...base, horizontalsIn: [119] }, DEFAULT_RATES)).toThrow('horizontalsIn[0] must be between the sill and the head');
+    expect(() => calculateElevationTakeoff({ ...base, horizontalsIn: [60, 61] }, DEFAULT_RATES)).toThrow('closer together than the 2" sightline');
+    expect(() => calculateElevationTakeoff({ ...base, doors: [{ bay: 4 }] }, DEFAULT_RATES)).toThrow('doors[0].bay must be between 1 and 3');
+    expect(() => calculateElevationTakeoff({ ...base, doors: [{ bay: 1 }, { bay: 1 }] }, DEFAULT_RATES)).toThrow('Bay 1 has more than one door');
+    expect(() => calculateElevationTakeoff({ ...base, doors: [{ bay: 1, heightIn: 130 }] }, DEFAULT_RATES)).toThrow('taller than the frame');
+  });
+});
+
+describe('elevationTakeoffToCsv', () => {
+  it('writes frame, glass, door and glass stop rows and quotes fields with commas', () => {
+    const takeoff = calculateElevationTakeoff({
+      systemType: 'storefront',
+      widthIn: 122,
+      heightIn: 120,
+      bays: 3,
+      doors: [{ bay: 2 }],
+      glassType: '1" IGU, low-E'
+    }, DEFAULT_RATES);
+    const rows = elevationTakeoffToCsv(takeoff).split('\n');
+
+    expect(rows[0]).toBe('Section,Item,Glass type,Width (in),Height (in),Quantity,Unit,Total');
+    expect(rows).toContain('Frame,"Verticals (4½"" × 2"")",,,,,LF,40');
+    expect(rows).toContain('Glass,Lite,"1"" IGU, low-E",38.75,116.75,2,SF,62.83');
+    expect(rows).toContain('Doors,"Single door, bay 2",,38,84,1,EA,');
+    expect(rows[rows.length - 1]).toBe('Glass stops,Head,,,,,LF,9.5');
+  });
+});
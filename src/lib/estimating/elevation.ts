@@ -0,0 +1,291 @@
+import { roundCents } from './bid';
+import type { EstimatingRates, SystemType } from './rates';
+
+export type DoorType = 'single' | 'pair';
+
+export type DoorOpening = {
+  bay: number; // 1-based, counted from the left looking at the exterior
+  type?: DoorType; // Default single
+  heightIn?: number; // Default standard door height
+};
+
+export type ElevationInput = {
+  name?: string;
+  systemType: SystemType;
+  widthIn: number; // Overall frame width
+  heightIn: number; // Overall frame height
+  bays: number; // Equal bays across the width
+  horizontalsIn?: number[]; // Centerline heights of intermediate horizontals, from the bottom of the frame
+  doors?: DoorOpening[];
+  glassType?: string; // Default glass type for every lite
+  rowGlassTypes?: string[]; // Glass type per row, bottom row first
+  quantity?: number; // Number of identical elevations
+};
+
+export type GlassLite = {
+  glassType: string;
+  widthIn: number; // Glass size, daylight opening plus bite
+  heightIn: number;
+  quantity: number;
+  sqft: number; // All lites of this size
+};
+
+export type ElevationTakeoff = {
+  name?: string;
+  systemType: SystemType;
+  frameProfile: string;
+  quantity: number;
+  widthIn: number;
+  heightIn: number;
+  bays: number;
+  frame: {
+    verticalsFt: number;
+    headFt: number;
+    sillFt: number;
+    horizontalsFt: number; // Intermediate horizontals
+    doorHeadersFt: number;
+    totalFt: number;
+  };
+  lites: GlassLite[];
+  glassTypes: Array<{ glassType: string; lites: number; sqft: number }>;
+  totalGlassSqft: number;
+  doors: {
+    openings: number;
+    leaves: number;
+    items: Array<{ bay: number; type: DoorType; widthIn: number; heightIn: number }>;
+  };
+  glassStops: {
+    location: string;
+    lengthFt: number;
+  };
+  notes: string[];
+};
+
+const DEFAULT_GLASS_TYPE = 'Glass type 1';
+
+// Glass stops go at the head of the storefront
+const GLASS_STOP_LOCATION = 'Head';
+
+function assertPositive(value: unknown, name: string) {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a number greater than zero`);
+  }
+}
+
+// Glass is ordered to the nearest 1/16"
+function roundSixteenth(inches: number) {
+  return Math.round(inches * 16) / 16;
+}
+
+// 33.875 -> 33 7/8"
+export function formatInches(inches: number) {
+  const sixteenths = Math.round(inches * 16);
+  const whole = Math.floor(sixteenths / 16);
+  let numerator = sixteenths % 16;
+  let denominator = 16;
+  while (numerator > 0 && numerator % 2 === 0) {
+    numerator /= 2;
+    denominator /= 2;
+  }
+  if (!numerator) return `${whole}"`;
+  return whole ? `${whole} ${numerator}/${denominator}"` : `${numerator}/${denominator}"`;
+}
+
+export function calculateElevationTakeoff(input: ElevationInput, rates: EstimatingRates): ElevationTakeoff {
+  const frame = rates.frames[input.systemType];
+  if (!frame) {
+    throw new Error('systemType must be storefront or curtainwall');
+  }
+
+  assertPositive(input.widthIn, 'widthIn');
+  assertPositive(input.heightIn, 'heightIn');
+  if (!Number.isInteger(input.bays) || input.bays < 1) {
+    throw new Error('bays must be a whole number of 1 or more');
+  }
+  const quantity = input.quantity ?? 1;
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new Error('quantity must be a whole number of 1 or more');
+  }
+
+  const face = frame.faceIn;
+  const { widthIn, heightIn, bays } = input;
+  const notes: string[] = [];
+
+  // Daylight width of each bay, between verticals
+  const bayWidth = (widthIn - (bays + 1) * face) / bays;
+  if (bayWidth <= 0) {
+    throw new Error(`${bays} bays do not fit in ${formatInches(widthIn)} with a ${formatInches(face)} sightline`);
+  }
+
+  const horizontals = [...(input.horizontalsIn || [])].sort((a, b) => a - b);
+  horizontals.forEach((height, index) => {
+    if (typeof height !== 'number' || height < face * 1.5 || height > heightIn - face * 1.5) {
+      throw new Error(`horizontalsIn[${index}] must be between the sill and the head`);
+    }
+  });
+
+  // Door openings by bay
+  const doors = new Map<number, { type: DoorType; heightIn: number }>();
+  (input.doors || []).forEach((door, index) => {
+    if (!Number.isInteger(door.bay) || door.bay < 1 || door.bay > bays) {
+      throw new Error(`doors[${index}].bay must be between 1 and ${bays}`);
+    }
+    if (doors.has(door.bay)) {
+      throw new Error(`Bay ${door.bay} has more than one door`);
+    }
+    const doorHeight = door.heightIn ?? rates.doorHeightIn;
+    assertPositive(doorHeight, `doors[${index}].heightIn`);
+    if (doorHeight > heightIn - face) {
+      throw new Error(`doors[${index}] is taller than the frame`);
+    }
+    doors.set(door.bay, { type: door.type === 'pair' ? 'pair' : 'single', heightIn: doorHeight });
+  });
+
+  const rowGlassType = (bottomCenterline: number) => {
+    const row = horizontals.filter(height => height <= bottomCenterline).length;
+    return input.rowGlassTypes?.[row] || input.glassType || DEFAULT_GLASS_TYPE;
+  };
+
+  // Lites keyed by glass type and size
+  const lites = new Map<string, GlassLite>();
+  const addLite = (glassType: string, daylightWidth: number, daylightHeight: number) => {
+    const liteWidth = roundSixteenth(daylightWidth + 2 * frame.glassBiteIn);
+    const liteHeight = roundSixteenth(daylightHeight + 2 * frame.glassBiteIn);
+    const key = `${glassType}|${liteWidth}|${liteHeight}`;
+    const lite = lites.get(key) || { glassType, widthIn: liteWidth, heightIn: liteHeight, quantity: 0, sqft: 0 };
+    lite.quantity += quantity;
+    lites.set(key, lite);
+  };
+
+  let sillIn = 0;
+  let horizontalsInTotal = 0;
+  let doorHeadersIn = 0;
+  const doorItems: ElevationTakeoff['doors']['items'] = [];
+
+  for (let bay = 1; bay <= bays; bay++) {
+    const door = doors.get(bay);
+
+    // Centerlines of the horizontal members in this bay, bottom to top
+    let centerlines: number[];
+    if (door) {
+      doorItems.push({ bay, type: door.type, widthIn: roundSixteenth(bayWidth), heightIn: door.heightIn });
+      const headerCenterline = door.heightIn + face / 2;
+      const fullHeight = headerCenterline >= heightIn - face * 1.5;
+      if (!fullHeight) doorHeadersIn += bayWidth;
+      const above = horizontals.filter(height => height >= headerCenterline + face);
+      horizontalsInTotal += above.length * bayWidth;
+      centerlines = fullHeight ? [] : [headerCenterline, ...above, heightIn - face / 2];
+    } else {
+      sillIn += bayWidth;
+      horizontalsInTotal += horizontals.length * bayWidth;
+      centerlines = [face / 2, ...horizontals, heightIn - face / 2];
+    }
+
+    for (let row = 0; row < centerlines.length - 1; row++) {
+      const daylightHeight = centerlines[row + 1] - centerlines[row] - face;
+      if (daylightHeight <= 0) {
+        throw new Error(`Horizontals in bay ${bay} are closer together than the ${formatInches(face)} sightline`);
+      }
+      addLite(rowGlassType(centerlines[row]), bayWidth, daylightHeight);
+    }
+  }
+
+  const toFeet = (inches: number) => roundCents(inches / 12 * quantity);
+  const verticalsFt = toFeet((bays + 1) * heightIn);
+  const headFt = toFeet(bays * bayWidth);
+  const sillFt = toFeet(sillIn);
+  const horizontalsFt = toFeet(horizontalsInTotal);
+  const doorHeadersFt = toFeet(doorHeadersIn);
+
+  const liteList = [...lites.values()].map(lite => ({
+    ...lite,
+    sqft: roundCents(lite.widthIn * lite.heightIn / 144 * lite.quantity)
+  }));
+
+  const glassTypes = new Map<string, { glassType: string; lites: number; sqft: number }>();
+  for (const lite of liteList) {
+    const total = glassTypes.get(lite.glassType) || { glassType: lite.glassType, lites: 0, sqft: 0 };
+    total.lites += lite.quantity;
+    total.sqft = roundCents(total.sqft + lite.sqft);
+    glassTypes.set(lite.glassType, total);
+  }
+
+  const leaves = doorItems.reduce((sum, door) => sum + (door.type === 'pair' ? 2 : 1), 0);
+  notes.push(
+    `Frame: ${frame.profile} ${input.systemType}, ${formatInches(face)} sightline. ` +
+    `Glass sizes include ${formatInches(frame.glassBiteIn)} bite each side.`
+  );
+  if (doorItems.length > 0) {
+    notes.push('Door bays have no sill; door jambs are counted with the verticals.');
+  }
+
+  return {
+    name: input.name,
+    systemType: input.systemType,
+    frameProfile: frame.profile,
+    quantity,
+    widthIn,
+    heightIn,
+    bays,
+    frame: {
+      verticalsFt,
+      headFt,
+      sillFt,
+      horizontalsFt,
+      doorHeadersFt,
+      totalFt: roundCents(verticalsFt + headFt + sillFt + horizontalsFt + doorHeadersFt)
+    },
+    lites: liteList,
+    glassTypes: [...glassTypes.values()],
+    totalGlassSqft: roundCents(liteList.reduce((sum, lite) => sum + lite.sqft, 0)),
+    doors: {
+      openings: doorItems.length * quantity,
+      leaves: leaves * quantity,
+      items: doorItems
+    },
+    glassStops: {
+      location: GLASS_STOP_LOCATION,
+      lengthFt: headFt
+    },
+    notes
+  };
+}
+
+function csvField(value: string | number) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Takeoff as CSV rows for the estimating spreadsheets. Sizes are decimal
+// inches so the sheets can calculate with them.
+export function elevationTakeoffToCsv(takeoff: ElevationTakeoff) {
+  const rows: Array<Array<string | number>> = [
+    ['Section', 'Item', 'Glass type', 'Width (in)', 'Height (in)', 'Quantity', 'Unit', 'Total']
+  ];
+
+  const frameItems: Array<[string, number]> = [
+    ['Verticals', takeoff.frame.verticalsFt],
+    ['Head', takeoff.frame.headFt],
+    ['Sill', takeoff.frame.sillFt],
+    ['Intermediate horizontals', takeoff.frame.horizontalsFt],
+    ['Door headers', takeoff.frame.doorHeadersFt]
+  ];
+  for (const [item, lengthFt] of frameItems) {
+    if (lengthFt > 0) rows.push(['Frame', `${item} (${takeoff.frameProfile})`, '', '', '', '', 'LF', lengthFt]);
+  }
+  rows.push(['Frame', 'Total frame', '', '', '', '', 'LF', takeoff.frame.totalFt]);
+
+  for (const lite of takeoff.lites) {
+    rows.push(['Glass', 'Lite', lite.glassType, lite.widthIn, lite.heightIn, lite.quantity, 'SF', lite.sqft]);
+  }
+  for (const total of takeoff.glassTypes) {
+    rows.push(['Glass', 'Total', total.glassType, '', '', total.lites, 'SF', total.sqft]);
+  }
+
+  for (const door of takeoff.doors.items) {
+    rows.push(['Doors', `${door.type === 'pair' ? 'Pair' : 'Single'} door, bay ${door.bay}`, '', door.widthIn, door.heightIn, takeoff.quantity, 'EA', '']);
+  }
+  rows.push(['Glass stops', takeoff.glassStops.location, '', '', '', '', 'LF', takeoff.glassStops.lengthFt]);
+
+  return rows.map(row => row.map(csvField).join(',')).join('\n');
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RATES, calculateEquipment, mergeRates } from '@/lib/estimating';
+
+describe('calculateEquipment', () => {
+  it('prices the boom lift for tall frames by the month', () => {
+    const estimate = calculateEquipment({ heightFt: 14, floor: 1, durationWeeks: 6 }, DEFAULT_RATES);
+
+    expect(estimate).toMatchObject({
+      required: true,
+      equipment: "65' boom lift",
+      reason: "65' boom lift required: frames are 14 ft tall, over 12 ft.",
+      durationWeeks: 6,
+      months: 2,
+      rental: 6000,
+      deliveryFee: 200,
+      pickupFee: 200,
+      total: 6400
+    });
+  });
+
+  it('applies from the rule floor and defaults the duration', () => {
+    const estimate = calculateEquipment({ heightFt: 10, floor: 2 }, DEFAULT_RATES);
+
+    expect(estimate).toMatchObject({ required: true, reason: "65' boom lift required: work is on floor 2.", months: 1, total: 3400 });
+    expect(estimate.notes).toContain('Duration not given, priced for 4 weeks.');
+  });
+
+  it('needs no equipment for low ground-floor work', () => {
+    expect(calculateEquipment({ heightFt: 12, floor: 1 }, DEFAULT_RATES)).toMatchObject({ required: false, equipment: null, total: 0, notes: [] });
+    expect(calculateEquipment({}, DEFAULT_RATES).notes).toEqual(['No frame height or floor given; ask for them before leaving equipment out of the bid.']);
+  });
+
+  it('uses the first matching rule', () => {
+    const rates = mergeRates(DEFAULT_RATES, {
+      equipment: [
+        { equipment: 'Scissor lift', heightOverFt: 10, monthlyRate: 900, deliveryFee: 150, pickupFee: 150 },
+        { equipment: "65' boom lift", heightOverFt: 20, monthlyRate: 3000, deliveryFee: 200, pickupFee: 200 }
+      ]
+    });
+
+    expect(calculateEquipment({ heightFt: 24 }, rates).equipment).toBe('Scissor lift');
+  });
+
+  it('rejects negative inputs', () => {
+    expect(() => calculateEquipment({ heightFt: -1 }, DEFAULT_RATES)).toThrow('heightFt must be a number of zero or more');
+    expect(() => calculateEquipment({ durationWeeks: Number.NaN }, DEFAULT_RATES)).toThrow('durationWeeks must be a number of zero or more');
+  });
+});
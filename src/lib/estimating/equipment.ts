@@ -0,0 +1,92 @@
+import { formatCurrency, roundCents } from './bid';
+import type { EquipmentRule, EstimatingRates } from './rates';
+
+export type EquipmentInput = {
+  heightFt?: number; // Height of the tallest frame
+  floor?: number; // Floor the work is on, 1 = ground floor
+  durationWeeks?: number; // How long the equipment is on site
+};
+
+export type EquipmentEstimate = {
+  required: boolean;
+  equipment: string | null;
+  reason: string;
+  durationWeeks: number;
+  months: number; // Rental months billed
+  rental: number;
+  deliveryFee: number;
+  pickupFee: number;
+  total: number;
+  notes: string[];
+};
+
+// Rentals are billed by the month; four weeks count as one month
+const WEEKS_PER_MONTH = 4;
+const DEFAULT_DURATION_WEEKS = 4;
+
+function assertAmount(value: unknown, name: string) {
+  if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+    throw new Error(`${name} must be a number of zero or more`);
+  }
+}
+
+// Why a rule applies to the job, or null when it does not
+function matchRule(rule: EquipmentRule, heightFt: number | undefined, floor: number | undefined) {
+  if (rule.heightOverFt != null && heightFt !== undefined && heightFt > rule.heightOverFt) {
+    return `frames are ${heightFt} ft tall, over ${rule.heightOverFt} ft`;
+  }
+  if (rule.fromFloor != null && floor !== undefined && floor >= rule.fromFloor) {
+    return `work is on floor ${floor}`;
+  }
+  return null;
+}
+
+export function calculateEquipment(input: EquipmentInput, rates: EstimatingRates): EquipmentEstimate {
+  assertAmount(input.heightFt, 'heightFt');
+  assertAmount(input.floor, 'floor');
+  assertAmount(input.durationWeeks, 'durationWeeks');
+
+  const notes: string[] = [];
+  if (input.heightFt === undefined && input.floor === undefined) {
+    notes.push('No frame height or floor given; ask for them before leaving equipment out of the bid.');
+  }
+
+  const durationWeeks = input.durationWeeks ?? DEFAULT_DURATION_WEEKS;
+
+  for (const rule of rates.equipment) {
+    const reason = matchRule(rule, input.heightFt, input.floor);
+    if (!reason) continue;
+
+    if (input.durationWeeks === undefined) {
+      notes.push(`Duration not given, priced for ${DEFAULT_DURATION_WEEKS} weeks.`);
+    }
+    const months = Math.max(1, Math.ceil(durationWeeks / WEEKS_PER_MONTH));
+    const rental = roundCents(months * rule.monthlyRate);
+    notes.push(`${rule.equipment}: ${months} month${months === 1 ? '' : 's'} × ${formatCurrency(rule.monthlyRate)}, plus delivery and pickup.`);
+    return {
+      required: true,
+      equipment: rule.equipment,
+      reason: `${rule.equipment} required: ${reason}.`,
+      durationWeeks,
+      months,
+      rental,
+      deliveryFee: rule.deliveryFee,
+      pickupFee: rule.pickupFee,
+      total: roundCents(rental + rule.deliveryFee + rule.pickupFee),
+      notes
+    };
+  }
+
+  return {
+    required: false,
+    equipment: null,
+    reason: 'No lift or other equipment required for this frame height and floor.',
+    durationWeeks,
+    months: 0,
+    rental: 0,
+    deliveryFee: 0,
+    pickupFee: 0,
+    total: 0,
+    notes
+  };
+}
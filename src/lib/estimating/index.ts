@@ -0,0 +1,7 @@
+export * from './bid';
+export * from './doors';
+export * from './elevation';
+export * from './equipment';
+export * from './rates';
+export * from './sealant';
+export * from './settings';
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RATES, calculateSealantTakeoff, getEstimatingRates, mergeRates, validateRateOverrides } from '@/lib/estimating';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('validateRateOverrides', () => {
+  it('accepts partial overrides at any depth', () => {
+    expect(validateRateOverrides({})).toBeNull();
+    expect(validateRateOverrides({ taxRate: 0.0925, markup: { default: 0.32 } })).toBeNull();
+    expect(validateRateOverrides({ sealant: { storefront: { feetPerCase: 220 }, waste: 0 } })).toBeNull();
+    expect(validateRateOverrides({ frames: { curtainwall: { profile: '2½" × 6"' } } })).toBeNull();
+    expect(validateRateOverrides({ equipment: [{ equipment: 'Scissor lift', heightOverFt: 10, monthlyRate: 900, deliveryFee: 150, pickupFee: 150 }] })).toBeNull();
+  });
+
+  it('rejects values that are not numbers', () => {
+    expect(validateRateOverrides({ markup: { default: '0.32' } })).toBe('markup.default must be a number');
+    expect(validateRateOverrides({ laborRate: null })).toBe('laborRate must be a number');
+    expect(validateRateOverrides({ anchors: { laborRate: Infinity } })).toBe('anchors.laborRate must be a number');
+    expect(validateRateOverrides({ frames: { storefront: { profile: 4 } } })).toBe('frames.storefront.profile must be text');
+  });
+
+  it('rejects negative amounts, zero divisors and percentages given as whole numbers', () => {
+    expect(validateRateOverrides({ sealant: { waste: -5 } })).toBe('sealant.waste must be a number of zero or more');
+    expect(validateRateOverrides({ sealant: { sausagesPerCase: 0 } })).toBe('sealant.sausagesPerCase must be more than zero');
+    expect(validateRateOverrides({ sealant: { curtainwall: { feetPerCase: 0 } } })).toBe('sealant.curtainwall.feetPerCase must be more than zero');
+    expect(validateRateOverrides({ frames: { storefront: { faceIn: -2 } } })).toBe('frames.storefront.faceIn must be more than zero');
+    expect(validateRateOverrides({ markup: { default: 32 } })).toBe('markup.default must be a fraction, e.g. 0.3 for 30%');
+  });
+
+  it('rejects unknown keys and the wrong shape', () => {
+    expect(validateRateOverrides([])).toBe('Overrides must be a JSON object');
+    expect(validateRateOverrides({ overhead: 0.1 })).toBe('Unknown rate: overhead');
+    expect(validateRateOverrides({ sealant: { storefront: { backerRod: '1/2"' } } })).toBe('Unknown rate: sealant.storefront.backerRod');
+    expect(validateRateOverrides({ frames: { windows: {} } })).toBe('Unknown rate: frames.windows');
+    expect(validateRateOverrides({ sealant: { storefront: 220 } })).toBe('sealant.storefront must be an object');
+    expect(validateRateOverrides({ equipment: [{ equipment: 'Lift', fromFloor: 2, monthlyRate: 1, deliveryFee: 1, pickupFee: 1, weeklyRate: 5 }] }))
+      .toBe('Unknown rate: equipment[0].weeklyRate');
+    expect(validateRateOverrides({ equipment: [{ equipment: 'Lift', monthlyRate: 1, deliveryFee: 1, pickupFee: 1 }] }))
+      .toBe('equipment[0] needs a height or a floor to apply from');
+  });
+});
+
+describe('mergeRates', () => {
+  it('keeps the per-system standards a partial override leaves out', () => {
+    const rates = mergeRates(DEFAULT_RATES, { sealant: { storefront: { feetPerCase: 220 } }, frames: { curtainwall: { faceIn: 3 } } });
+
+    expect(rates.sealant.storefront).toEqual({ jointSize: '3/8" × 3/8"', feetPerCase: 220, backerRodSize: '1/2"' });
+    expect(rates.sealant.curtainwall).toEqual(DEFAULT_RATES.sealant.curtainwall);
+    expect(rates.sealant.sausagesPerCase).toBe(16);
+    expect(rates.frames.curtainwall).toEqual({ ...DEFAULT_RATES.frames.curtainwall, faceIn: 3 });
+    expect(rates.frames.storefront).toEqual(DEFAULT_RATES.frames.storefront);
+
+    const takeoff = calculateSealantTakeoff({ systemType: 'storefront', jointLengthFt: 100 }, rates);
+    expect(takeoff).toMatchObject({ jointSize: '3/8" × 3/8"', backerRod: { size: '1/2"' }, sealant: { feetPerCase: 220, cases: 1 } });
+  });
+
+  it('replaces the equipment list whole', () => {
+    const equipment = [{ equipment: 'Scissor lift', heightOverFt: 10, monthlyRate: 900, deliveryFee: 150, pickupFee: 150 }];
+    expect(mergeRates(DEFAULT_RATES, { equipment }).equipment).toEqual(equipment);
+  });
+});
+
+describe('getEstimatingRates', () => {
+  it('applies ESTIMATING_RATES and ignores it when it is not valid', () => {
+    vi.stubEnv('ESTIMATING_RATES', '{"taxRate":0.0925,"sealant":{"storefront":{"feetPerCase":220}}}');
+    expect(getEstimatingRates()).toMatchObject({ taxRate: 0.0925, sealant: { storefront: { feetPerCase: 220, jointSize: '3/8" × 3/8"' } } });
+
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('ESTIMATING_RATES', '{"sealant":{"sausagesPerCase":0}}');
+    expect(getEstimatingRates()).toEqual(DEFAULT_RATES);
+    expect(consoleError).toHaveBeenCalledWith('Ignoring invalid ESTIMATING_RATES: sealant.sausagesPerCase must be more than zero');
+  });
+});
@@ -0,0 +1,210 @@
+// First Glass estimating standards. Every pricing tool reads its numbers from
+// here instead of the model remembering them. ESTIMATING_RATES (JSON) overrides
+// individual values, e.g. {"taxRate": 0.0925}; admins can also override them
+// from /admin/estimating-rates (see settings.ts).
+
+export type SystemType = 'storefront' | 'curtainwall';
+
+export type SealantStandard = {
+  jointSize: string; // Width × depth
+  feetPerCase: number;
+  backerRodSize: string;
+};
+
+export type FrameStandard = {
+  profile: string; // Nominal frame size, for display
+  faceIn: number; // Sightline seen in elevation
+  glassBiteIn: number; // Glass size = daylight opening + 2 × bite
+};
+
+// Lift or other equipment needed when the work is high or above grade. A rule
+// applies when the frame is taller than `heightOverFt` or the work is on
+// `fromFloor` or above.
+export type EquipmentRule = {
+  equipment: string;
+  heightOverFt?: number;
+  fromFloor?: number;
+  monthlyRate: number; // Rental, billed by the month
+  deliveryFee: number;
+  pickupFee: number;
+};
+
+export type EstimatingRates = {
+  laborRate: number; // Dollars per labor hour
+  markup: {
+    min: number; // Fractions, 0.3 = 30%
+    max: number;
+    default: number;
+  };
+  taxRate: number; // Sales tax on materials
+  mobilization: number; // Flat dollars per project
+  adminFee: number; // Flat dollars per project
+  glassBreakage: number; // Allowance added to glass material cost
+  sealant: Record<SystemType, SealantStandard> & {
+    waste: number; // Added to joint length
+    sausagesPerCase: number;
+    sausageSizeOz: number;
+  };
+  anchors: {
+    materialCost: number; // Dollars per windload anchor
+    laborRate: number; // Dollars per hour installing anchors
+  };
+  frames: Record<SystemType, FrameStandard>;
+  doorHeightIn: number; // Default door opening height
+  equipment: EquipmentRule[]; // Checked in order, the first matching rule applies
+};
+
+export const DEFAULT_RATES: EstimatingRates = {
+  laborRate: 65,
+  markup: { min: 0.30, max: 0.35, default: 0.30 },
+  taxRate: 0.092,
+  mobilization: 1500,
+  adminFee: 1500,
+  glassBreakage: 0.20,
+  sealant: {
+    storefront: { jointSize: '3/8" × 3/8"', feetPerCase: 200, backerRodSize: '1/2"' },
+    curtainwall: { jointSize: '1/2" × 3/8"', feetPerCase: 150, backerRodSize: '5/8"' },
+    waste: 0.10,
+    sausagesPerCase: 16,
+    sausageSizeOz: 20
+  },
+  anchors: {
+    materialCost: 9,
+    laborRate: 100
+  },
+  frames: {
+    storefront: { profile: '4½" × 2"', faceIn: 2, glassBiteIn: 0.375 },
+    curtainwall: { profile: '2½" × 7½"', faceIn: 2.5, glassBiteIn: 0.5 }
+  },
+  doorHeightIn: 84,
+  equipment: [
+    { equipment: "65' boom lift", heightOverFt: 12, fromFloor: 2, monthlyRate: 3000, deliveryFee: 200, pickupFee: 200 }
+  ]
+};
+
+// Overrides name only the values they change. The per-system sealant and
+// frame standards can be partial too; the equipment list is replaced whole.
+type PartialStandards<T> = { [K in keyof T]?: T[K] extends object ? Partial<T[K]> : T[K] };
+
+export type RateOverrides = Omit<Partial<EstimatingRates>, 'markup' | 'sealant' | 'anchors' | 'frames'> & {
+  markup?: Partial<EstimatingRates['markup']>;
+  sealant?: PartialStandards<EstimatingRates['sealant']>;
+  anchors?: Partial<EstimatingRates['anchors']>;
+  frames?: PartialStandards<EstimatingRates['frames']>;
+};
+
+// Counts and sizes the takeoffs divide by or lay out with
+const POSITIVE_RATES = new Set(['feetPerCase', 'sausagesPerCase', 'sausageSizeOz', 'faceIn', 'doorHeightIn']);
+
+// Fractions, 0.3 = 30%
+const FRACTION_RATES = new Set(['markup.min', 'markup.max', 'markup.default', 'taxRate', 'glassBreakage', 'sealant.waste']);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isAmount(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function validateEquipment(value: unknown): string | null {
+  if (!Array.isArray(value)) return 'equipment must be a list of rules';
+  for (const [index, rule] of value.entries()) {
+    if (!isObject(rule) || typeof rule.equipment !== 'string' || !rule.equipment.trim()) {
+      return `equipment[${index}].equipment must be the name of the equipment`;
+    }
+    for (const [field, item] of Object.entries(rule)) {
+      if (!['equipment', 'heightOverFt', 'fromFloor', 'monthlyRate', 'deliveryFee', 'pickupFee'].includes(field)) {
+        return `Unknown rate: equipment[${index}].${field}`;
+      }
+      if (field !== 'equipment' && item !== null && item !== undefined && !isAmount(item)) {
+        return `equipment[${index}].${field} must be a number of zero or more`;
+      }
+    }
+    for (const field of ['monthlyRate', 'deliveryFee', 'pickupFee']) {
+      if (!isAmount(rule[field])) return `equipment[${index}].${field} must be a number of zero or more`;
+    }
+    if (rule.heightOverFt == null && rule.fromFloor == null) {
+      return `equipment[${index}] needs a height or a floor to apply from`;
+    }
+  }
+  return null;
+}
+
+// Walks the overrides along the shape of the defaults, down to every value
+function validateSection(section: Record<string, unknown>, defaults: object, path: string): string | null {
+  for (const [key, value] of Object.entries(section)) {
+    const name = path ? `${path}.${key}` : key;
+    if (!(key in defaults)) return `Unknown rate: ${name}`;
+    const defaultValue: unknown = defaults[key as keyof typeof defaults];
+
+    let error: string | null = null;
+    if (name === 'equipment') {
+      error = validateEquipment(value);
+    } else if (typeof defaultValue === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) error = `${name} must be a number`;
+      else if (POSITIVE_RATES.has(key) && value <= 0) error = `${name} must be more than zero`;
+      else if (value < 0) error = `${name} must be a number of zero or more`;
+      else if (FRACTION_RATES.has(name) && value > 1) error = `${name} must be a fraction, e.g. 0.3 for 30%`;
+    } else if (typeof defaultValue === 'string') {
+      if (typeof value !== 'string' || !value.trim()) error = `${name} must be text`;
+    } else if (!isObject(value)) {
+      error = `${name} must be an object`;
+    } else {
+      error = validateSection(value, defaultValue as object, name);
+    }
+    if (error) return error;
+  }
+  return null;
+}
+
+// Check overrides against the shape of the defaults. Returns an error message,
+// or null when the overrides can be used.
+export function validateRateOverrides(overrides: unknown): string | null {
+  if (!isObject(overrides)) return 'Overrides must be a JSON object';
+  return validateSection(overrides, DEFAULT_RATES, '');
+}
+
+function parseOverrides(): RateOverrides {
+  const raw = process.env.ESTIMATING_RATES;
+  if (!raw) return {};
+  try {
+    const overrides = JSON.parse(raw);
+    const error = validateRateOverrides(overrides);
+    if (error) {
+      console.error(`Ignoring invalid ESTIMATING_RATES: ${error}`);
+      return {};
+    }
+    return overrides;
+  } catch (error) {
+    console.error('Ignoring invalid ESTIMATING_RATES:', error);
+    return {};
+  }
+}
+
+// Overrides replace whole values, except the sections below which are merged
+// value by value
+export function mergeRates(rates: EstimatingRates, overrides: RateOverrides): EstimatingRates {
+  const { sealant = {}, frames = {} } = overrides;
+  return {
+    ...rates,
+    ...overrides,
+    markup: { ...rates.markup, ...overrides.markup },
+    sealant: {
+      ...rates.sealant,
+      ...sealant,
+      storefront: { ...rates.sealant.storefront, ...sealant.storefront },
+      curtainwall: { ...rates.sealant.curtainwall, ...sealant.curtainwall }
+    },
+    anchors: { ...rates.anchors, ...overrides.anchors },
+    frames: {
+      storefront: { ...rates.frames.storefront, ...frames.storefront },
+      curtainwall: { ...rates.frames.curtainwall, ...frames.curtainwall }
+    }
+  };
+}
+
+// Defaults with the ESTIMATING_RATES overrides, without admin settings
+export function getEstimatingRates(): EstimatingRates {
+  return mergeRates(DEFAULT_RATES, parseOverrides());
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RATES, calculateSealantTakeoff } from '@/lib/estimating';
+
+describe('calculateSealantTakeoff', () => {
+  it('works out joints from openings, adds waste and rounds up to whole sausages and cases', () => {
+    const takeoff = calculateSealantTakeoff({
+      systemType: 'storefront',
+      jointLengthFt: 8,
+      openings: [{ widthIn: 72, heightIn: 96, quantity: 2 }],
+      sealBothSides: true
+    }, DEFAULT_RATES);
+
+    // 2 × (72 + 96) / 12 = 28 ft per side, × 2 openings × 2 sides, + 8 ft measured
+    expect(takeoff).toMatchObject({
+      jointSize: '3/8" × 3/8"',
+      jointLengthFt: 120,
+      wasteFt: 12,
+      totalLengthFt: 132,
+      sealant: { sausages: 11, cases: 1, feetPerCase: 200, sausagesPerCase: 16 },
+      backerRod: { size: '1/2"', lengthFt: 132 },
+      anchors: null,
+      notes: []
+    });
+  });
+
+  it('uses the curtainwall standard', () => {
+    const takeoff = calculateSealantTakeoff({ systemType: 'curtainwall', jointLengthFt: 300 }, DEFAULT_RATES);
+
+    expect(takeoff).toMatchObject({
+      jointSize: '1/2" × 3/8"',
+      totalLengthFt: 330,
+      sealant: { sausages: 36, cases: 3, feetPerCase: 150 },
+      backerRod: { size: '5/8"', lengthFt: 330 }
+    });
+  });
+
+  it('counts one anchor per slab line per mullion and prices labor when hours are given', () => {
+    const priced = calculateSealantTakeoff({ systemType: 'storefront', verticalMullions: 5, slabLines: 2, anchorLaborHours: 4 }, DEFAULT_RATES);
+    expect(priced.anchors).toEqual({ count: 10, materialCost: 90, laborHours: 4, laborCost: 400, totalCost: 490 });
+
+    const unpriced = calculateSealantTakeoff({ systemType: 'storefront', verticalMullions: 5, slabLines: 2 }, DEFAULT_RATES);
+    expect(unpriced.anchors).toEqual({ count: 10, materialCost: 90, laborHours: null, laborCost: null, totalCost: 90 });
+    expect(unpriced.notes).toContain('Anchor labor is not priced: give anchorLaborHours to add labor at $100/h.');
+  });
+
+  it('notes when there is nothing to seal', () => {
+    const takeoff = calculateSealantTakeoff({ systemType: 'storefront' }, DEFAULT_RATES);
+    expect(takeoff.sealant.sausages).toBe(0);
+    expect(takeoff.notes).toEqual(['No joint length or openings given, so no sealant was calculated.']);
+  });
+
+  it('rejects unknown systems and negative sizes', () => {
+    expect(() => calculateSealantTakeoff({ systemType: 'window wall' as never }, DEFAULT_RATES)).toThrow('systemType must be storefront or curtainwall');
+    expect(() => calculateSealantTakeoff({ systemType: 'storefront', jointLengthFt: -1 }, DEFAULT_RATES)).toThrow('jointLengthFt');
+    expect(() => calculateSealantTakeoff({ systemType: 'storefront', openings: [{ widthIn: 36, heightIn: -84 }] }, DEFAULT_RATES)).toThrow('openings[0].heightIn');
+  });
+});
@@ -0,0 +1,117 @@
+import { roundCents } from './bid';
+import type { EstimatingRates, SystemType } from './rates';
+
+export type Opening = {
+  widthIn: number;
+  heightIn: number;
+  quantity?: number;
+};
+
+export type SealantTakeoffInput = {
+  systemType: SystemType;
+  jointLengthFt?: number; // Measured joint length, added to any openings
+  openings?: Opening[]; // Perimeter joints are worked out from the opening sizes
+  sealBothSides?: boolean; // Perimeter sealed inside and out (default exterior only)
+  verticalMullions?: number;
+  slabLines?: number;
+  anchorLaborHours?: number;
+};
+
+export type SealantTakeoff = {
+  systemType: SystemType;
+  jointSize: string;
+  jointLengthFt: number; // Before waste
+  wasteFt: number;
+  totalLengthFt: number;
+  sealant: {
+    cases: number;
+    sausages: number; // Count of sausages needed, before rounding up to whole cases
+    feetPerCase: number;
+    sausagesPerCase: number;
+    sausageSizeOz: number;
+  };
+  backerRod: {
+    size: string;
+    lengthFt: number;
+  };
+  anchors: {
+    count: number; // One per slab line per vertical mullion
+    materialCost: number;
+    laborHours: number | null;
+    laborCost: number | null;
+    totalCost: number;
+  } | null;
+  notes: string[];
+};
+
+function assertCount(value: unknown, name: string) {
+  if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+    throw new Error(`${name} must be a number of zero or more`);
+  }
+}
+
+export function calculateSealantTakeoff(input: SealantTakeoffInput, rates: EstimatingRates): SealantTakeoff {
+  const standard = rates.sealant[input.systemType];
+  if (!standard) {
+    throw new Error('systemType must be storefront or curtainwall');
+  }
+
+  assertCount(input.jointLengthFt, 'jointLengthFt');
+  assertCount(input.verticalMullions, 'verticalMullions');
+  assertCount(input.slabLines, 'slabLines');
+  assertCount(input.anchorLaborHours, 'anchorLaborHours');
+
+  const notes: string[] = [];
+
+  // Perimeter of every opening, in feet
+  const sides = input.sealBothSides ? 2 : 1;
+  const openingsLengthFt = (input.openings || []).reduce((sum, opening, index) => {
+    assertCount(opening.widthIn, `openings[${index}].widthIn`);
+    assertCount(opening.heightIn, `openings[${index}].heightIn`);
+    assertCount(opening.quantity, `openings[${index}].quantity`);
+    return sum + 2 * (opening.widthIn + opening.heightIn) / 12 * (opening.quantity ?? 1) * sides;
+  }, 0);
+
+  const jointLengthFt = roundCents((input.jointLengthFt || 0) + openingsLengthFt);
+  if (jointLengthFt === 0) {
+    notes.push('No joint length or openings given, so no sealant was calculated.');
+  }
+
+  const wasteFt = roundCents(jointLengthFt * rates.sealant.waste);
+  const totalLengthFt = roundCents(jointLengthFt + wasteFt);
+  const feetPerSausage = standard.feetPerCase / rates.sealant.sausagesPerCase;
+  const sausages = Math.ceil(totalLengthFt / feetPerSausage);
+
+  let anchors: SealantTakeoff['anchors'] = null;
+  if (input.verticalMullions !== undefined || input.slabLines !== undefined) {
+    const count = Math.round((input.verticalMullions || 0) * (input.slabLines || 0));
+    const materialCost = roundCents(count * rates.anchors.materialCost);
+    const laborHours = input.anchorLaborHours ?? null;
+    const laborCost = laborHours === null ? null : roundCents(laborHours * rates.anchors.laborRate);
+    if (laborHours === null && count > 0) {
+      notes.push(`Anchor labor is not priced: give anchorLaborHours to add labor at $${rates.anchors.laborRate}/h.`);
+    }
+    anchors = { count, materialCost, laborHours, laborCost, totalCost: roundCents(materialCost + (laborCost || 0)) };
+  }
+
+  return {
+    systemType: input.systemType,
+    jointSize: standard.jointSize,
+    jointLengthFt,
+    wasteFt,
+    totalLengthFt,
+    sealant: {
+      cases: Math.ceil(sausages / rates.sealant.sausagesPerCase),
+      sausages,
+      feetPerCase: standard.feetPerCase,
+      sausagesPerCase: rates.sealant.sausagesPerCase,
+      sausageSizeOz: rates.sealant.sausageSizeOz
+    },
+    backerRod: {
+      size: standard.backerRodSize,
+      lengthFt: Math.ceil(totalLengthFt)
+    },
+    anchors,
+    notes
+  };
+}
@@ -0,0 +1,66 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RATES, getRateSettings, loadEstimatingRates, saveRateSettings } from '@/lib/estimating';
+
+const supabaseAdmin = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock('@/lib/supabaseServer', () => ({
+  createSupabaseAdmin: () => supabaseAdmin.current
+}));
+
+// Just enough of the client for the estimating_settings row
+function fakeSupabase(value: unknown) {
+  const row = { value, updated_by: 'admin-1', updated_at: '2025-08-20T15:00:00.000Z' };
+  const upsert = vi.fn(async (saved: typeof row) => {
+    row.value = saved.value;
+    return { error: null };
+  });
+  const client = {
+    from: () => ({
+      select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: row, error: null }) }) }),
+      upsert
+    })
+  };
+  return { client: client as unknown as SupabaseClient, upsert };
+}
+
+afterEach(() => {
+  supabaseAdmin.current = null;
+  vi.restoreAllMocks();
+});
+
+describe('rate settings', () => {
+  it('loads and saves the overrides row', async () => {
+    const { client, upsert } = fakeSupabase({ taxRate: 0.0925 });
+
+    expect(await getRateSettings(client)).toEqual({ overrides: { taxRate: 0.0925 }, updatedBy: 'admin-1', updatedAt: '2025-08-20T15:00:00.000Z' });
+    await saveRateSettings(client, { laborRate: 70 }, 'admin-2');
+    expect(upsert).toHaveBeenCalledWith(expect.objectContaining({ id: 'rates', value: { laborRate: 70 }, updated_by: 'admin-2' }));
+  });
+
+  it('prices with saved overrides merged into the defaults', async () => {
+    const { client } = fakeSupabase({});
+    supabaseAdmin.current = client;
+    await saveRateSettings(client, { sealant: { storefront: { feetPerCase: 220 } } }, 'admin-1');
+
+    const rates = await loadEstimatingRates();
+    expect(rates.sealant.storefront).toEqual({ ...DEFAULT_RATES.sealant.storefront, feetPerCase: 220 });
+  });
+
+  it('ignores saved overrides that are not valid', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { client } = fakeSupabase({});
+    supabaseAdmin.current = client;
+    await saveRateSettings(client, { sealant: { waste: -5, sausagesPerCase: 0 } } as never, 'admin-1');
+
+    expect(await loadEstimatingRates()).toEqual(DEFAULT_RATES);
+    expect(consoleError).toHaveBeenCalledWith('Ignoring invalid estimating settings: sealant.waste must be a number of zero or more');
+  });
+
+  it('uses the defaults without the service role', async () => {
+    const { client } = fakeSupabase({});
+    await saveRateSettings(client, {}, 'admin-1');
+
+    expect(await loadEstimatingRates()).toEqual(DEFAULT_RATES);
+  });
+});
@@ -0,0 +1,76 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseAdmin } from '@/lib/supabaseServer';
+import { getEstimatingRates, mergeRates, validateRateOverrides, type EstimatingRates, type RateOverrides } from './rates';
+
+// Rate overrides admins save from /admin/estimating-rates, kept as one JSON row
+// in the Supabase `estimating_settings` table. They apply on top of the
+// defaults and ESTIMATING_RATES, so rates change without a deploy.
+
+export type RateSettings = {
+  overrides: RateOverrides;
+  updatedBy: string | null;
+  updatedAt: string | null;
+};
+
+const SETTINGS_ID = 'rates';
+
+// Tools run on every turn; re-read the settings at most this often
+const CACHE_MS = 60 * 1000;
+
+let cached: { overrides: RateOverrides; loadedAt: number } | null = null;
+
+export async function getRateSettings(supabase: SupabaseClient): Promise<RateSettings> {
+  const { data, error } = await supabase
+    .from('estimating_settings')
+    .select('value, updated_by, updated_at')
+    .eq('id', SETTINGS_ID)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error loading estimating settings:', error);
+    throw error;
+  }
+
+  return {
+    overrides: data?.value || {},
+    updatedBy: data?.updated_by || null,
+    updatedAt: data?.updated_at || null
+  };
+}
+
+export async function saveRateSettings(supabase: SupabaseClient, overrides: RateOverrides, userId: string) {
+  const { error } = await supabase
+    .from('estimating_settings')
+    .upsert({ id: SETTINGS_ID, value: overrides, updated_by: userId, updated_at: new Date().toISOString() });
+
+  if (error) {
+    console.error('Supabase error saving estimating settings:', error);
+    throw error;
+  }
+
+  cached = null;
+}
+
+async function loadOverrides(): Promise<RateOverrides> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_MS) return cached.overrides;
+
+  const supabaseAdmin = createSupabaseAdmin();
+  if (!supabaseAdmin) return {};
+
+  try {
+    const { overrides } = await getRateSettings(supabaseAdmin);
+    // Settings saved before validation covered every value
+    const error = validateRateOverrides(overrides);
+    if (error) console.error(`Ignoring invalid estimating settings: ${error}`);
+    cached = { overrides: error ? {} : overrides, loadedAt: Date.now() };
+    return cached.overrides;
+  } catch {
+    // Price with the defaults rather than fail the tool
+    return cached?.overrides || {};
+  }
+}
+
+// Rates the pricing tools use: defaults, then ESTIMATING_RATES, then admin settings
+export async function loadEstimatingRates(): Promise<EstimatingRates> {
+  return mergeRates(getEstimatingRates(), await loadOverrides());
+}
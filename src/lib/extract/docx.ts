@@ -0,0 +1,6 @@
+import mammoth from 'mammoth';
+
+export async function extractDocx(data: Uint8Array): Promise<string> {
+  const { value } = await mammoth.extractRawText({ buffer: Buffer.from(data) });
+  return value.replace(/\n{3,}/g, '\n\n').trim();
+}
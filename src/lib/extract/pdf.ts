@@ -0,0 +1,21 @@
+import { extractText, getMeta } from 'unpdf';
+
+export type ExtractedPdf = {
+  title: string | null;
+  pages: string[]; // Text per page, page 1 first
+};
+
+export async function extractPdf(data: Uint8Array): Promise<ExtractedPdf> {
+  // pdf.js takes ownership of the buffer it is given, so hand it copies
+  const [{ text }, meta] = await Promise.all([
+    extractText(data.slice(), { mergePages: false }),
+    getMeta(data.slice()).catch(() => null)
+  ]);
+
+  const title = typeof meta?.info?.Title === 'string' ? meta.info.Title.trim() || null : null;
+
+  return {
+    title,
+    pages: text.map(page => page.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim())
+  };
+}
@@ -0,0 +1,59 @@
+import type { ChatExample, LegacyExample } from './dataset';
+import type { ValidExample } from './validate';
+
+export const COMPANY_SYSTEM_PROMPT = [
+  'You are the First Glass Assistant, the internal assistant for employees of First Glass of Arkansas,',
+  'a commercial glazing contractor (storefront, curtainwall, doors, ACM panels, fabrication, drafting and estimating).',
+  'Answer with the company\'s own standards, rates, contacts and templates. Be concise and specific.',
+  'If you are not sure, say so and suggest asking the project manager who assigned the work.'
+].join(' ');
+
+export type SplitOptions = {
+  validationRatio: number; // Share of examples held out, 0-1
+  seed: number; // Same seed, same split
+};
+
+export function toChatExample(example: LegacyExample, systemPrompt = COMPANY_SYSTEM_PROMPT): ChatExample {
+  return {
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: example.message },
+      { role: 'assistant', content: example.completion }
+    ]
+  };
+}
+
+// Small seeded PRNG (mulberry32), so splits are reproducible
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Shuffle and split into train and validation sets. With two or more examples
+// both sets get at least one.
+export function splitExamples(examples: ValidExample[], { validationRatio, seed }: SplitOptions) {
+  const random = createRandom(seed);
+  const shuffled = [...examples];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  let validationCount = Math.round(shuffled.length * validationRatio);
+  if (shuffled.length >= 2) {
+    validationCount = Math.min(Math.max(validationCount, validationRatio > 0 ? 1 : 0), shuffled.length - 1);
+  }
+
+  // Keep file order within each set, it makes the output easier to review
+  const byLine = (a: ValidExample, b: ValidExample) => a.line - b.line;
+  return {
+    train: shuffled.slice(validationCount).sort(byLine),
+    validation: shuffled.slice(0, validationCount).sort(byLine)
+  };
+}
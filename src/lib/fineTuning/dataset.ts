@@ -0,0 +1,38 @@
+// Fine-tuning datasets. The source file uses one `{ message, completion }`
+// object per line; OpenAI chat fine-tuning expects `{ messages: [...] }`.
+
+export type LegacyExample = {
+  message: string;
+  completion: string;
+};
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export type ChatExample = {
+  messages: Array<{ role: ChatRole; content: string }>;
+};
+
+// One line of the source file
+export type DatasetRecord = {
+  line: number; // 1-based line number in the file
+  raw: string;
+  value: unknown; // Parsed JSON, undefined when the line is not valid JSON
+  parseError?: string;
+};
+
+export function parseJsonl(text: string): DatasetRecord[] {
+  return text.split(/\r?\n/).flatMap((raw, index) => {
+    if (!raw.trim()) return [];
+
+    const line = index + 1;
+    try {
+      return [{ line, raw, value: JSON.parse(raw) }];
+    } catch (error) {
+      return [{ line, raw, value: undefined, parseError: error instanceof Error ? error.message : String(error) }];
+    }
+  });
+}
+
+export function toJsonl(examples: object[]) {
+  return examples.map(example => JSON.stringify(example)).join('\n') + (examples.length > 0 ? '\n' : '');
+}
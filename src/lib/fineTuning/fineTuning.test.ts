@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseJsonl, prepareDataset, splitExamples, toJsonl, validateDataset } from '@/lib/fineTuning';
+
+const line = (value: object) => JSON.stringify(value);
+
+function validate(...lines: string[]) {
+  return validateDataset(parseJsonl(lines.join('\n')));
+}
+
+describe('parseJsonl', () => {
+  it('keeps file line numbers, skips blank lines and records parse errors', () => {
+    const records = parseJsonl('{"message": "a", "completion": "b"}\n\n{not json}\r\n');
+    expect(records.map(record => record.line)).toEqual([1, 3]);
+    expect(records[0].value).toEqual({ message: 'a', completion: 'b' });
+    expect(records[1].parseError).toBeTruthy();
+  });
+
+  it('round-trips through toJsonl', () => {
+    const examples = [{ message: 'a', completion: 'b' }, { message: 'c', completion: 'd' }];
+    expect(parseJsonl(toJsonl(examples)).map(record => record.value)).toEqual(examples);
+    expect(toJsonl([])).toBe('');
+  });
+});
+
+describe('validateDataset', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts clean examples and trims them', () => {
+    const { examples, issues } = validate(line({ message: ' Who is the glass rep? ', completion: 'Blake Neafus at Tristar Glass.\n' }));
+    expect(issues).toEqual([]);
+    expect(examples).toEqual([{ line: 1, example: { message: 'Who is the glass rep?', completion: 'Blake Neafus at Tristar Glass.' } }]);
+  });
+
+  it('rejects invalid JSON, wrong shapes and empty fields', () => {
+    const { examples, issues } = validate(
+      '{"message": "unterminated',
+      '["message", "completion"]',
+      line({ message: 'What is the markup?', completion: 42 }),
+      line({ message: '   ', completion: 'Ten percent.' })
+    );
+    expect(examples).toEqual([]);
+    expect(issues.map(issue => [issue.line, issue.code])).toEqual([
+      [1, 'invalid_json'],
+      [2, 'invalid_schema'],
+      [3, 'invalid_schema'],
+      [4, 'empty_field']
+    ]);
+  });
+
+  it('warns about unexpected fields but keeps the example', () => {
+    const { examples, issues } = validate(line({ message: 'Hours?', completion: '7 to 3:30.', prompt: 'old' }));
+    expect(examples).toHaveLength(1);
+    expect(issues).toEqual([expect.objectContaining({ severity: 'warning', code: 'unexpected_field' })]);
+  });
+
+  it('rejects corrupted text', () => {
+    const { examples, issues } = validate(
+      line({ message: 'Who does Glass Qumessagequest?', completion: 'Tristar.' }),
+      line({ message: 'Whatâ€™s the lead time?', completion: 'Four weeks.' }),
+      line({ message: 'Bad � character', completion: 'Yes.' })
+    );
+    expect(examples).toEqual([]);
+    expect(issues.every(issue => issue.severity === 'error' && issue.code === 'suspicious_token')).toBe(true);
+    expect(issues[0].message).toContain('Qumessagequest');
+  });
+
+  it('warns about placeholder text, repeated words and far-off dates', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+
+    const { examples, issues } = validate(
+      line({ message: 'When is the bid due?', completion: 'The bid is due 7/30/35.' }),
+      line({ message: 'Who orders the the glass?', completion: 'The PM.' }),
+      line({ message: 'What is the retainage?', completion: 'TODO' })
+    );
+    expect(examples).toHaveLength(3);
+    expect(issues.map(issue => [issue.line, issue.code, issue.severity])).toEqual([
+      [1, 'suspicious_date', 'warning'],
+      [2, 'suspicious_token', 'warning'],
+      [3, 'suspicious_token', 'warning']
+    ]);
+  });
+
+  it('skips repeated questions and rejects ones with a different answer', () => {
+    const { examples, issues } = validate(
+      line({ message: 'Who is the owner?', completion: 'Tiffin Hubbard.' }),
+      line({ message: 'who is the  owner', completion: 'Tiffin Hubbard.' }),
+      line({ message: 'Who is the owner?!', completion: 'Nat Long.' })
+    );
+    expect(examples.map(example => example.line)).toEqual([1]);
+    expect(issues.map(issue => [issue.line, issue.code, issue.severity])).toEqual([
+      [2, 'duplicate', 'warning'],
+      [3, 'conflicting_duplicate', 'error']
+    ]);
+  });
+});
+
+describe('splitExamples', () => {
+  const examples = Array.from({ length: 10 }, (_, index) => ({ line: index + 1, example: { message: `q${index}`, completion: `a${index}` } }));
+
+  it('is reproducible for a seed and keeps file order in each set', () => {
+    const first = splitExamples(examples, { validationRatio: 0.2, seed: 7 });
+    expect(splitExamples(examples, { validationRatio: 0.2, seed: 7 })).toEqual(first);
+    expect(first.validation).toHaveLength(2);
+    expect(first.train).toHaveLength(8);
+    expect(first.train.map(example => example.line)).toEqual([...first.train.map(example => example.line)].sort((a, b) => a - b));
+  });
+
+  it('puts at least one example in each set once there are two', () => {
+    const { train, validation } = splitExamples(examples.slice(0, 2), { validationRatio: 0.01, seed: 1 });
+    expect([train.length, validation.length]).toEqual([1, 1]);
+  });
+});
+
+describe('prepareDataset', () => {
+  it('converts to chat format and reports whether the file is ready for upload', () => {
+    const text = Array.from({ length: 15 }, (_, index) => line({ message: `Question ${index}?`, completion: `Answer ${index}.` })).join('\n');
+    const { report, train, validation } = prepareDataset(text, { systemPrompt: 'You help glaziers.' });
+
+    expect(report).toMatchObject({ records: 15, converted: 15, skipped: 0, train: 12, validation: 3, errors: 0, readyForUpload: true });
+    expect(train[0].messages).toEqual([
+      { role: 'system', content: 'You help glaziers.' },
+      { role: 'user', content: expect.stringMatching(/^Question \d+\?$/) },
+      { role: 'assistant', content: expect.stringMatching(/^Answer \d+\.$/) }
+    ]);
+    expect(validation).toHaveLength(3);
+  });
+
+  it('is not ready with errors or too few examples', () => {
+    const { report } = prepareDataset([line({ message: 'Hours?', completion: '7 to 3:30.' }), '{bad'].join('\n'));
+    expect(report.readyForUpload).toBe(false);
+    expect(report.errors).toBe(1);
+    expect(report.notes).toHaveLength(2);
+  });
+});
@@ -0,0 +1,86 @@
+import { parseJsonl, type ChatExample } from './dataset';
+import { COMPANY_SYSTEM_PROMPT, splitExamples, toChatExample, type SplitOptions } from './convert';
+import { validateDataset, type ValidationIssue } from './validate';
+
+export { parseJsonl, toJsonl, type ChatExample, type LegacyExample } from './dataset';
+export { COMPANY_SYSTEM_PROMPT, splitExamples, toChatExample } from './convert';
+export { validateDataset, type ValidationIssue } from './validate';
+
+// OpenAI rejects fine-tuning jobs with fewer training examples than this
+const MIN_TRAINING_EXAMPLES = 10;
+
+export type PrepareOptions = Partial<SplitOptions> & {
+  systemPrompt?: string;
+};
+
+export type DatasetReport = {
+  records: number; // Non-empty lines in the source file
+  converted: number; // Examples written to train + validation
+  skipped: number;
+  train: number;
+  validation: number;
+  errors: number;
+  warnings: number;
+  issues: ValidationIssue[];
+  readyForUpload: boolean;
+  notes: string[];
+};
+
+// Validate a `{ message, completion }` JSONL file and convert the clean
+// examples to chat format, split into train and validation sets
+export function prepareDataset(text: string, options: PrepareOptions = {}) {
+  const records = parseJsonl(text);
+  const { examples, issues } = validateDataset(records);
+
+  const split = splitExamples(examples, {
+    validationRatio: options.validationRatio ?? 0.2,
+    seed: options.seed ?? 42
+  });
+  const systemPrompt = options.systemPrompt || COMPANY_SYSTEM_PROMPT;
+  const train: ChatExample[] = split.train.map(({ example }) => toChatExample(example, systemPrompt));
+  const validation: ChatExample[] = split.validation.map(({ example }) => toChatExample(example, systemPrompt));
+
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  const notes: string[] = [];
+  if (errors > 0) {
+    notes.push('Fix the errors in the source file; lines with errors are left out of the converted files.');
+  }
+  if (train.length < MIN_TRAINING_EXAMPLES) {
+    notes.push(`OpenAI needs at least ${MIN_TRAINING_EXAMPLES} training examples (have ${train.length}).`);
+  }
+
+  const report: DatasetReport = {
+    records: records.length,
+    converted: examples.length,
+    skipped: records.length - examples.length,
+    train: train.length,
+    validation: validation.length,
+    errors,
+    warnings: issues.length - errors,
+    issues,
+    readyForUpload: errors === 0 && train.length >= MIN_TRAINING_EXAMPLES,
+    notes
+  };
+
+  return { report, train, validation };
+}
+
+export function formatReport(report: DatasetReport) {
+  const lines = [
+    `Records:     ${report.records}`,
+    `Converted:   ${report.converted} (${report.train} train, ${report.validation} validation)`,
+    `Skipped:     ${report.skipped}`,
+    `Errors:      ${report.errors}`,
+    `Warnings:    ${report.warnings}`,
+    ''
+  ];
+
+  for (const issue of report.issues) {
+    lines.push(`  line ${issue.line}  ${issue.severity.toUpperCase().padEnd(7)} ${issue.code}: ${issue.message}`);
+  }
+  if (report.issues.length > 0) lines.push('');
+
+  lines.push(...report.notes);
+  lines.push(report.readyForUpload ? 'Ready for upload.' : 'NOT ready for upload.');
+  return lines.join('\n');
+}
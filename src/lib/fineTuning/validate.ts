@@ -0,0 +1,150 @@
+import type { DatasetRecord, LegacyExample } from './dataset';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueCode =
+  | 'invalid_json'
+  | 'invalid_schema'
+  | 'unexpected_field'
+  | 'empty_field'
+  | 'duplicate'
+  | 'conflicting_duplicate'
+  | 'suspicious_token'
+  | 'suspicious_date';
+
+export type ValidationIssue = {
+  line: number;
+  severity: IssueSeverity;
+  code: IssueCode;
+  message: string;
+};
+
+export type ValidExample = {
+  line: number;
+  example: LegacyExample;
+};
+
+export type ValidationResult = {
+  examples: ValidExample[]; // Examples fit for conversion, duplicates removed
+  issues: ValidationIssue[];
+};
+
+const FIELDS = ['message', 'completion'] as const;
+
+// Text that points at a corrupted line. Errors keep the example out of the
+// converted dataset; warnings only need a human look.
+const SUSPICIOUS_PATTERNS: Array<{ pattern: RegExp; severity: IssueSeverity; description: string }> = [
+  // e.g. "Glass Qumessagequest", left behind by a find-and-replace on field names
+  { pattern: /\w*[a-z](?:message|completion|prompt)[a-z]\w*/i, severity: 'error', description: 'a field name fused into a word' },
+  { pattern: /\uFFFD/, severity: 'error', description: 'a Unicode replacement character' },
+  { pattern: /Ã[\u0080-\u00BF]|â€/, severity: 'error', description: 'mis-encoded characters' },
+  { pattern: /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/, severity: 'error', description: 'control characters' },
+  { pattern: /\b(?:undefined|NaN|TODO|FIXME|lorem ipsum)\b/i, severity: 'warning', description: 'placeholder text' },
+  { pattern: /\b(\w{3,})\s+\1\b/i, severity: 'warning', description: 'a repeated word' }
+];
+
+// Dates further than this from today are probably typos (e.g. 7/30/35 for 7/30/25)
+const MAX_DATE_DISTANCE_YEARS = 5;
+
+function normalizeQuestion(text: string) {
+  return text.toLowerCase().replace(/\s+/g, ' ').replace(/[\s?.!]+$/, '').trim();
+}
+
+function findSuspiciousTokens(line: number, field: string, text: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = SUSPICIOUS_PATTERNS.flatMap(({ pattern, severity, description }) => {
+    const match = text.match(pattern);
+    return match
+      ? [{ line, severity, code: 'suspicious_token' as const, message: `${field} contains ${description}: "${match[0]}"` }]
+      : [];
+  });
+
+  const currentYear = new Date().getFullYear();
+  const dates = new Set(Array.from(text.matchAll(/\b\d{1,2}\/\d{1,2}\/(?:\d{4}|\d{2})\b/g), match => match[0]));
+  for (const date of dates) {
+    const yearText = date.split('/')[2];
+    const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+    if (Math.abs(year - currentYear) > MAX_DATE_DISTANCE_YEARS) {
+      issues.push({ line, severity: 'warning', code: 'suspicious_date', message: `${field} contains the date ${date} (year ${year})` });
+    }
+  }
+
+  return issues;
+}
+
+// Check the shape and content of one line
+function validateRecord(record: DatasetRecord): { example: LegacyExample | null; issues: ValidationIssue[] } {
+  const { line } = record;
+
+  if (record.parseError) {
+    return { example: null, issues: [{ line, severity: 'error', code: 'invalid_json', message: `Invalid JSON: ${record.parseError}` }] };
+  }
+
+  const value = record.value;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { example: null, issues: [{ line, severity: 'error', code: 'invalid_schema', message: 'Line is not a JSON object' }] };
+  }
+
+  const fields = value as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  for (const key of Object.keys(fields)) {
+    if (!(FIELDS as readonly string[]).includes(key)) {
+      issues.push({ line, severity: 'warning', code: 'unexpected_field', message: `Unexpected field "${key}" is ignored` });
+    }
+  }
+
+  for (const field of FIELDS) {
+    const fieldValue = fields[field];
+    if (typeof fieldValue !== 'string') {
+      issues.push({ line, severity: 'error', code: 'invalid_schema', message: `"${field}" must be a string` });
+    } else if (!fieldValue.trim()) {
+      issues.push({ line, severity: 'error', code: 'empty_field', message: `"${field}" is empty` });
+    } else {
+      issues.push(...findSuspiciousTokens(line, field, fieldValue));
+    }
+  }
+
+  if (issues.some(issue => issue.severity === 'error')) {
+    return { example: null, issues };
+  }
+
+  return {
+    example: { message: (fields.message as string).trim(), completion: (fields.completion as string).trim() },
+    issues
+  };
+}
+
+export function validateDataset(records: DatasetRecord[]): ValidationResult {
+  const examples: ValidExample[] = [];
+  const issues: ValidationIssue[] = [];
+  const seen = new Map<string, ValidExample>();
+
+  for (const record of records) {
+    const result = validateRecord(record);
+    issues.push(...result.issues);
+    if (!result.example) continue;
+
+    // The same question twice: drop exact repeats, reject contradicting answers
+    const key = normalizeQuestion(result.example.message);
+    const first = seen.get(key);
+    if (first) {
+      const sameAnswer = first.example.completion === result.example.completion;
+      issues.push({
+        line: record.line,
+        severity: sameAnswer ? 'warning' : 'error',
+        code: sameAnswer ? 'duplicate' : 'conflicting_duplicate',
+        message: sameAnswer
+          ? `Duplicate of line ${first.line}, skipped`
+          : `Same question as line ${first.line} with a different answer`
+      });
+      continue;
+    }
+
+    const example = { line: record.line, example: result.example };
+    seen.set(key, example);
+    examples.push(example);
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  return { examples, issues };
+}
@@ -0,0 +1,145 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Invites let admins approve people outside the company email domains, such
+// as outside contractors, ahead of time. The link carries a random token; only
+// its hash is stored, and redeeming it approves the account it was sent to.
+// All functions need the service-role client; the table has no RLS policies.
+
+export const INVITE_TTL_DAYS = 7;
+
+export type Invite = {
+  id: string;
+  email: string;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+  created_at: string;
+};
+
+export type InviteStatus = 'open' | 'accepted' | 'expired';
+
+// Why an invite could not be redeemed, worded for the person redeeming it
+export type InviteError = 'not_found' | 'expired' | 'used' | 'wrong_email';
+
+export const INVITE_ERROR_MESSAGES: Record<InviteError, string> = {
+  not_found: 'This invite link is not valid. It may have been revoked.',
+  expired: 'This invite has expired. Ask an admin for a new one.',
+  used: 'This invite has already been used.',
+  wrong_email: 'This invite was sent to a different email address. Sign in with that address.'
+};
+
+const INVITE_COLUMNS = 'id, email, invited_by, expires_at, accepted_at, accepted_by, created_at';
+
+// Web Crypto rather than node:crypto, so the admin page can import the types and helpers here
+async function hashToken(token: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Buffer.from(digest).toString('hex');
+}
+
+export function isValidEmail(email: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+export function inviteStatus(invite: Invite, now = new Date()): InviteStatus {
+  if (invite.accepted_at) return 'accepted';
+  return new Date(invite.expires_at) <= now ? 'expired' : 'open';
+}
+
+export async function listInvites(supabase: SupabaseClient): Promise<Invite[]> {
+  const { data, error } = await supabase
+    .from('invites')
+    .select(INVITE_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Supabase error listing invites:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+// The token is only returned here; it cannot be recovered later
+export async function createInvite(supabase: SupabaseClient, email: string, invitedBy: string): Promise<{ invite: Invite; token: string }> {
+  const token = Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('base64url');
+  const expiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('invites')
+    .insert({
+      email: email.trim().toLowerCase(),
+      token_hash: await hashToken(token),
+      invited_by: invitedBy,
+      expires_at: expiresAt.toISOString()
+    })
+    .select(INVITE_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Supabase error creating invite:', error);
+    throw error;
+  }
+
+  return { invite: data, token };
+}
+
+// False when there was no such invite
+export async function deleteInvite(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase
+    .from('invites')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    console.error('Supabase error deleting invite:', error);
+    throw error;
+  }
+
+  return (data || []).length > 0;
+}
+
+// Marks the invite used by this user. The update only matches an unused
+// invite, so a token cannot be redeemed twice. Opening an invite this user
+// already redeemed is not an error, but `accepted` is only true for the
+// request that redeemed it.
+export async function redeemInvite(
+  supabase: SupabaseClient,
+  token: string,
+  user: { id: string; email?: string | null }
+): Promise<{ invite: Invite; accepted: boolean } | { error: InviteError }> {
+  const { data: invite, error } = await supabase
+    .from('invites')
+    .select(INVITE_COLUMNS)
+    .eq('token_hash', await hashToken(token))
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error loading invite:', error);
+    throw error;
+  }
+  if (!invite) return { error: 'not_found' };
+
+  const status = inviteStatus(invite);
+  if (status === 'accepted') {
+    return invite.accepted_by === user.id ? { invite, accepted: false } : { error: 'used' };
+  }
+  if (status === 'expired') return { error: 'expired' };
+  if (invite.email !== user.email?.toLowerCase()) return { error: 'wrong_email' };
+
+  const { data: accepted, error: updateError } = await supabase
+    .from('invites')
+    .update({ accepted_at: new Date().toISOString(), accepted_by: user.id })
+    .eq('id', invite.id)
+    .is('accepted_at', null)
+    .select(INVITE_COLUMNS)
+    .maybeSingle();
+
+  if (updateError) {
+    console.error('Supabase error accepting invite:', updateError);
+    throw updateError;
+  }
+
+  return accepted ? { invite: accepted, accepted: true } : { error: 'used' };
+}
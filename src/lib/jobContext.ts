@@ -0,0 +1,76 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Job a chat is about, stored in `chats.job_context`. The stream route sends it
+// to the assistant as additional instructions on every run, so a chat never
+// starts cold and everyone working the bid gets the same facts.
+
+export type JobContext = {
+  projectName?: string;
+  gcName?: string;
+  bidDate?: string; // As written on the bid form
+  scope?: string;
+  glassTypes?: string[]; // e.g. ["1\" insulated Solarban 60", "1/4\" tempered"]
+  notes?: string;
+};
+
+const TEXT_FIELDS = ['projectName', 'gcName', 'bidDate', 'scope', 'notes'] as const;
+
+// Trimmed context with empty fields dropped; null when nothing is set
+export function normalizeJobContext(value: unknown): JobContext | null {
+  if (!value || typeof value !== 'object') return null;
+  const input = value as Record<string, unknown>;
+
+  const context: JobContext = {};
+  for (const key of TEXT_FIELDS) {
+    const field = input[key];
+    if (typeof field === 'string' && field.trim()) context[key] = field.trim();
+  }
+  if (Array.isArray(input.glassTypes)) {
+    const glassTypes = input.glassTypes
+      .filter((type): type is string => typeof type === 'string')
+      .map(type => type.trim())
+      .filter(Boolean);
+    if (glassTypes.length > 0) context.glassTypes = glassTypes;
+  }
+
+  return Object.keys(context).length > 0 ? context : null;
+}
+
+// Name chats are grouped under in the sidebar
+export function jobName(context: JobContext | null | undefined) {
+  return context?.projectName || null;
+}
+
+// Run instructions telling the assistant which job the chat is about
+export function jobContextInstructions(context: JobContext | null) {
+  if (!context) return null;
+
+  const lines = [
+    context.projectName && `Project: ${context.projectName}`,
+    context.gcName && `General contractor: ${context.gcName}`,
+    context.bidDate && `Bid date: ${context.bidDate}`,
+    context.scope && `Our scope: ${context.scope}`,
+    context.glassTypes?.length && `Glass types: ${context.glassTypes.join('; ')}`,
+    context.notes && `Notes: ${context.notes}`
+  ].filter(Boolean);
+
+  return [
+    'This chat is about the job below. Use these details when the user does not say otherwise, and do not ask for them again.',
+    ...lines
+  ].join('\n');
+}
+
+export async function loadJobContext(supabase: SupabaseClient, chatId: string): Promise<JobContext | null> {
+  const { data, error } = await supabase
+    .from('chats')
+    .select('job_context')
+    .eq('id', chatId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error loading job context:', error);
+    throw error;
+  }
+
+  return normalizeJobContext(data?.job_context);
+}
@@ -0,0 +1,96 @@
+import { extractDocx } from '@/lib/extract/docx';
+import { extractPdf } from '@/lib/extract/pdf';
+
+export type KnowledgeFileType = 'pdf' | 'docx' | 'markdown';
+
+// Roughly 800 tokens per chunk, with some overlap so passages are not cut off
+const MAX_CHUNK_CHARS = 3200;
+const OVERLAP_CHARS = 400;
+
+const FILE_TYPES_BY_EXTENSION: Record<string, KnowledgeFileType> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown'
+};
+
+type Section = {
+  page?: number;
+  text: string;
+};
+
+export function detectFileType(fileName: string): KnowledgeFileType | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return FILE_TYPES_BY_EXTENSION[extension] || null;
+}
+
+async function extractSections(fileType: KnowledgeFileType, data: Uint8Array): Promise<Section[]> {
+  switch (fileType) {
+    case 'pdf': {
+      const { pages } = await extractPdf(data);
+      return pages.map((text, index) => ({ page: index + 1, text }));
+    }
+    case 'docx':
+      return [{ text: await extractDocx(data) }];
+    case 'markdown':
+      return [{ text: new TextDecoder().decode(data) }];
+  }
+}
+
+// Paragraphs no longer than the chunk size; oversized paragraphs are cut on sentence boundaries
+function splitParagraphs(text: string) {
+  const paragraphs = text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+
+  return paragraphs.flatMap(paragraph => {
+    if (paragraph.length <= MAX_CHUNK_CHARS) return [paragraph];
+
+    const pieces: string[] = [];
+    let current = '';
+    for (const sentence of paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph]) {
+      if (current && current.length + sentence.length > MAX_CHUNK_CHARS) {
+        pieces.push(current.trim());
+        current = '';
+      }
+      // A single sentence longer than a chunk is cut hard
+      for (let start = 0; start < sentence.length; start += MAX_CHUNK_CHARS) {
+        current += sentence.slice(start, start + MAX_CHUNK_CHARS);
+        if (current.length >= MAX_CHUNK_CHARS) {
+          pieces.push(current.trim());
+          current = '';
+        }
+      }
+    }
+    if (current.trim()) pieces.push(current.trim());
+    return pieces;
+  });
+}
+
+// Pack paragraphs into chunks. Chunks never span pages, and PDF chunks start
+// with a "[Page n]" label so citations can point at the page.
+function chunkSections(sections: Section[]) {
+  const chunks: string[] = [];
+
+  for (const section of sections) {
+    const label = section.page ? `[Page ${section.page}] ` : '';
+    let current = '';
+
+    for (const paragraph of splitParagraphs(section.text)) {
+      if (current && current.length + paragraph.length + 2 > MAX_CHUNK_CHARS) {
+        chunks.push(label + current);
+        // Carry the end of the previous chunk over for context, when it fits
+        const overlap = current.slice(-OVERLAP_CHARS);
+        current = overlap.length < current.length ? overlap.slice(overlap.indexOf(' ') + 1) : '';
+        if (current.length + paragraph.length + 2 > MAX_CHUNK_CHARS) current = '';
+      }
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+
+    if (current) chunks.push(label + current);
+  }
+
+  return chunks;
+}
+
+export async function chunkDocument(fileType: KnowledgeFileType, data: Uint8Array) {
+  return chunkSections(await extractSections(fileType, data));
+}
@@ -0,0 +1,65 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider } from '@/lib/llm';
+import type { KnowledgeFileType } from './chunking';
+import { deleteDocumentRow, getVersions, insertDocument, markSuperseded, type KnowledgeDocument } from './store';
+
+export { chunkDocument, detectFileType, type KnowledgeFileType } from './chunking';
+export { getDocument, listDocuments, type KnowledgeDocument } from './store';
+
+export const MAX_DOCUMENT_BYTES = Number(process.env.KNOWLEDGE_MAX_BYTES) || 20 * 1024 * 1024;
+
+type DocumentUpload = {
+  name: string;
+  fileType: KnowledgeFileType;
+  sizeBytes: number;
+  chunks: string[];
+  uploadedBy: string;
+};
+
+// Take a document out of the provider's index. Files indexed by another
+// provider (e.g. the stub during development) are left alone.
+async function removeFromIndex(llm: LLMProvider, document: KnowledgeDocument) {
+  if (!document.file_id || document.provider !== llm.name) return;
+  try {
+    await llm.removeDocument(document.file_id);
+  } catch (error) {
+    // The file may already be gone from the provider
+    console.error('Error removing document from index:', error);
+  }
+}
+
+// Index a new version of a document and retire the versions it replaces
+export async function addDocumentVersion(supabase: SupabaseClient, llm: LLMProvider, upload: DocumentUpload) {
+  const previousVersions = await getVersions(supabase, upload.name);
+
+  const fileId = await llm.indexDocument({ name: upload.name, chunks: upload.chunks });
+
+  let document: KnowledgeDocument;
+  try {
+    document = await insertDocument(supabase, {
+      name: upload.name,
+      version: (previousVersions[0]?.version || 0) + 1,
+      file_type: upload.fileType,
+      size_bytes: upload.sizeBytes,
+      chunk_count: upload.chunks.length,
+      provider: llm.name,
+      file_id: fileId,
+      uploaded_by: upload.uploadedBy
+    });
+  } catch (error) {
+    await llm.removeDocument(fileId).catch(() => {});
+    throw error;
+  }
+
+  for (const previous of previousVersions.filter(version => version.status === 'active')) {
+    await removeFromIndex(llm, previous);
+    await markSuperseded(supabase, previous.id);
+  }
+
+  return document;
+}
+
+export async function deleteDocument(supabase: SupabaseClient, llm: LLMProvider, document: KnowledgeDocument) {
+  await removeFromIndex(llm, document);
+  await deleteDocumentRow(supabase, document.id);
+}
@@ -0,0 +1,98 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { getLLMProvider, type RunEvent } from '@/lib/llm';
+import { chunkDocument, detectFileType } from '@/lib/knowledge';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+async function makePdf(pages: string[]) {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (const text of pages) {
+    pdf.addPage([612, 792]).drawText(text, { x: 50, y: 700, size: 12, font });
+  }
+  return pdf.save();
+}
+
+describe('detectFileType', () => {
+  it('recognises supported extensions in any case', () => {
+    expect(detectFileType('Handbook.PDF')).toBe('pdf');
+    expect(detectFileType('Safety Manual.docx')).toBe('docx');
+    expect(detectFileType('notes.md')).toBe('markdown');
+    expect(detectFileType('notes.markdown')).toBe('markdown');
+  });
+
+  it('rejects anything else', () => {
+    expect(detectFileType('price list.xlsx')).toBeNull();
+    expect(detectFileType('README')).toBeNull();
+  });
+});
+
+describe('chunkDocument', () => {
+  it('keeps a short document in one chunk', async () => {
+    const chunks = await chunkDocument('markdown', encode('# PTO\n\nRequest time off two weeks ahead.\n\nHolidays are paid.'));
+    expect(chunks).toEqual(['# PTO\n\nRequest time off two weeks ahead.\n\nHolidays are paid.']);
+  });
+
+  it('packs paragraphs into chunks of at most 3200 characters that overlap', async () => {
+    const paragraphs = Array.from({ length: 12 }, (_, index) => `Paragraph ${index} ${'caulk joint sealant '.repeat(30)}`.trim());
+    const chunks = await chunkDocument('markdown', encode(paragraphs.join('\n\n')));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(3200);
+    // Every paragraph lands in some chunk
+    for (const paragraph of paragraphs) {
+      expect(chunks.some(chunk => chunk.includes(paragraph))).toBe(true);
+    }
+    // The next chunk starts with the end of the one before it
+    const tail = chunks[0].slice(-100);
+    expect(chunks[1]).toContain(tail);
+  });
+
+  it('cuts an oversized paragraph on sentence boundaries', async () => {
+    const sentence = 'Anchors are spaced twelve inches on center at jambs. ';
+    const chunks = await chunkDocument('markdown', encode(sentence.repeat(150)));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(3200);
+      expect(chunk.endsWith('jambs.')).toBe(true);
+    }
+  });
+
+  it('labels PDF chunks with their page and never spans pages', async () => {
+    const chunks = await chunkDocument('pdf', await makePdf(['Safety glasses are required on site.', 'Harnesses are required above six feet.']));
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]).toMatch(/^\[Page 1\] .*Safety glasses/);
+    expect(chunks[1]).toMatch(/^\[Page 2\] .*Harnesses/);
+  });
+});
+
+describe('indexing with the stub provider', () => {
+  it('answers questions from indexed chunks with a citation until the document is removed', async () => {
+    const llm = getLLMProvider()!;
+    const chunks = await chunkDocument('markdown', encode('Glazing crews must wear cut-resistant gloves when handling glass.'));
+    const fileId = await llm.indexDocument({ name: 'Safety Manual.md', chunks });
+    expect(await llm.getFileName(fileId)).toBe('Safety Manual.md');
+
+    const ask = async () => {
+      const threadId = await llm.createThread();
+      await llm.addMessage(threadId, 'Which gloves do glazing crews wear?');
+      const events: RunEvent[] = [];
+      for await (const event of await llm.runStream(threadId)) events.push(event);
+      return events;
+    };
+
+    const events = await ask();
+    const text = events.map(event => (event.type === 'text' ? event.text : '')).join('');
+    expect(text).toContain('From Safety Manual.md');
+    expect(events.flatMap(event => (event.type === 'text' && event.annotations) || [])).toEqual([
+      expect.objectContaining({ type: 'file_citation', fileId, quote: chunks[0] })
+    ]);
+
+    await llm.removeDocument(fileId);
+    const after = (await ask()).map(event => (event.type === 'text' ? event.text : '')).join('');
+    expect(after).not.toContain('Safety Manual.md');
+  });
+});
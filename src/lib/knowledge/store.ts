@@ -0,0 +1,109 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { KnowledgeFileType } from './chunking';
+
+// Knowledge base documents in the Supabase `knowledge_documents` table. Every
+// upload of a file name creates a new version; only the active version is in
+// the assistant's index.
+
+export type KnowledgeDocumentStatus = 'active' | 'superseded';
+
+export type KnowledgeDocument = {
+  id: string;
+  name: string;
+  version: number;
+  file_type: KnowledgeFileType;
+  size_bytes: number;
+  chunk_count: number;
+  provider: string;
+  file_id: string | null; // Provider file id, null once removed from the index
+  status: KnowledgeDocumentStatus;
+  uploaded_by: string | null;
+  created_at: string;
+};
+
+export type NewKnowledgeDocument = Omit<KnowledgeDocument, 'id' | 'status' | 'created_at'>;
+
+export async function listDocuments(supabase: SupabaseClient): Promise<KnowledgeDocument[]> {
+  const { data, error } = await supabase
+    .from('knowledge_documents')
+    .select('*')
+    .order('name', { ascending: true })
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('Supabase error listing knowledge documents:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+export async function getDocument(supabase: SupabaseClient, id: string): Promise<KnowledgeDocument | null> {
+  const { data, error } = await supabase
+    .from('knowledge_documents')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error loading knowledge document:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+// All versions of a document, newest first
+export async function getVersions(supabase: SupabaseClient, name: string): Promise<KnowledgeDocument[]> {
+  const { data, error } = await supabase
+    .from('knowledge_documents')
+    .select('*')
+    .eq('name', name)
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('Supabase error loading knowledge document versions:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+export async function insertDocument(supabase: SupabaseClient, document: NewKnowledgeDocument): Promise<KnowledgeDocument> {
+  const { data, error } = await supabase
+    .from('knowledge_documents')
+    .insert({ ...document, status: 'active' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Supabase error saving knowledge document:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+export async function markSuperseded(supabase: SupabaseClient, id: string) {
+  const { error } = await supabase
+    .from('knowledge_documents')
+    .update({ status: 'superseded', file_id: null })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Supabase error updating knowledge document:', error);
+    throw error;
+  }
+}
+
+export async function deleteDocumentRow(supabase: SupabaseClient, id: string) {
+  const { error } = await supabase
+    .from('knowledge_documents')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Supabase error deleting knowledge document:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,30 @@
+import { createOpenAIProvider } from './openai';
+import { createStubProvider } from './stub';
+import type { LLMProvider } from './types';
+
+export type { Annotation, KnowledgeDocumentInput, LLMProvider, RunEvent, RunOptions, RunStatus, RunUsage, ThreadMessage, ToolCall, ToolOutput, ToolSchema } from './types';
+
+// Select the LLM backend with LLM_PROVIDER:
+//   openai (default) - OpenAI Assistants API, needs OPENAI_API_KEY and OPENAI_ASSISTANT_ID.
+//                      OPENAI_VECTOR_STORE_ID overrides the assistant's file_search vector store.
+//   stub             - deterministic offline provider, needs nothing
+// Returns null when the selected provider is not configured.
+export function getLLMProvider(): LLMProvider | null {
+  const providerName = process.env.LLM_PROVIDER || 'openai';
+
+  switch (providerName) {
+    case 'stub':
+      return createStubProvider();
+
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      const assistantId = process.env.OPENAI_ASSISTANT_ID; // Your assistant ID from OpenAI dashboard
+      if (!apiKey || !assistantId) return null;
+      return createOpenAIProvider({ apiKey, assistantId, vectorStoreId: process.env.OPENAI_VECTOR_STORE_ID });
+    }
+
+    default:
+      console.error(`Unknown LLM_PROVIDER: ${providerName}`);
+      return null;
+  }
+}
@@ -0,0 +1,324 @@
+import type { Annotation, LLMProvider, RunEvent, RunOptions, RunStatus, ThreadMessage, ToolCall, ToolOutput } from './types';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// Assistant settings per assistant id, shared across requests
+const assistantCache = new Map<string, Promise<OpenAIAssistant>>();
+
+// Chunking applied when a knowledge document is added to the vector store.
+// Documents are already split into chunks of about this size before upload.
+const KNOWLEDGE_CHUNKING = { type: 'static', static: { max_chunk_size_tokens: 800, chunk_overlap_tokens: 200 } };
+
+type OpenAIConfig = {
+  apiKey: string;
+  assistantId: string;
+  vectorStoreId?: string;
+};
+
+type OpenAIToolCall = {
+  id: string;
+  function: { name: string; arguments: string };
+};
+
+type OpenAITool = { type: string; [key: string]: unknown };
+
+type OpenAIAssistant = {
+  tools?: OpenAITool[];
+  tool_resources?: { file_search?: { vector_store_ids?: string[] } };
+};
+
+type OpenAIAnnotation = {
+  type: string;
+  text: string;
+  file_citation?: { file_id: string; quote?: string };
+  file_path?: { file_id: string };
+};
+
+type OpenAIText = { value?: string; annotations?: OpenAIAnnotation[] };
+
+type OpenAIMessage = {
+  id: string;
+  role: string;
+  created_at: number;
+  content: Array<{ text?: OpenAIText }>;
+};
+
+function toAnnotations(annotations: OpenAIAnnotation[] = []): Annotation[] {
+  return annotations.flatMap((annotation): Annotation[] => {
+    if (annotation.type === 'file_citation' && annotation.file_citation) {
+      return [{
+        type: 'file_citation',
+        text: annotation.text,
+        fileId: annotation.file_citation.file_id,
+        quote: annotation.file_citation.quote || undefined
+      }];
+    }
+    if (annotation.type === 'file_path' && annotation.file_path) {
+      return [{ type: 'file_path', text: annotation.text, fileId: annotation.file_path.file_id }];
+    }
+    return [];
+  });
+}
+
+// Convert a raw Assistants API stream object into a provider-neutral event
+function toRunEvent(data: { object?: string; [key: string]: unknown }): RunEvent | null {
+  switch (data.object) {
+    case 'thread.run': {
+      const run = data as {
+        id: string;
+        status: RunStatus;
+        required_action?: { submit_tool_outputs?: { tool_calls?: OpenAIToolCall[] } };
+        last_error?: { message?: string } | null;
+        usage?: { total_tokens?: number } | null;
+      };
+      const toolCalls: ToolCall[] | undefined = run.required_action?.submit_tool_outputs?.tool_calls?.map(toolCall => ({
+        id: toolCall.id,
+        name: toolCall.function.name,
+        arguments: toolCall.function.arguments
+      }));
+      return {
+        type: 'run',
+        runId: run.id,
+        status: run.status,
+        toolCalls,
+        error: run.last_error?.message,
+        usage: run.usage?.total_tokens !== undefined ? { totalTokens: run.usage.total_tokens } : undefined
+      };
+    }
+
+    case 'thread.message.delta': {
+      const delta = data.delta as { content?: Array<{ text?: OpenAIText }> } | undefined;
+      const content = delta?.content?.[0]?.text;
+      const text = content?.value || '';
+      const annotations = toAnnotations(content?.annotations);
+      if (!text && annotations.length === 0) return null;
+      return { type: 'text', text, annotations: annotations.length > 0 ? annotations : undefined };
+    }
+
+    default:
+      // Steps, message lifecycle events etc. are not needed by the routes
+      return null;
+  }
+}
+
+// Parse the server-sent events returned by a streaming run
+async function* parseRunEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<RunEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        finished = true;
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Process complete lines from the buffer
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+      for (const line of lines) {
+        const trimmedLine = line.trim();
+
+        if (!trimmedLine.startsWith('data: ')) continue;
+
+        const dataContent = trimmedLine.slice(6);
+
+        if (dataContent === '[DONE]') {
+          finished = true;
+          return;
+        }
+        if (!dataContent.trim()) continue;
+
+        try {
+          const event = toRunEvent(JSON.parse(dataContent));
+          if (event) yield event;
+        } catch (e) {
+          // Only log parsing errors for debugging, but don't break the stream
+          console.log('Skipping malformed SSE data:', dataContent, e);
+        }
+      }
+    }
+  } finally {
+    // The consumer stopped early: close the upstream connection instead of leaving it open
+    if (!finished) {
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
+
+export function createOpenAIProvider({ apiKey, assistantId, vectorStoreId }: OpenAIConfig): LLMProvider {
+  // Shared request helper: adds auth headers and turns non-2xx responses into errors.
+  // `form` sends a multipart body (file uploads) instead of JSON.
+  async function request(path: string, action: string, init: { method?: string; body?: object; form?: FormData } = {}) {
+    const response = await fetch(`${OPENAI_BASE_URL}${path}`, {
+      method: init.method || 'GET',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        ...(init.form ? {} : { 'Content-Type': 'application/json' }),
+        'OpenAI-Beta': 'assistants=v2'
+      },
+      body: init.form || (init.body ? JSON.stringify(init.body) : undefined)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`OpenAI ${action} error:`, response.status, errorText);
+      throw new Error(`Failed to ${action}: ${response.status} - ${errorText}`);
+    }
+
+    return response;
+  }
+
+  // Assistant configuration, fetched once per assistant
+  function getAssistant() {
+    let assistant = assistantCache.get(assistantId);
+    if (!assistant) {
+      assistant = request(`/assistants/${assistantId}`, 'retrieve assistant')
+        .then(response => response.json())
+        .catch(error => {
+          assistantCache.delete(assistantId);
+          throw error;
+        });
+      assistantCache.set(assistantId, assistant);
+    }
+    return assistant;
+  }
+
+  // Built-in tools (file_search, code_interpreter) configured on the assistant,
+  // so per-run function tools can be added without dropping them
+  async function getBuiltInTools() {
+    const assistant = await getAssistant();
+    return (assistant.tools || []).filter(tool => tool.type !== 'function');
+  }
+
+  // Vector store searched by the assistant's file_search tool
+  async function getVectorStoreId() {
+    if (vectorStoreId) return vectorStoreId;
+
+    const assistant = await getAssistant();
+    const assistantVectorStoreId = assistant.tool_resources?.file_search?.vector_store_ids?.[0];
+    if (!assistantVectorStoreId) {
+      throw new Error('The assistant has no file_search vector store; attach one or set OPENAI_VECTOR_STORE_ID');
+    }
+    return assistantVectorStoreId;
+  }
+
+  async function runBody(options: RunOptions = {}) {
+    const body: Record<string, unknown> = { assistant_id: assistantId };
+    if (options.additionalInstructions) {
+      body.additional_instructions = options.additionalInstructions;
+    }
+    if (options.tools) {
+      const functionTools = options.tools.map(tool => ({ type: 'function', function: tool }));
+      body.tools = [...await getBuiltInTools(), ...functionTools];
+    }
+    return body;
+  }
+
+  async function stream(path: string, action: string, body: object) {
+    const response = await request(path, action, { method: 'POST', body: { ...body, stream: true } });
+
+    if (!response.body) {
+      throw new Error('No response body');
+    }
+
+    return parseRunEvents(response.body);
+  }
+
+  return {
+    name: 'openai',
+
+    async createThread() {
+      const response = await request('/threads', 'create thread', { method: 'POST' });
+      const threadData = await response.json();
+      return threadData.id;
+    },
+
+    async addMessage(threadId, content) {
+      await request(`/threads/${threadId}/messages`, 'add message to thread', {
+        method: 'POST',
+        body: { role: 'user', content }
+      });
+    },
+
+    async runStream(threadId, options) {
+      return stream(`/threads/${threadId}/runs`, 'start assistant run', await runBody(options));
+    },
+
+    submitToolOutputs(threadId, runId, outputs: ToolOutput[]) {
+      return stream(`/threads/${threadId}/runs/${runId}/submit_tool_outputs`, 'submit tool outputs', {
+        tool_outputs: outputs.map(output => ({ tool_call_id: output.toolCallId, output: output.output }))
+      });
+    },
+
+    async cancelRun(threadId, runId) {
+      await request(`/threads/${threadId}/runs/${runId}/cancel`, 'cancel run', { method: 'POST' });
+    },
+
+    async listMessages(threadId) {
+      const response = await request(`/threads/${threadId}/messages?order=asc&limit=100`, 'retrieve messages');
+      const messagesData: { data: OpenAIMessage[] } = await response.json();
+
+      return messagesData.data.map((msg): ThreadMessage => ({
+        id: msg.id,
+        role: msg.role === 'user' ? 'user' : 'assistant',
+        text: msg.content[0]?.text?.value || '',
+        annotations: toAnnotations(msg.content[0]?.text?.annotations),
+        createdAt: msg.created_at * 1000
+      }));
+    },
+
+    async deleteThread(threadId) {
+      await request(`/threads/${threadId}`, 'delete thread', { method: 'DELETE' });
+    },
+
+    async getFileName(fileId) {
+      try {
+        const response = await request(`/files/${fileId}`, 'retrieve file');
+        const file: { filename?: string } = await response.json();
+        return file.filename || null;
+      } catch {
+        return null;
+      }
+    },
+
+    async indexDocument({ name, chunks }) {
+      const storeId = await getVectorStoreId();
+
+      // Upload the pre-chunked text; page labels in the chunks end up in citation quotes
+      const form = new FormData();
+      form.append('purpose', 'assistants');
+      form.append('file', new Blob([chunks.join('\n\n')], { type: 'text/markdown' }), `${name.replace(/\.[^.]+$/, '')}.md`);
+      const uploadResponse = await request('/files', 'upload file', { method: 'POST', form });
+      const file: { id: string } = await uploadResponse.json();
+
+      try {
+        await request(`/vector_stores/${storeId}/files`, 'add file to vector store', {
+          method: 'POST',
+          body: { file_id: file.id, chunking_strategy: KNOWLEDGE_CHUNKING }
+        });
+      } catch (error) {
+        // Do not leave an orphaned upload behind
+        await request(`/files/${file.id}`, 'delete file', { method: 'DELETE' }).catch(() => {});
+        throw error;
+      }
+
+      return file.id;
+    },
+
+    async removeDocument(fileId) {
+      const storeId = await getVectorStoreId();
+      await request(`/vector_stores/${storeId}/files/${fileId}`, 'remove file from vector store', { method: 'DELETE' })
+        .catch(error => console.error('Error removing file from vector store:', error));
+      await request(`/files/${fileId}`, 'delete file', { method: 'DELETE' });
+    }
+  };
+}
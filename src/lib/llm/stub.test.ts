@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { getLLMProvider, type RunEvent } from '@/lib/llm';
+
+async function collect(events: AsyncIterable<RunEvent>) {
+  const collected: RunEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+function replyText(events: RunEvent[]) {
+  return events.map(event => (event.type === 'text' ? event.text : '')).join('');
+}
+
+function lastStatus(events: RunEvent[]) {
+  const runEvents = events.filter(event => event.type === 'run');
+  return runEvents[runEvents.length - 1];
+}
+
+describe('stub LLM provider', () => {
+  const llm = getLLMProvider()!;
+
+  it('is selected by LLM_PROVIDER=stub', () => {
+    expect(llm.name).toBe('stub');
+  });
+
+  it('answers from the question and records both messages', async () => {
+    const threadId = await llm.createThread();
+    await llm.addMessage(threadId, 'What is the lead time on 1" IGUs?');
+
+    const events = await collect(await llm.runStream(threadId));
+    expect(replyText(events)).toContain('You asked: "What is the lead time on 1" IGUs?"');
+    expect(lastStatus(events)).toMatchObject({ status: 'completed' });
+
+    const messages = await llm.listMessages(threadId);
+    expect(messages.map(message => message.role)).toEqual(['user', 'assistant']);
+  });
+
+  it('stops for /tool commands, one round per line', async () => {
+    const threadId = await llm.createThread();
+    await llm.addMessage(threadId, '/tool web_search {"query": "Kawneer 451T"} && /tool lookup_contact {"query": "owner"}\n/tool calculate_bid {}');
+
+    const first = lastStatus(await collect(await llm.runStream(threadId)));
+    expect(first).toMatchObject({ status: 'requires_action' });
+    if (first?.type !== 'run' || !first.toolCalls) throw new Error('Expected tool calls');
+    expect(first.toolCalls.map(call => call.name)).toEqual(['web_search', 'lookup_contact']);
+    expect(JSON.parse(first.toolCalls[0].arguments)).toEqual({ query: 'Kawneer 451T' });
+
+    const outputs = first.toolCalls.map(call => ({ toolCallId: call.id, output: `"${call.name} done"` }));
+    const second = lastStatus(await collect(await llm.submitToolOutputs(threadId, first.runId, outputs)));
+    if (second?.type !== 'run' || !second.toolCalls) throw new Error('Expected a second round');
+    expect(second.toolCalls.map(call => call.name)).toEqual(['calculate_bid']);
+
+    const final = await collect(await llm.submitToolOutputs(threadId, second.runId, [{ toolCallId: second.toolCalls[0].id, output: '{"total": 1}' }]));
+    expect(replyText(final)).toContain('web_search returned: "web_search done"');
+    expect(replyText(final)).toContain('calculate_bid returned: {"total": 1}');
+    expect(lastStatus(final)).toMatchObject({ status: 'completed' });
+  });
+
+  it('attaches a file citation for /cite', async () => {
+    const threadId = await llm.createThread();
+    await llm.addMessage(threadId, '/cite Break times are 15 minutes.');
+
+    const events = await collect(await llm.runStream(threadId));
+    const annotations = events.flatMap(event => (event.type === 'text' && event.annotations) || []);
+    expect(annotations).toEqual([
+      expect.objectContaining({ type: 'file_citation', fileId: 'file_stub_handbook', quote: 'Break times are 15 minutes.' })
+    ]);
+    expect(await llm.getFileName('file_stub_handbook')).toBe('First Glass Employee Handbook.pdf');
+  });
+
+  it('echoes additional instructions for /instructions', async () => {
+    const threadId = await llm.createThread();
+    await llm.addMessage(threadId, '/instructions');
+
+    const events = await collect(await llm.runStream(threadId, { additionalInstructions: 'Project: Baptist Health' }));
+    expect(replyText(events)).toContain('Project: Baptist Health');
+  });
+
+  it('stops a replying run when it is cancelled', async () => {
+    const threadId = await llm.createThread();
+    await llm.addMessage(threadId, 'Tell me about storefront framing');
+
+    const events: RunEvent[] = [];
+    for await (const event of await llm.runStream(threadId)) {
+      events.push(event);
+      if (event.type === 'run' && event.status === 'in_progress') {
+        await llm.cancelRun(threadId, event.runId);
+      }
+    }
+    expect(lastStatus(events)).toMatchObject({ status: 'cancelled' });
+    expect(await llm.listMessages(threadId)).toHaveLength(1);
+  });
+});
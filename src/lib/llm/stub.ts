@@ -0,0 +1,221 @@
+import type { Annotation, KnowledgeDocumentInput, LLMProvider, RunEvent, ThreadMessage, ToolCall, ToolOutput } from './types';
+
+// Deterministic offline provider. No network, no API key: replies are derived
+// from the user's message so the app can be exercised end to end on a laptop.
+//
+// A message of the form `/tool <name> <json arguments>` makes the run stop
+// with `requires_action` for that tool, so the tool-calling path can be tested too.
+// Each `/tool` line is a separate round; `/tool` commands joined with ` && ` on
+// one line are requested together in the same round.
+//
+// `/cite <passage>` answers with a file citation quoting the passage from a
+// stub document, for exercising the citation path.
+//
+// `/instructions` answers with the additional instructions the run was given,
+// such as the chat's job context.
+//
+// Indexed knowledge documents are kept in memory. Questions that share words
+// with an indexed chunk are answered by quoting the best matching chunk, with
+// a citation, standing in for file_search.
+
+type StubRun = {
+  id: string;
+  threadId: string;
+  rounds: ToolCall[][]; // Remaining rounds, current one first
+  results: string[];
+};
+
+type StubState = {
+  counter: number;
+  threads: Map<string, ThreadMessage[]>;
+  runs: Map<string, StubRun>;
+  cancelledRuns: Set<string>;
+  documents: Map<string, KnowledgeDocumentInput>; // Indexed documents by file id
+};
+
+// Keep state on globalThis so it survives module reloads in `next dev`
+const globalStore = globalThis as typeof globalThis & { __stubLLMState?: StubState };
+
+function getState(): StubState {
+  if (!globalStore.__stubLLMState) {
+    globalStore.__stubLLMState = { counter: 0, threads: new Map(), runs: new Map(), cancelledRuns: new Set(), documents: new Map() };
+  }
+  return globalStore.__stubLLMState;
+}
+
+// Uploaded files known to the stub, by file id
+const STUB_FILES: Record<string, string> = {
+  file_stub_handbook: 'First Glass Employee Handbook.pdf'
+};
+
+function nextId(prefix: string) {
+  const state = getState();
+  state.counter += 1;
+  return `${prefix}_stub_${state.counter}`;
+}
+
+function getThread(threadId: string) {
+  const thread = getState().threads.get(threadId);
+  if (!thread) {
+    throw new Error(`Thread not found: ${threadId}`);
+  }
+  return thread;
+}
+
+function parseToolCommand(command: string): ToolCall | null {
+  const match = command.trim().match(/^\/tool\s+(\S+)\s*([\s\S]*)$/);
+  if (!match) return null;
+  return { id: nextId('call'), name: match[1], arguments: match[2].trim() || '{}' };
+}
+
+function parseToolRounds(content: string): ToolCall[][] {
+  return content
+    .split('\n')
+    .map(line => line.split(' && ').map(parseToolCommand))
+    .filter((calls): calls is ToolCall[] => calls.length > 0 && calls.every(call => call !== null));
+}
+
+// Best matching indexed chunk for a question, scored by shared words
+function searchDocuments(question: string) {
+  const words = new Set(question.toLowerCase().match(/[a-z0-9]{4,}/g) || []);
+  let best: { fileId: string; name: string; chunk: string; score: number } | null = null;
+
+  for (const [fileId, document] of getState().documents) {
+    for (const chunk of document.chunks) {
+      const chunkWords = new Set(chunk.toLowerCase().match(/[a-z0-9]{4,}/g) || []);
+      const score = [...words].filter(word => chunkWords.has(word)).length;
+      if (score > 0 && (!best || score > best.score)) {
+        best = { fileId, name: document.name, chunk, score };
+      }
+    }
+  }
+
+  return best;
+}
+
+// Emit the reply as word-sized text events, then complete the run. Annotations
+// travel with the word containing their marker, as they do with OpenAI.
+async function* replyEvents(threadId: string, runId: string, reply: string, annotations: Annotation[] = []): AsyncGenerator<RunEvent> {
+  yield { type: 'run', runId, status: 'in_progress' };
+
+  for (const word of reply.match(/\S+\s*/g) || []) {
+    if (getState().cancelledRuns.delete(runId)) {
+      yield { type: 'run', runId, status: 'cancelled' };
+      return;
+    }
+    const wordAnnotations = annotations.filter(annotation => word.includes(annotation.text));
+    yield { type: 'text', text: word, annotations: wordAnnotations.length > 0 ? wordAnnotations : undefined };
+  }
+
+  getThread(threadId).push({ id: nextId('msg'), role: 'assistant', text: reply, annotations, createdAt: Date.now() });
+  yield { type: 'run', runId, status: 'completed' };
+}
+
+async function* requiresActionEvents(run: StubRun): AsyncGenerator<RunEvent> {
+  yield { type: 'run', runId: run.id, status: 'requires_action', toolCalls: run.rounds[0] };
+}
+
+export function createStubProvider(): LLMProvider {
+  return {
+    name: 'stub',
+
+    async createThread() {
+      const threadId = nextId('thread');
+      getState().threads.set(threadId, []);
+      return threadId;
+    },
+
+    async addMessage(threadId, content) {
+      getThread(threadId).push({ id: nextId('msg'), role: 'user', text: content, createdAt: Date.now() });
+    },
+
+    async runStream(threadId, options = {}) {
+      const thread = getThread(threadId);
+      const lastUserMessage = [...thread].reverse().find(msg => msg.role === 'user');
+      const runId = nextId('run');
+
+      const rounds = lastUserMessage ? parseToolRounds(lastUserMessage.text) : [];
+      if (rounds.length > 0) {
+        const run: StubRun = { id: runId, threadId, rounds, results: [] };
+        getState().runs.set(runId, run);
+        return requiresActionEvents(run);
+      }
+
+      if (lastUserMessage?.text.trim() === '/instructions') {
+        return replyEvents(threadId, runId, `[stub] Additional instructions: ${options.additionalInstructions || '(none)'}`);
+      }
+
+      const citeMatch = lastUserMessage?.text.trim().match(/^\/cite\s+([\s\S]+)$/);
+      if (citeMatch) {
+        const marker = '【0:0†source】';
+        const annotation: Annotation = { type: 'file_citation', text: marker, fileId: 'file_stub_handbook', quote: citeMatch[1].trim() };
+        return replyEvents(threadId, runId, `[stub] The handbook covers this.${marker} This reply comes from the offline stub provider.`, [annotation]);
+      }
+
+      const match = lastUserMessage ? searchDocuments(lastUserMessage.text) : null;
+      if (match) {
+        const marker = '【0:0†source】';
+        const annotation: Annotation = { type: 'file_citation', text: marker, fileId: match.fileId, quote: match.chunk };
+        const excerpt = match.chunk.length > 200 ? `${match.chunk.slice(0, 200)}…` : match.chunk;
+        return replyEvents(threadId, runId, `[stub] From ${match.name}: ${excerpt}${marker}`, [annotation]);
+      }
+
+      const reply = lastUserMessage
+        ? `[stub] You asked: "${lastUserMessage.text.trim()}". This reply comes from the offline stub provider.`
+        : '[stub] Hi! How can I help you today?';
+      return replyEvents(threadId, runId, reply);
+    },
+
+    async submitToolOutputs(threadId, runId, outputs: ToolOutput[]) {
+      const run = getState().runs.get(runId);
+      if (!run || run.threadId !== threadId) {
+        throw new Error(`Run not found: ${runId}`);
+      }
+
+      const toolCalls = run.rounds.shift() || [];
+      for (const toolCall of toolCalls) {
+        const output = outputs.find(o => o.toolCallId === toolCall.id);
+        run.results.push(`${toolCall.name} returned: ${output ? output.output : '(no output)'}`);
+      }
+
+      // More rounds requested: stop again for the next tool calls
+      if (run.rounds.length > 0) {
+        return requiresActionEvents(run);
+      }
+
+      getState().runs.delete(runId);
+      const summary = run.results.join('\n');
+      return replyEvents(threadId, runId, `[stub] ${summary}`);
+    },
+
+    async cancelRun(threadId, runId) {
+      const state = getState();
+      // A run waiting for tool outputs is simply dropped; a replying run stops at the next word
+      if (!state.runs.delete(runId)) {
+        state.cancelledRuns.add(runId);
+      }
+    },
+
+    async listMessages(threadId) {
+      return [...getThread(threadId)];
+    },
+
+    async deleteThread(threadId) {
+      getState().threads.delete(threadId);
+    },
+
+    async getFileName(fileId) {
+      return getState().documents.get(fileId)?.name || STUB_FILES[fileId] || null;
+    },
+
+    async indexDocument(document) {
+      const fileId = nextId('file');
+      getState().documents.set(fileId, { name: document.name, chunks: [...document.chunks] });
+      return fileId;
+    },
+
+    async removeDocument(fileId) {
+      getState().documents.delete(fileId);
+    }
+  };
+}
@@ -0,0 +1,84 @@
+// Provider-neutral types shared by every LLM backend
+
+export type RunStatus =
+  | 'queued'
+  | 'in_progress'
+  | 'requires_action'
+  | 'cancelling'
+  | 'cancelled'
+  | 'failed'
+  | 'completed'
+  | 'incomplete'
+  | 'expired';
+
+export type ToolCall = {
+  id: string;
+  name: string;
+  arguments: string; // Raw JSON string as produced by the model
+};
+
+// Function tool offered to the model for a run
+export type ToolSchema = {
+  name: string;
+  description: string;
+  parameters: object; // JSON schema
+};
+
+export type RunOptions = {
+  tools?: ToolSchema[];
+  additionalInstructions?: string; // Appended to the assistant's instructions for this run only
+};
+
+// Source reference attached to assistant text (file_search citations, generated files)
+export type Annotation = {
+  type: 'file_citation' | 'file_path';
+  text: string; // Marker in the message text that the annotation replaces, e.g. 【4:0†source】
+  fileId: string;
+  quote?: string;
+};
+
+export type ToolOutput = {
+  toolCallId: string;
+  output: string;
+};
+
+// Model tokens used by a run so far, reported once it finishes
+export type RunUsage = {
+  totalTokens: number;
+};
+
+// Events emitted while a run is streaming
+export type RunEvent =
+  | { type: 'run'; runId: string; status: RunStatus; toolCalls?: ToolCall[]; error?: string; usage?: RunUsage }
+  | { type: 'text'; text: string; annotations?: Annotation[] };
+
+export type ThreadMessage = {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  annotations?: Annotation[];
+  createdAt: number;
+};
+
+// Company document prepared for the assistant's knowledge base
+export type KnowledgeDocumentInput = {
+  name: string;
+  chunks: string[]; // Text chunks in document order
+};
+
+export interface LLMProvider {
+  readonly name: string;
+  createThread(): Promise<string>;
+  addMessage(threadId: string, content: string): Promise<void>;
+  runStream(threadId: string, options?: RunOptions): Promise<AsyncIterable<RunEvent>>;
+  submitToolOutputs(threadId: string, runId: string, outputs: ToolOutput[]): Promise<AsyncIterable<RunEvent>>;
+  cancelRun(threadId: string, runId: string): Promise<void>;
+  // Messages in chronological order (oldest first)
+  listMessages(threadId: string): Promise<ThreadMessage[]>;
+  deleteThread(threadId: string): Promise<void>;
+  // Display name of an uploaded file, null when it no longer exists
+  getFileName(fileId: string): Promise<string | null>;
+  // Add a document to the knowledge base searched by the assistant; returns its file id
+  indexDocument(document: KnowledgeDocumentInput): Promise<string>;
+  removeDocument(fileId: string): Promise<void>;
+}
@@ -0,0 +1,80 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Citation } from '@/lib/citations';
+
+// Conversation history stored in the Supabase `messages` table, so it does not
+// depend on the LLM provider keeping its threads around.
+
+export type MessageRole = 'user' | 'assistant';
+
+export type MessageAttachment = {
+  type: string;
+  name: string;
+  url?: string;
+};
+
+export type StoredToolCall = {
+  id: string;
+  name: string;
+  arguments: string;
+  output?: string;
+};
+
+export type StoredMessage = {
+  id: string;
+  chat_id: string;
+  user_id: string;
+  role: MessageRole;
+  content: string;
+  attachments: MessageAttachment[];
+  tool_calls: StoredToolCall[];
+  citations: Citation[];
+  interrupted: boolean;
+  created_at: string;
+};
+
+export type NewMessage = {
+  chatId: string;
+  userId: string;
+  role: MessageRole;
+  content: string;
+  attachments?: MessageAttachment[];
+  toolCalls?: StoredToolCall[];
+  citations?: Citation[];
+  interrupted?: boolean;
+};
+
+export async function saveMessage(supabase: SupabaseClient, message: NewMessage) {
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      chat_id: message.chatId,
+      user_id: message.userId,
+      role: message.role,
+      content: message.content,
+      attachments: message.attachments || [],
+      tool_calls: message.toolCalls || [],
+      citations: message.citations || [],
+      interrupted: message.interrupted || false
+    });
+
+  if (error) {
+    console.error('Supabase error saving message:', error);
+    throw error;
+  }
+}
+
+// Messages for a chat in chronological order (oldest first)
+export async function loadMessages(supabase: SupabaseClient, chatId: string): Promise<StoredMessage[]> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Supabase error loading messages:', error);
+    throw error;
+  }
+
+  return data || [];
+}
@@ -0,0 +1,243 @@
+import { lookup } from 'node:dns/promises';
+import http, { type IncomingMessage } from 'node:http';
+import https from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+
+// Fetch for user-supplied URLs. Guards against SSRF by resolving every hostname
+// (including each redirect hop) and refusing private, loopback, link-local and
+// other non-public addresses, and caps how many bytes are read. Hostnames are
+// checked in the connection's own DNS lookup, so the address that was checked
+// is the one connected to and a rebinding DNS server cannot swap it.
+
+const MAX_REDIRECTS = 5;
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+export type SafeFetchOptions = {
+  maxBytes: number;
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+};
+
+export type SafeFetchResult = {
+  url: string; // Final URL after redirects
+  status: number;
+  contentType: string;
+  body: Uint8Array;
+};
+
+function ipv4ToNumber(address: string) {
+  return address.split('.').reduce((acc, octet) => (acc << 8) + Number(octet), 0) >>> 0;
+}
+
+// [network, prefix length] ranges that must never be fetched
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],        // "This" network
+  ['10.0.0.0', 8],       // Private
+  ['100.64.0.0', 10],    // Carrier-grade NAT
+  ['127.0.0.0', 8],      // Loopback
+  ['169.254.0.0', 16],   // Link-local, cloud metadata endpoints
+  ['172.16.0.0', 12],    // Private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.0.2.0', 24],     // Documentation
+  ['192.168.0.0', 16],   // Private
+  ['198.18.0.0', 15],    // Benchmarking
+  ['198.51.100.0', 24],  // Documentation
+  ['203.0.113.0', 24],   // Documentation
+  ['224.0.0.0', 4],      // Multicast
+  ['240.0.0.0', 4],      // Reserved, broadcast
+];
+
+function isBlockedIPv4(address: string) {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+    return (value & mask) === (ipv4ToNumber(network) & mask);
+  });
+}
+
+// The 16 bytes of an IPv6 address, null when it is not one. Accepts every
+// textual form: compressed (::), a dotted IPv4 tail and a %zone suffix.
+function ipv6ToBytes(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (isIP(dotted[2]) !== 4) return null;
+    const value = ipv4ToNumber(dotted[2]);
+    text = `${dotted[1]}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(missing).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+// [network, prefix length] ranges that must never be fetched
+const BLOCKED_IPV6_RANGES: Array<[string, number]> = [
+  ['64:ff9b::', 96],     // NAT64
+  ['64:ff9b:1::', 48],   // Local-use NAT64
+  ['100::', 64],         // Discard
+  ['2001::', 32],        // Teredo
+  ['2001:db8::', 32],    // Documentation
+  ['fc00::', 7],         // Unique local
+  ['fe80::', 10],        // Link-local
+  ['fec0::', 10],        // Site-local (deprecated)
+  ['ff00::', 8],         // Multicast
+];
+
+function inPrefix(bytes: number[], network: number[], prefix: number) {
+  for (let bit = 0; bit < prefix; bit += 8) {
+    const bits = Math.min(8, prefix - bit);
+    const mask = (0xff << (8 - bits)) & 0xff;
+    if ((bytes[bit / 8] & mask) !== (network[bit / 8] & mask)) return false;
+  }
+  return true;
+}
+
+function isBlockedIPv6(address: string) {
+  const bytes = ipv6ToBytes(address);
+  if (!bytes) return true;
+
+  // IPv4-mapped (::ffff:0:0/96) and IPv4-compatible (::/96, which includes ::
+  // and ::1) addresses reach the embedded IPv4 address, whichever way they
+  // are written, so they are checked against the IPv4 ranges
+  const embedded = bytes.slice(12).join('.');
+  if (bytes.slice(0, 10).every(byte => byte === 0)) {
+    const marker = (bytes[10] << 8) | bytes[11];
+    if (marker === 0xffff || marker === 0) return isBlockedIPv4(embedded);
+  }
+
+  // 6to4 (2002::/16) carries an IPv4 address in bytes 2 to 5
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) {
+    return isBlockedIPv4(bytes.slice(2, 6).join('.'));
+  }
+
+  return BLOCKED_IPV6_RANGES.some(([network, prefix]) => inPrefix(bytes, ipv6ToBytes(network)!, prefix));
+}
+
+export function isBlockedAddress(address: string) {
+  const version = isIP(address);
+  if (version === 4) return isBlockedIPv4(address);
+  if (version === 6) return isBlockedIPv6(address);
+  return true;
+}
+
+function blockedHostError(hostname: string) {
+  return new UnsafeUrlError(`Refusing to fetch ${hostname}: it resolves to a private or reserved address`);
+}
+
+// IP literals never reach the DNS lookup below, so they are checked here
+function assertPublicUrl(url: URL) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnsafeUrlError(`Only http and https URLs can be fetched (got ${url.protocol})`);
+  }
+  if (url.username || url.password) {
+    throw new UnsafeUrlError('URLs with credentials cannot be fetched');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isBlockedAddress(hostname)) {
+    throw blockedHostError(url.hostname);
+  }
+}
+
+// DNS lookup used by the connection: refuses the host if any of its addresses
+// is blocked, otherwise hands the checked addresses to the socket
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { all: true, verbatim: true, family: options.family }).then(entries => {
+    if (entries.length === 0 || entries.some(entry => isBlockedAddress(entry.address))) {
+      callback(blockedHostError(hostname), '', 0);
+    } else if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  }, error => callback(error, '', 0));
+};
+
+function request(url: URL, { signal, headers }: Pick<SafeFetchOptions, 'signal' | 'headers'>) {
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise<IncomingMessage>((resolve, reject) => {
+    client
+      .get(url, { headers, signal, lookup: publicLookup }, resolve)
+      .on('error', reject);
+  });
+}
+
+// Read at most maxBytes from the body, failing instead of buffering more
+async function readLimited(response: IncomingMessage, maxBytes: number) {
+  const declaredLength = Number(response.headers['content-length']);
+  if (declaredLength > maxBytes) {
+    response.destroy();
+    throw new Error(`Response is too large (${declaredLength} bytes, limit ${maxBytes})`);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    total += chunk.byteLength;
+    if (total > maxBytes) {
+      response.destroy();
+      throw new Error(`Response is too large (over ${maxBytes} bytes)`);
+    }
+    chunks.push(chunk);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+export async function safeFetch(rawUrl: string, { maxBytes, signal, headers }: SafeFetchOptions): Promise<SafeFetchResult> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new UnsafeUrlError(`Invalid URL: ${rawUrl}`);
+  }
+
+  // Follow redirects manually so every hop is checked
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertPublicUrl(url);
+
+    const response = await request(url, { signal, headers });
+    const status = response.statusCode || 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      url = new URL(location, url);
+      continue;
+    }
+
+    return {
+      url: url.toString(),
+      status,
+      contentType: (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase(),
+      body: await readLimited(response, maxBytes)
+    };
+  }
+
+  throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+}
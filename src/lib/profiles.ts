@@ -0,0 +1,151 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Staff roles, stored in `profiles.role`. A profile is created with the
+// employee role when someone signs up; admins assign the rest at /admin/users.
+// Profiles also record whether the account is approved: company addresses are
+// approved on their first request, anyone else needs an invite or an admin.
+// Revoked accounts stay locked out, company address or not.
+
+export type Role = 'employee' | 'field' | 'estimator' | 'project_manager' | 'admin';
+
+export const ROLES: Role[] = ['employee', 'field', 'estimator', 'project_manager', 'admin'];
+
+export const DEFAULT_ROLE: Role = 'employee';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  employee: 'Employee',
+  field: 'Field',
+  estimator: 'Estimator',
+  project_manager: 'Project manager',
+  admin: 'Admin'
+};
+
+export type ProfileStatus = 'pending' | 'approved' | 'revoked';
+
+export const PROFILE_STATUSES: ProfileStatus[] = ['pending', 'approved', 'revoked'];
+
+// Roles that can use the pricing tools and see markup, margins and labor rates
+export const PRICING_ROLES: Role[] = ['estimator', 'project_manager', 'admin'];
+
+// Roles that can look up restricted contacts, such as the owner's email and phone
+export const RESTRICTED_CONTACT_ROLES: Role[] = ['estimator', 'project_manager', 'admin'];
+
+export type Profile = {
+  id: string; // Same as the auth user id
+  email: string | null;
+  full_name: string | null;
+  role: Role;
+  status: ProfileStatus;
+  created_at: string;
+  updated_at: string;
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+export function isProfileStatus(value: unknown): value is ProfileStatus {
+  return typeof value === 'string' && (PROFILE_STATUSES as string[]).includes(value);
+}
+
+export function canSeePricing(role: Role) {
+  return PRICING_ROLES.includes(role);
+}
+
+export function canSeeRestrictedContacts(role: Role) {
+  return RESTRICTED_CONTACT_ROLES.includes(role);
+}
+
+// Email domains approved without an invite, from ALLOWED_EMAIL_DOMAINS
+// (comma-separated, default firstglassar.com)
+export function allowedEmailDomains() {
+  return (process.env.ALLOWED_EMAIL_DOMAINS || 'firstglassar.com')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase().replace(/^@/, ''))
+    .filter(Boolean);
+}
+
+export function isAllowedEmailDomain(email: string | null | undefined) {
+  const domain = email?.split('@')[1]?.toLowerCase();
+  return !!domain && allowedEmailDomains().includes(domain);
+}
+
+// The user's role and approval, read with their own client (RLS lets users
+// read their own profile). Falls back to the least-privileged role and
+// pending when there is no profile or it cannot be read.
+export async function getProfileAccess(supabase: SupabaseClient, userId: string): Promise<{ role: Role; status: ProfileStatus }> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('role, status')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error loading profile:', error);
+  }
+  return {
+    role: isRole(data?.role) ? data.role : DEFAULT_ROLE,
+    status: isProfileStatus(data?.status) ? data.status : 'pending'
+  };
+}
+
+// Mark the user approved, creating the profile if the sign-up trigger has
+// not. Needs the service-role client.
+export async function approveProfile(supabase: SupabaseClient, user: { id: string; email?: string | null }) {
+  const { error } = await supabase
+    .from('profiles')
+    .upsert({ id: user.id, email: user.email ?? null, status: 'approved' }, { onConflict: 'id' });
+
+  if (error) {
+    console.error('Supabase error approving profile:', error);
+    throw error;
+  }
+}
+
+// Everyone's profile, for the admin page. Needs the service-role client.
+export async function listProfiles(supabase: SupabaseClient): Promise<Profile[]> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .order('email', { ascending: true });
+
+  if (error) {
+    console.error('Supabase error listing profiles:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+// Change a user's role or approval; null when there is no such profile.
+// Needs the service-role client.
+export async function updateProfile(supabase: SupabaseClient, userId: string, fields: { role?: Role; status?: ProfileStatus }): Promise<Profile | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update(fields)
+    .eq('id', userId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error updating profile:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+// Run instructions telling the assistant who it is talking to. Company
+// documents can mention pricing and staff contact details, so roles without
+// access are told not to repeat them; the pricing tools are withheld from
+// them and restricted contacts are left out of their lookups as well.
+export function roleInstructions(role: Role) {
+  const lines = [`The user is signed in as: ${ROLE_LABELS[role]}.`];
+  if (!canSeePricing(role)) {
+    lines.push('This role does not have access to pricing. Do not share markup or margin percentages, labor rates, bid prices, equipment rental rates or other cost figures, including ones found in company documents. If asked, say that pricing is available to estimators, project managers and admins.');
+  }
+  if (!canSeeRestrictedContacts(role)) {
+    lines.push("This role cannot look up restricted contacts, such as the owner. Do not share their email addresses or phone numbers from company documents or from memory; only give out what lookup_contact returns. If asked, say an estimator, project manager or admin can help.");
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFeedToken, projectsToIcs, verifyFeedToken, type Project } from '@/lib/projects';
+
+function project(fields: Partial<Project>): Project {
+  return {
+    id: 'p1',
+    name: 'Riverside Clinic',
+    gc_name: null,
+    bid_date: '2025-08-31',
+    project_manager: null,
+    estimator: null,
+    status: 'pending',
+    scope: null,
+    created_by: null,
+    created_at: '2025-08-01T12:00:00.000Z',
+    updated_at: '2025-08-02T15:30:45.123Z',
+    ...fields
+  };
+}
+
+const NOW = new Date('2025-08-20T09:00:00.000Z');
+
+describe('projectsToIcs', () => {
+  it('writes an all-day event on the bid date', () => {
+    const ics = projectsToIcs([project({ gc_name: 'Nabholz', estimator: 'Sam', status: 'won' })], NOW);
+    const lines = ics.split('\r\n');
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('UID:project-p1@firstglassar.com');
+    expect(lines).toContain('DTSTAMP:20250820T090000Z');
+    expect(lines).toContain('LAST-MODIFIED:20250802T153045Z');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250831');
+    expect(lines).toContain('DTEND;VALUE=DATE:20250901');
+    expect(lines).toContain('SUMMARY:Bid (won): Riverside Clinic – Nabholz');
+    expect(lines).toContain('DESCRIPTION:GC: Nabholz\\nEstimator: Sam\\nStatus: won');
+  });
+
+  it('skips projects without a bid date', () => {
+    const ics = projectsToIcs([project({ bid_date: null }), project({ id: 'p2' })], NOW);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain('UID:project-p2@firstglassar.com');
+  });
+
+  it('escapes text and folds long lines at 75 octets', () => {
+    const ics = projectsToIcs([project({ name: 'Smith, Jones; Co\\Annex', scope: 'Storefront – '.repeat(10) })], NOW);
+    const lines = ics.split('\r\n');
+
+    expect(lines).toContain('SUMMARY:Bid: Smith\\, Jones\\; Co\\\\Annex');
+    expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+
+    const unfolded = ics.replace(/\r\n /g, '');
+    expect(unfolded).toContain(`Scope: ${'Storefront – '.repeat(10)}`);
+  });
+});
+
+describe('feed tokens', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('round-trips a user id and rejects forged tokens', () => {
+    vi.stubEnv('CALENDAR_FEED_SECRET', 'test-secret');
+    const token = createFeedToken('user-1');
+
+    expect(token).not.toBeNull();
+    expect(verifyFeedToken(token)).toBe('user-1');
+    expect(verifyFeedToken(`${Buffer.from('user-2').toString('base64url')}.${token!.split('.')[1]}`)).toBeNull();
+    expect(verifyFeedToken('garbage')).toBeNull();
+    expect(verifyFeedToken(null)).toBeNull();
+
+    vi.stubEnv('CALENDAR_FEED_SECRET', 'rotated');
+    expect(verifyFeedToken(token)).toBeNull();
+  });
+
+  it('issues no tokens without a secret', () => {
+    vi.stubEnv('CALENDAR_FEED_SECRET', '');
+    expect(createFeedToken('user-1')).toBeNull();
+  });
+});
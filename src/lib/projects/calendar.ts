@@ -0,0 +1,119 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { addDays } from './dates';
+import type { Project } from './store';
+
+// ICS feed of bid dates. Calendar apps cannot sign in, so each user gets a
+// feed URL with a token signed with CALENDAR_FEED_SECRET. Changing the secret
+// revokes every feed URL handed out.
+
+const FEED_TOKEN_PURPOSE = 'bid-calendar';
+
+function feedSecret() {
+  return process.env.CALENDAR_FEED_SECRET || null;
+}
+
+function sign(userId: string, secret: string) {
+  return createHmac('sha256', secret).update(`${FEED_TOKEN_PURPOSE}:${userId}`).digest('base64url');
+}
+
+// Token for a user's feed URL, null when the feed is not configured
+export function createFeedToken(userId: string) {
+  const secret = feedSecret();
+  if (!secret) return null;
+  return `${Buffer.from(userId).toString('base64url')}.${sign(userId, secret)}`;
+}
+
+// User the token was issued to, null when it is missing, malformed or forged
+export function verifyFeedToken(token: string | null) {
+  const secret = feedSecret();
+  if (!secret || !token) return null;
+
+  const [encodedUserId, signature] = token.split('.');
+  if (!encodedUserId || !signature) return null;
+
+  const userId = Buffer.from(encodedUserId, 'base64url').toString();
+  const expected = Buffer.from(sign(userId, secret));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given) ? userId : null;
+}
+
+export function isCalendarFeedConfigured() {
+  return !!feedSecret();
+}
+
+// RFC 5545 text: escape separators, then fold lines at 75 octets
+function escapeText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function foldLine(line: string) {
+  const bytes = Buffer.from(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function toIcsDate(isoDate: string) {
+  return isoDate.replace(/-/g, '');
+}
+
+function toIcsTimestamp(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function eventSummary(project: Project) {
+  const prefix = project.status === 'pending' ? 'Bid' : `Bid (${project.status})`;
+  return `${prefix}: ${project.name}${project.gc_name ? ` – ${project.gc_name}` : ''}`;
+}
+
+function eventDescription(project: Project) {
+  return [
+    project.gc_name && `GC: ${project.gc_name}`,
+    project.estimator && `Estimator: ${project.estimator}`,
+    project.project_manager && `PM: ${project.project_manager}`,
+    `Status: ${project.status}`,
+    project.scope && `Scope: ${project.scope}`
+  ].filter(Boolean).join('\n');
+}
+
+// All-day event on each project's bid date
+export function projectsToIcs(projects: Project[], now = new Date()) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//First Glass of Arkansas//Bid calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:First Glass bids',
+  ];
+
+  for (const project of projects) {
+    if (!project.bid_date) continue;
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:project-${project.id}@firstglassar.com`,
+      `DTSTAMP:${toIcsTimestamp(now)}`,
+      `LAST-MODIFIED:${toIcsTimestamp(new Date(project.updated_at))}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(project.bid_date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(addDays(project.bid_date, 1))}`,
+      `SUMMARY:${escapeText(eventSummary(project))}`,
+      `DESCRIPTION:${escapeText(eventDescription(project))}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,82 @@
+// Bid dates are calendar dates (YYYY-MM-DD) in the office's time zone, so
+// "this week" means the same thing for the server and for estimators.
+
+export const COMPANY_TIME_ZONE = 'America/Chicago';
+
+export type BidPeriod = 'this_week' | 'next_week' | 'this_month' | 'next_30_days' | 'upcoming' | 'past';
+
+export const BID_PERIODS: BidPeriod[] = ['this_week', 'next_week', 'this_month', 'next_30_days', 'upcoming', 'past'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function toIsoDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function fullYear(year: string) {
+  return year.length === 2 ? 2000 + Number(year) : Number(year);
+}
+
+// 2025-08-15, 8/15/25, 8/15/2025 or Aug 15, 2025 -> 2025-08-15; null when
+// the date cannot be read
+export function parseBidDate(value: string): string | null {
+  const text = value.trim();
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (match) return toIsoDate(fullYear(match[3]), Number(match[1]), Number(match[2]));
+
+  match = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i);
+  if (match) {
+    const month = MONTHS.indexOf(match[1].toLowerCase()) + 1;
+    return month > 0 ? toIsoDate(Number(match[3]), month, Number(match[2])) : null;
+  }
+
+  return null;
+}
+
+// Today's date in the office's time zone
+export function companyToday(now = new Date()) {
+  return now.toLocaleDateString('en-CA', { timeZone: COMPANY_TIME_ZONE });
+}
+
+export function addDays(isoDate: string, days: number) {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// Inclusive date range for a period; weeks run Monday to Sunday
+export function periodRange(period: BidPeriod, today = companyToday()): { from?: string; to?: string } {
+  const weekday = (new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7; // Monday = 0
+  const monday = addDays(today, -weekday);
+
+  switch (period) {
+    case 'this_week':
+      return { from: monday, to: addDays(monday, 6) };
+    case 'next_week':
+      return { from: addDays(monday, 7), to: addDays(monday, 13) };
+    case 'this_month': {
+      const [year, month] = today.split('-').map(Number);
+      const lastDay = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+      return { from: `${today.slice(0, 7)}-01`, to: lastDay };
+    }
+    case 'next_30_days':
+      return { from: today, to: addDays(today, 30) };
+    case 'upcoming':
+      return { from: today };
+    case 'past':
+      return { to: addDays(today, -1) };
+  }
+}
+
+// 2025-08-15 -> Fri, Aug 15, 2025
+export function formatBidDateLong(isoDate: string) {
+  return new Date(`${isoDate}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC'
+  });
+}
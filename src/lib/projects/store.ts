@@ -0,0 +1,100 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Projects being bid or built, in the Supabase `projects` table. The table is
+// shared by everyone signed in, so the whole office sees the same bid list.
+
+export type ProjectStatus = 'pending' | 'won' | 'lost';
+
+export const PROJECT_STATUSES: ProjectStatus[] = ['pending', 'won', 'lost'];
+
+export type Project = {
+  id: string;
+  name: string;
+  gc_name: string | null;
+  bid_date: string | null; // YYYY-MM-DD
+  project_manager: string | null;
+  estimator: string | null;
+  status: ProjectStatus;
+  scope: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ProjectFields = Partial<Pick<Project, 'name' | 'gc_name' | 'bid_date' | 'project_manager' | 'estimator' | 'status' | 'scope'>>;
+
+export type ProjectFilter = {
+  status?: ProjectStatus;
+  from?: string; // Bid dates on or after, YYYY-MM-DD
+  to?: string; // Bid dates on or before, YYYY-MM-DD
+  name?: string; // Part of the project name
+};
+
+// Soonest bid first; projects without a bid date last
+export async function listProjects(supabase: SupabaseClient, filter: ProjectFilter = {}): Promise<Project[]> {
+  let query = supabase
+    .from('projects')
+    .select('*');
+
+  if (filter.status) query = query.eq('status', filter.status);
+  if (filter.from) query = query.gte('bid_date', filter.from);
+  if (filter.to) query = query.lte('bid_date', filter.to);
+  if (filter.name) query = query.ilike('name', `%${filter.name.replace(/[\\%_]/g, char => `\\${char}`)}%`);
+
+  const { data, error } = await query
+    .order('bid_date', { ascending: true, nullsFirst: false })
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Supabase error listing projects:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+export async function getProject(supabase: SupabaseClient, id: string): Promise<Project | null> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error loading project:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+export async function createProject(supabase: SupabaseClient, userId: string | null, fields: ProjectFields & { name: string }): Promise<Project> {
+  const { data, error } = await supabase
+    .from('projects')
+    .insert({ ...fields, created_by: userId })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Supabase error creating project:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+export async function updateProject(supabase: SupabaseClient, id: string, fields: ProjectFields): Promise<Project | null> {
+  const { data, error } = await supabase
+    .from('projects')
+    .update(fields)
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error updating project:', error);
+    throw error;
+  }
+
+  return data;
+}
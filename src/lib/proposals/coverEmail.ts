@@ -0,0 +1,47 @@
+import { formatCurrency } from '@/lib/estimating/bid';
+import { ESTIMATING_SENDER, fillTemplate, formatBidDate, SIGNATURE, type EmailDraft } from '@/lib/vendorEmail';
+import { proposalFileName } from './sections';
+import type { Proposal } from './store';
+
+export const COVER_EMAIL_SUBJECT = 'Bid – {projectName} – First Glass of Arkansas';
+
+const COVER_EMAIL_BODY = [
+  'Good morning{recipientName},',
+  '',
+  'Please find attached our proposal for {projectName}{bidDate}.',
+  '',
+  'Base bid: {baseBid}{alternates}',
+  '',
+  'Scope, clarifications and exclusions are listed in the proposal. Let me know if you have any questions.',
+  '',
+  'Thank you!',
+  '',
+  'Best regards,',
+  SIGNATURE
+].join('\n');
+
+// Email to the GC that goes out with the proposal PDF
+export function draftCoverEmail(proposal: Proposal, senderName?: string): EmailDraft {
+  const alternates = proposal.alternates.length
+    ? `\nAlternates:\n${proposal.alternates.map(item => `- ${item.description}: ${formatCurrency(item.amount)}`).join('\n')}`
+    : '';
+  const values = {
+    projectName: proposal.project_name,
+    recipientName: proposal.recipient_name ? ` ${proposal.recipient_name.split(' ')[0]}` : '',
+    bidDate: proposal.bid_date ? ` (bids ${formatBidDate(proposal.bid_date)})` : '',
+    baseBid: proposal.base_bid === null ? '[Base bid]' : formatCurrency(proposal.base_bid),
+    alternates,
+    senderName: senderName || '[Your Name]'
+  };
+
+  return {
+    from: ESTIMATING_SENDER,
+    to: {
+      name: proposal.recipient_name || proposal.gc_name || '[GC contact]',
+      email: proposal.recipient_email || ''
+    },
+    subject: fillTemplate(COVER_EMAIL_SUBJECT, values),
+    body: fillTemplate(COVER_EMAIL_BODY, values),
+    attachments: [proposalFileName(proposal)]
+  };
+}
@@ -0,0 +1,4 @@
+export * from './coverEmail';
+export * from './pdf';
+export * from './sections';
+export * from './store';
@@ -0,0 +1,239 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib';
+import { formatCurrency } from '@/lib/estimating/bid';
+import { formatBidDate } from '@/lib/vendorEmail';
+import type { Proposal } from './store';
+
+// Branded bid proposal PDF: letter size, company logo and contact in the
+// header, one block per proposal section, acceptance lines at the end.
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_HEIGHT = 36;
+
+const BRAND_BLUE = rgb(0.11, 0.31, 0.85);
+const TEXT = rgb(0.13, 0.13, 0.13);
+const MUTED = rgb(0.45, 0.45, 0.45);
+
+const COMPANY = {
+  name: 'First Glass of Arkansas',
+  email: 'estimating@firstglassar.com'
+};
+
+const LOGO_PATH = path.join(process.cwd(), 'public', 'logo.png');
+
+type Fonts = { regular: PDFFont; bold: PDFFont };
+
+// The standard PDF fonts only cover WinAnsi. Characters outside it are
+// decomposed where possible (⅛ -> 1/8) and replaced otherwise.
+function toWinAnsi(text: string, font: PDFFont) {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\r\n?/g, '\n').replace(/\t/g, '  ')).map(char => {
+    if (char === '\n' || supported.has(char.codePointAt(0)!)) return char;
+    const decomposed = char.normalize('NFKD').replace(/⁄/g, '/');
+    return Array.from(decomposed).every(part => supported.has(part.codePointAt(0)!)) ? decomposed : '?';
+  }).join('');
+}
+
+function wrapText(text: string, font: PDFFont, size: number, width: number) {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+async function loadLogo(pdf: PDFDocument): Promise<PDFImage | null> {
+  try {
+    return await pdf.embedPng(await readFile(LOGO_PATH));
+  } catch (error) {
+    console.error('Proposal logo not available:', error);
+    return null;
+  }
+}
+
+// Draws top to bottom, starting a new page when the next block does not fit
+function createWriter(pdf: PDFDocument, fonts: Fonts) {
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  const text = (value: string, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; indent?: number } = {}) => {
+    const size = options.size ?? 10.5;
+    const font = options.bold ? fonts.bold : fonts.regular;
+    const indent = options.indent ?? 0;
+    for (const line of wrapText(toWinAnsi(value, font), font, size, CONTENT_WIDTH - indent)) {
+      ensureSpace(size * 1.4);
+      y -= size * 1.4;
+      page.drawText(line, { x: MARGIN + indent, y, size, font, color: options.color ?? TEXT });
+    }
+  };
+
+  // Label on the left, amount right-aligned
+  const amountLine = (label: string, amount: number, bold = false) => {
+    const size = 10.5;
+    const font = bold ? fonts.bold : fonts.regular;
+    const amountText = formatCurrency(amount);
+    const amountWidth = font.widthOfTextAtSize(amountText, size);
+    const lines = wrapText(toWinAnsi(label, font), font, size, CONTENT_WIDTH - amountWidth - 24);
+    lines.forEach((line, index) => {
+      ensureSpace(size * 1.4);
+      y -= size * 1.4;
+      page.drawText(line, { x: MARGIN + 12, y, size, font, color: TEXT });
+      if (index === 0) {
+        page.drawText(amountText, { x: PAGE_WIDTH - MARGIN - amountWidth, y, size, font, color: TEXT });
+      }
+    });
+  };
+
+  const heading = (title: string) => {
+    ensureSpace(40);
+    y -= 22;
+    page.drawText(title.toUpperCase(), { x: MARGIN, y, size: 10, font: fonts.bold, color: BRAND_BLUE });
+    y -= 5;
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.5, color: BRAND_BLUE });
+  };
+
+  const gap = (height: number) => {
+    y -= height;
+  };
+
+  return {
+    text,
+    amountLine,
+    heading,
+    gap,
+    ensureSpace,
+    get page() { return page; },
+    get y() { return y; },
+    set y(value: number) { y = value; }
+  };
+}
+
+function drawHeader(writer: ReturnType<typeof createWriter>, fonts: Fonts, logo: PDFImage | null, proposal: Proposal) {
+  const page = writer.page;
+  const top = PAGE_HEIGHT - MARGIN;
+  let textX = MARGIN;
+
+  if (logo) {
+    const height = 56;
+    const width = logo.width * height / logo.height;
+    page.drawImage(logo, { x: MARGIN, y: top - height, width, height });
+    textX = MARGIN + width + 14;
+  }
+
+  page.drawText(COMPANY.name, { x: textX, y: top - 22, size: 18, font: fonts.bold, color: TEXT });
+  page.drawText(COMPANY.email, { x: textX, y: top - 38, size: 10, font: fonts.regular, color: MUTED });
+
+  const title = 'BID PROPOSAL';
+  const titleWidth = fonts.bold.widthOfTextAtSize(title, 14);
+  page.drawText(title, { x: PAGE_WIDTH - MARGIN - titleWidth, y: top - 22, size: 14, font: fonts.bold, color: BRAND_BLUE });
+  const date = new Date(proposal.updated_at || Date.now()).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const dateWidth = fonts.regular.widthOfTextAtSize(date, 10);
+  page.drawText(date, { x: PAGE_WIDTH - MARGIN - dateWidth, y: top - 38, size: 10, font: fonts.regular, color: MUTED });
+
+  writer.y = top - 72;
+  page.drawLine({ start: { x: MARGIN, y: writer.y }, end: { x: PAGE_WIDTH - MARGIN, y: writer.y }, thickness: 1.5, color: BRAND_BLUE });
+  writer.gap(6);
+}
+
+function drawFooters(pdf: PDFDocument, fonts: Fonts, proposal: Proposal) {
+  const pages = pdf.getPages();
+  pages.forEach((page, index) => {
+    const left = toWinAnsi(`${COMPANY.name} – Bid proposal for ${proposal.project_name}`, fonts.regular);
+    page.drawText(left, { x: MARGIN, y: MARGIN - 12, size: 8, font: fonts.regular, color: MUTED });
+    const right = `Page ${index + 1} of ${pages.length}`;
+    const width = fonts.regular.widthOfTextAtSize(right, 8);
+    page.drawText(right, { x: PAGE_WIDTH - MARGIN - width, y: MARGIN - 12, size: 8, font: fonts.regular, color: MUTED });
+  });
+}
+
+export async function renderProposalPdf(proposal: Proposal): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Bid Proposal – ${proposal.project_name}`);
+  pdf.setAuthor(COMPANY.name);
+
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold)
+  };
+  const writer = createWriter(pdf, fonts);
+  drawHeader(writer, fonts, await loadLogo(pdf), proposal);
+
+  // Project block
+  writer.text(`Project: ${proposal.project_name}`, { size: 12, bold: true });
+  const recipient = [proposal.recipient_name, proposal.gc_name].filter(Boolean).join(', ');
+  if (recipient) writer.text(`To: ${recipient}`);
+  if (proposal.bid_date) writer.text(`Bid date: ${formatBidDate(proposal.bid_date)}`);
+
+  if (proposal.scope_of_work) {
+    writer.heading('Scope of work');
+    writer.text(proposal.scope_of_work);
+  }
+
+  writer.heading('Base bid');
+  if (proposal.base_bid !== null) {
+    writer.amountLine('Furnish and install the scope of work above', proposal.base_bid, true);
+  } else {
+    writer.text('To be confirmed', { color: MUTED });
+  }
+
+  if (proposal.alternates.length > 0) {
+    writer.heading('Alternates');
+    proposal.alternates.forEach((item, index) => writer.amountLine(`${index + 1}. ${item.description}`, item.amount));
+  }
+
+  const lists: Array<[string, string[]]> = [
+    ['Clarifications', proposal.clarifications],
+    ['Exclusions', proposal.exclusions]
+  ];
+  for (const [title, items] of lists) {
+    if (items.length === 0) continue;
+    writer.heading(title);
+    items.forEach(item => writer.text(`•  ${item}`, { indent: 8 }));
+  }
+
+  if (proposal.payment_terms) {
+    writer.heading('Payment terms');
+    writer.text(proposal.payment_terms);
+  }
+  if (proposal.lead_times) {
+    writer.heading('Lead times');
+    writer.text(proposal.lead_times);
+  }
+
+  // Acceptance
+  writer.heading('Acceptance');
+  writer.text('Signing below accepts the scope, prices and terms of this proposal.', { size: 9.5, color: MUTED });
+  writer.ensureSpace(60);
+  writer.gap(40);
+  const page = writer.page;
+  const lineWidth = (CONTENT_WIDTH - 24) / 2;
+  for (const [index, label] of ['Accepted by (signature and date)', `${COMPANY.name} (signature and date)`].entries()) {
+    const x = MARGIN + index * (lineWidth + 24);
+    page.drawLine({ start: { x, y: writer.y }, end: { x: x + lineWidth, y: writer.y }, thickness: 0.5, color: TEXT });
+    page.drawText(label, { x, y: writer.y - 12, size: 8, font: fonts.regular, color: MUTED });
+  }
+
+  drawFooters(pdf, fonts, proposal);
+  return pdf.save();
+}
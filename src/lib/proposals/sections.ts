@@ -0,0 +1,28 @@
+import type { Proposal } from './store';
+
+// Sections every bid proposal must have, in the order they are printed
+export const PROPOSAL_SECTIONS: Array<{ field: keyof Proposal; label: string }> = [
+  { field: 'scope_of_work', label: 'Scope of work' },
+  { field: 'base_bid', label: 'Base bid' },
+  { field: 'alternates', label: 'Alternates' },
+  { field: 'clarifications', label: 'Clarifications' },
+  { field: 'exclusions', label: 'Exclusions' },
+  { field: 'payment_terms', label: 'Payment terms' },
+  { field: 'lead_times', label: 'Lead times' }
+];
+
+// Labels of the sections still empty. A bid can have no alternates, so those
+// only count as missing until the base bid is in.
+export function missingSections(proposal: Proposal) {
+  return PROPOSAL_SECTIONS
+    .filter(({ field }) => {
+      if (field === 'alternates') return proposal.base_bid === null && proposal.alternates.length === 0;
+      const value = proposal[field];
+      return value === null || value === '' || (Array.isArray(value) && value.length === 0);
+    })
+    .map(({ label }) => label);
+}
+
+export function proposalFileName(proposal: Proposal) {
+  return `Bid Proposal - ${proposal.project_name.replace(/[\\/:*?"<>|]+/g, '').trim()}.pdf`;
+}
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Bid proposals in the Supabase `proposals` table. The assistant fills the
+// sections in over the conversation; RLS keeps each proposal to its author.
+
+export type ProposalLineItem = {
+  description: string;
+  amount: number;
+};
+
+export type Proposal = {
+  id: string;
+  user_id: string;
+  chat_id: string | null;
+  project_name: string;
+  gc_name: string | null;
+  recipient_name: string | null;
+  recipient_email: string | null;
+  bid_date: string | null;
+  scope_of_work: string | null;
+  base_bid: number | null;
+  alternates: ProposalLineItem[];
+  clarifications: string[];
+  exclusions: string[];
+  payment_terms: string | null;
+  lead_times: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ProposalFields = Partial<Omit<Proposal, 'id' | 'user_id' | 'created_at' | 'updated_at'>>;
+
+export async function getProposal(supabase: SupabaseClient, id: string): Promise<Proposal | null> {
+  const { data, error } = await supabase
+    .from('proposals')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error loading proposal:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+export async function createProposal(supabase: SupabaseClient, userId: string, fields: ProposalFields & { project_name: string }): Promise<Proposal> {
+  const { data, error } = await supabase
+    .from('proposals')
+    .insert({ ...fields, user_id: userId })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Supabase error creating proposal:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+export async function updateProposal(supabase: SupabaseClient, id: string, fields: ProposalFields): Promise<Proposal | null> {
+  const { data, error } = await supabase
+    .from('proposals')
+    .update(fields)
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase error updating proposal:', error);
+    throw error;
+  }
+
+  return data;
+}
@@ -0,0 +1,157 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { AuthContext } from '@/lib/auth';
+import type { Role } from '@/lib/profiles';
+import { createSupabaseAdmin } from '@/lib/supabaseServer';
+import { COMPANY_TIME_ZONE, addDays, companyToday } from '@/lib/projects/dates';
+import { createMemoryStore } from './memory';
+import { createSupabaseStore } from './supabase';
+import type { DailyQuota, RateLimitResult, RateLimitStore, TokenBucket } from './types';
+
+export type { DailyQuota, DailyUsage, RateLimitResult, RateLimitStore, TokenBucket } from './types';
+
+// Bursts of messages from one user, e.g. a stuck key or a script
+export const USER_BUCKET: TokenBucket = { capacity: 10, refillPerMinute: 10 };
+
+// Everyone in the office shares one public IP, so this only stops runaway clients
+export const IP_BUCKET: TokenBucket = { capacity: 60, refillPerMinute: 60 };
+
+// Per-user allowance for a company day (midnight to midnight Central time)
+export const DAILY_QUOTAS: Record<Role, DailyQuota> = {
+  employee: { messages: 200, tokens: 1_000_000 },
+  field: { messages: 200, tokens: 1_000_000 },
+  estimator: { messages: 500, tokens: 3_000_000 },
+  project_manager: { messages: 500, tokens: 3_000_000 },
+  admin: { messages: 1000, tokens: 5_000_000 }
+};
+
+let store: RateLimitStore | null = null;
+
+// Select the store with RATE_LIMIT_STORE:
+//   memory   - counts kept in this server process; the default outside production
+//   supabase - counts shared in Postgres; the default in production, needs
+//              SUPABASE_SERVICE_ROLE_KEY and falls back to memory without it
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store;
+
+  const storeName = process.env.RATE_LIMIT_STORE || (process.env.NODE_ENV === 'production' ? 'supabase' : 'memory');
+  if (storeName === 'supabase') {
+    const supabaseAdmin = createSupabaseAdmin();
+    if (supabaseAdmin) {
+      store = createSupabaseStore(supabaseAdmin);
+      return store;
+    }
+    console.error('RATE_LIMIT_STORE=supabase needs SUPABASE_SERVICE_ROLE_KEY; using the in-memory store');
+  } else if (storeName !== 'memory') {
+    console.error(`Unknown RATE_LIMIT_STORE: ${storeName}; using the in-memory store`);
+  }
+
+  store = createMemoryStore();
+  return store;
+}
+
+// The client address as recorded by our own proxy, null when there is none.
+// Clients can send any X-Forwarded-For they like and proxies append to it, so
+// only the entry added by the outermost trusted proxy counts:
+//   RATE_LIMIT_IP_HEADER  - header to read (default x-forwarded-for); any other
+//                           header, e.g. x-real-ip, must be one the proxy overwrites
+//   RATE_LIMIT_PROXY_HOPS - trusted proxies that append to X-Forwarded-For (default 1)
+export function getClientIp(req: NextRequest) {
+  const header = (process.env.RATE_LIMIT_IP_HEADER || 'x-forwarded-for').toLowerCase();
+  const value = req.headers.get(header);
+  if (!value) return null;
+  if (header !== 'x-forwarded-for') return value.trim() || null;
+
+  const hops = Math.max(1, Number(process.env.RATE_LIMIT_PROXY_HOPS) || 1);
+  const addresses = value.split(',').map(address => address.trim());
+  return addresses[addresses.length - hops] || null;
+}
+
+// Seconds until the next company-day midnight, when daily quotas reset
+function secondsUntilQuotaReset(now = new Date()) {
+  const tomorrow = addDays(companyToday(now), 1);
+  const utcMidnight = Date.parse(`${tomorrow}T00:00:00Z`);
+  const offset = new Intl.DateTimeFormat('en-US', { timeZone: COMPANY_TIME_ZONE, timeZoneName: 'longOffset' })
+    .formatToParts(new Date(utcMidnight))
+    .find(part => part.type === 'timeZoneName')?.value || '';
+  const match = offset.match(/GMT([+-])(\d{2}):(\d{2})/);
+  const offsetMinutes = match ? (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3])) : 0;
+  return Math.ceil((utcMidnight - offsetMinutes * 60_000 - now.getTime()) / 1000);
+}
+
+function formatWait(seconds: number) {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// Checks the user's and IP's buckets and the user's daily quota, and counts
+// the message when it is allowed. Store failures let the request through.
+export async function checkRateLimit(req: NextRequest, auth: AuthContext): Promise<RateLimitResult> {
+  const { user, role } = auth;
+  const limiter = getRateLimitStore();
+
+  try {
+    const userWait = await limiter.take(`user:${user.id}`, USER_BUCKET);
+    if (userWait > 0) {
+      const retryAfter = Math.ceil(userWait);
+      return {
+        allowed: false,
+        reason: 'user',
+        retryAfter,
+        message: `You're sending messages faster than the assistant can keep up. Please wait ${formatWait(retryAfter)} and try again.`
+      };
+    }
+
+    const ip = getClientIp(req);
+    if (ip) {
+      const ipWait = await limiter.take(`ip:${ip}`, IP_BUCKET);
+      if (ipWait > 0) {
+        const retryAfter = Math.ceil(ipWait);
+        return {
+          allowed: false,
+          reason: 'ip',
+          retryAfter,
+          message: `The assistant is getting too many requests from your network. Please wait ${formatWait(retryAfter)} and try again.`
+        };
+      }
+    }
+
+    const quota = DAILY_QUOTAS[role];
+    const day = companyToday();
+    const usage = await limiter.getUsage(user.id, day);
+    const overMessages = quota.messages !== null && usage.messages >= quota.messages;
+    const overTokens = quota.tokens !== null && usage.tokens >= quota.tokens;
+    if (overMessages || overTokens) {
+      return {
+        allowed: false,
+        reason: 'daily_quota',
+        retryAfter: secondsUntilQuotaReset(),
+        message: "You've reached today's assistant limit. It resets at midnight Central time."
+      };
+    }
+
+    await limiter.addUsage(user.id, day, { messages: 1 });
+  } catch (error) {
+    console.error('Rate limit check failed; allowing request:', error);
+  }
+
+  return { allowed: true };
+}
+
+// Adds a finished run's model tokens to the user's daily usage
+export async function recordTokenUsage(userId: string, tokens: number) {
+  if (tokens <= 0) return;
+  try {
+    await getRateLimitStore().addUsage(userId, companyToday(), { tokens });
+  } catch (error) {
+    console.error('Error recording token usage:', error);
+  }
+}
+
+// 429 with Retry-After; the chat UI shows `error` in place of the answer
+export function rateLimited(result: Extract<RateLimitResult, { allowed: false }>) {
+  return NextResponse.json(
+    { error: result.message, reason: result.reason, retryAfter: result.retryAfter },
+    { status: 429, headers: { 'Retry-After': String(result.retryAfter) } }
+  );
+}
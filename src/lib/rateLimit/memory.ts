@@ -0,0 +1,83 @@
+import type { DailyUsage, RateLimitStore, TokenBucket } from './types';
+
+// Single-process store for development. Every server instance keeps its own
+// counts, so production deployments should use the Supabase store.
+
+type MemoryState = {
+  buckets: Map<string, { tokens: number; updatedAt: number; fullAt: number }>;
+  usage: Map<string, DailyUsage>; // Keyed by `${userId}:${day}`
+  sweptAt: number;
+};
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+// Keep state on globalThis so it survives module reloads in `next dev`
+const globalStore = globalThis as typeof globalThis & { __rateLimitState?: MemoryState };
+
+function getState(): MemoryState {
+  if (!globalStore.__rateLimitState) {
+    globalStore.__rateLimitState = { buckets: new Map(), usage: new Map(), sweptAt: Date.now() };
+  }
+  return globalStore.__rateLimitState;
+}
+
+// A bucket that has refilled is the same as no bucket, so drop those, and
+// usage from earlier days. Keeps one-off keys (such as spoofed or rotating
+// IPs) from growing the maps without limit.
+function sweep(state: MemoryState, now: number, day?: string) {
+  if (now - state.sweptAt < SWEEP_INTERVAL_MS) return;
+  state.sweptAt = now;
+
+  for (const [key, bucket] of state.buckets) {
+    if (bucket.fullAt <= now) state.buckets.delete(key);
+  }
+  if (day) {
+    for (const key of state.usage.keys()) {
+      if (key.slice(key.lastIndexOf(':') + 1) < day) state.usage.delete(key);
+    }
+  }
+}
+
+export function createMemoryStore(): RateLimitStore {
+  return {
+    name: 'memory',
+
+    async take(key: string, bucket: TokenBucket) {
+      const memory = getState();
+      const now = Date.now();
+      sweep(memory, now);
+
+      const refillPerMs = bucket.refillPerMinute / 60_000;
+      const state = memory.buckets.get(key);
+      const tokens = state
+        ? Math.min(bucket.capacity, state.tokens + (now - state.updatedAt) * refillPerMs)
+        : bucket.capacity;
+
+      const remaining = tokens < 1 ? tokens : tokens - 1;
+      memory.buckets.set(key, {
+        tokens: remaining,
+        updatedAt: now,
+        fullAt: now + (bucket.capacity - remaining) / refillPerMs
+      });
+      return tokens < 1 ? (1 - tokens) / refillPerMs / 1000 : 0;
+    },
+
+    async getUsage(userId: string, day: string) {
+      return getState().usage.get(`${userId}:${day}`) ?? { messages: 0, tokens: 0 };
+    },
+
+    async addUsage(userId: string, day: string, usage: Partial<DailyUsage>) {
+      const memory = getState();
+      sweep(memory, Date.now(), day);
+      const usageByDay = memory.usage;
+      const key = `${userId}:${day}`;
+      const current = usageByDay.get(key) ?? { messages: 0, tokens: 0 };
+      const updated = {
+        messages: current.messages + (usage.messages ?? 0),
+        tokens: current.tokens + (usage.tokens ?? 0)
+      };
+      usageByDay.set(key, updated);
+      return updated;
+    }
+  };
+}
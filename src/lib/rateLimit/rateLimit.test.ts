@@ -0,0 +1,124 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthContext } from '@/lib/auth';
+import { USER_BUCKET, checkRateLimit, getClientIp } from '@/lib/rateLimit';
+import { createMemoryStore } from './memory';
+import { createSupabaseStore } from './supabase';
+
+const memoryState = globalThis as typeof globalThis & { __rateLimitState?: { buckets: Map<string, unknown>; usage: Map<string, unknown> } };
+
+function request(headers: Record<string, string> = {}) {
+  return new NextRequest('http://localhost/api/chatbot', { method: 'POST', headers });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2025-08-20T15:00:00.000Z') });
+  delete memoryState.__rateLimitState;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('memory store', () => {
+  it('takes from a bucket and refills over time', async () => {
+    const store = createMemoryStore();
+    const bucket = { capacity: 2, refillPerMinute: 6 };
+
+    expect(await store.take('user:a', bucket)).toBe(0);
+    expect(await store.take('user:a', bucket)).toBe(0);
+    expect(await store.take('user:a', bucket)).toBeCloseTo(10);
+    expect(await store.take('user:b', bucket)).toBe(0);
+
+    vi.advanceTimersByTime(4_000);
+    expect(await store.take('user:a', bucket)).toBeCloseTo(6);
+    vi.advanceTimersByTime(6_000);
+    expect(await store.take('user:a', bucket)).toBe(0);
+  });
+
+  it('adds daily usage per user and day', async () => {
+    const store = createMemoryStore();
+
+    expect(await store.getUsage('u1', '2025-08-20')).toEqual({ messages: 0, tokens: 0 });
+    await store.addUsage('u1', '2025-08-20', { messages: 1 });
+    expect(await store.addUsage('u1', '2025-08-20', { tokens: 500 })).toEqual({ messages: 1, tokens: 500 });
+    expect(await store.getUsage('u1', '2025-08-21')).toEqual({ messages: 0, tokens: 0 });
+    expect(await store.getUsage('u2', '2025-08-20')).toEqual({ messages: 0, tokens: 0 });
+  });
+
+  it('drops refilled buckets and earlier days', async () => {
+    const store = createMemoryStore();
+    const bucket = { capacity: 1, refillPerMinute: 60 };
+
+    for (let i = 0; i < 100; i++) await store.take(`ip:10.0.0.${i}`, bucket);
+    await store.addUsage('u1', '2025-08-20', { messages: 1 });
+    expect(memoryState.__rateLimitState?.buckets.size).toBe(100);
+
+    vi.advanceTimersByTime(61_000);
+    await store.take('ip:10.0.1.1', bucket);
+    expect(memoryState.__rateLimitState?.buckets.size).toBe(1);
+
+    vi.advanceTimersByTime(61_000);
+    await store.addUsage('u1', '2025-08-21', { messages: 1 });
+    expect([...memoryState.__rateLimitState!.usage.keys()]).toEqual(['u1:2025-08-21']);
+  });
+});
+
+describe('supabase store', () => {
+  it('takes tokens and adds usage through the database functions', async () => {
+    const rpc = vi.fn((name: string) => {
+      if (name === 'take_rate_limit_token') return Promise.resolve({ data: 2.5, error: null });
+      return { single: () => Promise.resolve({ data: { messages: 3, tokens: 10 }, error: null }) };
+    });
+    const store = createSupabaseStore({ rpc } as unknown as SupabaseClient);
+
+    expect(await store.take('user:a', { capacity: 10, refillPerMinute: 30 })).toBe(2.5);
+    expect(rpc).toHaveBeenCalledWith('take_rate_limit_token', { p_key: 'user:a', p_capacity: 10, p_refill_per_second: 0.5 });
+
+    expect(await store.addUsage('u1', '2025-08-20', { messages: 1 })).toEqual({ messages: 3, tokens: 10 });
+    expect(rpc).toHaveBeenCalledWith('add_daily_usage', { p_user_id: 'u1', p_day: '2025-08-20', p_messages: 1, p_tokens: 0 });
+  });
+
+  it('throws database errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const rpc = vi.fn(() => Promise.resolve({ data: null, error: new Error('boom') }));
+    const store = createSupabaseStore({ rpc } as unknown as SupabaseClient);
+
+    await expect(store.take('user:a', USER_BUCKET)).rejects.toThrow('boom');
+  });
+});
+
+describe('getClientIp', () => {
+  it('uses the X-Forwarded-For entry added by the trusted proxy', () => {
+    expect(getClientIp(request({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getClientIp(request())).toBeNull();
+  });
+
+  it('counts back RATE_LIMIT_PROXY_HOPS entries', () => {
+    vi.stubEnv('RATE_LIMIT_PROXY_HOPS', '2');
+    expect(getClientIp(request({ 'x-forwarded-for': 'spoofed, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+    expect(getClientIp(request({ 'x-forwarded-for': '10.0.0.2' }))).toBeNull();
+  });
+
+  it('reads the whole value of another header', () => {
+    vi.stubEnv('RATE_LIMIT_IP_HEADER', 'X-Real-IP');
+    expect(getClientIp(request({ 'x-real-ip': ' 203.0.113.7 ', 'x-forwarded-for': '1.2.3.4' }))).toBe('203.0.113.7');
+  });
+});
+
+describe('checkRateLimit', () => {
+  const auth = { user: { id: 'u1' }, role: 'employee' } as AuthContext;
+
+  it('refuses a burst over the user bucket and counts allowed messages', async () => {
+    for (let i = 0; i < USER_BUCKET.capacity; i++) {
+      expect(await checkRateLimit(request(), auth)).toEqual({ allowed: true });
+    }
+
+    const result = await checkRateLimit(request(), auth);
+    expect(result).toMatchObject({ allowed: false, reason: 'user', retryAfter: 6 });
+    expect(memoryState.__rateLimitState?.usage.get('u1:2025-08-20')).toEqual({ messages: USER_BUCKET.capacity, tokens: 0 });
+  });
+});
@@ -0,0 +1,56 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DailyUsage, RateLimitStore, TokenBucket } from './types';
+
+// Postgres-backed store shared by every server instance. Buckets and counters
+// are updated by the take_rate_limit_token and add_daily_usage functions in
+// supabase-schema.sql so concurrent requests cannot both take the last
+// request. Needs the service-role client; the tables have no RLS policies.
+
+export function createSupabaseStore(supabase: SupabaseClient): RateLimitStore {
+  return {
+    name: 'supabase',
+
+    async take(key: string, bucket: TokenBucket) {
+      const { data, error } = await supabase.rpc('take_rate_limit_token', {
+        p_key: key,
+        p_capacity: bucket.capacity,
+        p_refill_per_second: bucket.refillPerMinute / 60
+      });
+      if (error) {
+        console.error('Supabase error taking rate limit token:', error);
+        throw error;
+      }
+      return Number(data) || 0;
+    },
+
+    async getUsage(userId: string, day: string) {
+      const { data, error } = await supabase
+        .from('daily_usage')
+        .select('messages, tokens')
+        .eq('user_id', userId)
+        .eq('day', day)
+        .maybeSingle();
+      if (error) {
+        console.error('Supabase error loading daily usage:', error);
+        throw error;
+      }
+      return data ?? { messages: 0, tokens: 0 };
+    },
+
+    async addUsage(userId: string, day: string, usage: Partial<DailyUsage>) {
+      const { data, error } = await supabase
+        .rpc('add_daily_usage', {
+          p_user_id: userId,
+          p_day: day,
+          p_messages: usage.messages ?? 0,
+          p_tokens: usage.tokens ?? 0
+        })
+        .single<DailyUsage>();
+      if (error) {
+        console.error('Supabase error saving daily usage:', error);
+        throw error;
+      }
+      return data;
+    }
+  };
+}
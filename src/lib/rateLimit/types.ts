@@ -0,0 +1,32 @@
+// Types shared by the rate limiter and its stores
+
+// Token bucket: holds up to `capacity` requests and refills continuously
+export type TokenBucket = {
+  capacity: number;
+  refillPerMinute: number;
+};
+
+export type DailyUsage = {
+  messages: number;
+  tokens: number; // Model tokens, prompt and completion
+};
+
+// Daily allowance; null fields are unlimited
+export type DailyQuota = {
+  messages: number | null;
+  tokens: number | null;
+};
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'user' | 'ip' | 'daily_quota'; retryAfter: number; message: string }; // retryAfter in seconds
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Takes one request from the bucket. Returns 0 when it was taken, otherwise
+  // the seconds until the bucket has a request again.
+  take(key: string, bucket: TokenBucket): Promise<number>;
+  getUsage(userId: string, day: string): Promise<DailyUsage>;
+  // Adds to the day's usage and returns the new totals
+  addUsage(userId: string, day: string, usage: Partial<DailyUsage>): Promise<DailyUsage>;
+}
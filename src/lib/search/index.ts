@@ -0,0 +1,36 @@
+import { createJsonApiProvider } from './jsonApi';
+import { createSearxngProvider } from './searxng';
+import type { SearchProvider } from './types';
+
+export type { SearchOptions, SearchProvider, SearchResult } from './types';
+
+// Select the web search backend with SEARCH_PROVIDER:
+//   searxng      - self-hosted SearXNG, needs SEARXNG_URL
+//   brave | bing - hosted JSON API, needs SEARCH_API_KEY (SEARCH_API_URL overrides the endpoint)
+// Returns null when search is not configured.
+export function getSearchProvider(): SearchProvider | null {
+  const providerName = process.env.SEARCH_PROVIDER;
+
+  switch (providerName) {
+    case 'searxng': {
+      const baseUrl = process.env.SEARXNG_URL;
+      if (!baseUrl) return null;
+      return createSearxngProvider({ baseUrl });
+    }
+
+    case 'brave':
+    case 'bing': {
+      const apiKey = process.env.SEARCH_API_KEY;
+      if (!apiKey) return null;
+      return createJsonApiProvider({ flavor: providerName, apiKey, baseUrl: process.env.SEARCH_API_URL });
+    }
+
+    case undefined:
+    case '':
+      return null;
+
+    default:
+      console.error(`Unknown SEARCH_PROVIDER: ${providerName}`);
+      return null;
+  }
+}
@@ -0,0 +1,82 @@
+import type { SearchProvider, SearchResult } from './types';
+
+// Hosted web search APIs that return JSON (Brave Search, Bing Web Search).
+// The base URL is configurable so a local fixture server can stand in for the real API.
+
+export type JsonApiFlavor = 'brave' | 'bing';
+
+type JsonApiConfig = {
+  flavor: JsonApiFlavor;
+  apiKey: string;
+  baseUrl?: string;
+};
+
+type BraveResponse = {
+  web?: { results?: Array<{ title?: string; url?: string; description?: string }> };
+};
+
+type BingResponse = {
+  webPages?: { value?: Array<{ name?: string; url?: string; snippet?: string }> };
+};
+
+const FLAVORS = {
+  brave: {
+    baseUrl: 'https://api.search.brave.com/res/v1/web/search',
+    authHeader: 'X-Subscription-Token',
+    parse: (data: BraveResponse) => (data.web?.results || []).map(result => ({
+      title: result.title,
+      url: result.url,
+      snippet: result.description
+    }))
+  },
+  bing: {
+    baseUrl: 'https://api.bing.microsoft.com/v7.0/search',
+    authHeader: 'Ocp-Apim-Subscription-Key',
+    parse: (data: BingResponse) => (data.webPages?.value || []).map(result => ({
+      title: result.name,
+      url: result.url,
+      snippet: result.snippet
+    }))
+  }
+};
+
+// Remove the markup some APIs put around matched terms
+function stripTags(text: string) {
+  return text.replace(/<[^>]+>/g, '');
+}
+
+export function createJsonApiProvider({ flavor, apiKey, baseUrl }: JsonApiConfig): SearchProvider {
+  const { baseUrl: defaultBaseUrl, authHeader, parse } = FLAVORS[flavor];
+
+  return {
+    name: flavor,
+
+    async search(query, { limit = 5, signal } = {}) {
+      const searchUrl = new URL(baseUrl || defaultBaseUrl);
+      searchUrl.searchParams.set('q', query);
+      searchUrl.searchParams.set('count', String(limit));
+
+      const response = await fetch(searchUrl, {
+        signal,
+        headers: {
+          'Accept': 'application/json',
+          [authHeader]: apiKey
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`${flavor} search failed: ${response.status}`);
+      }
+
+      return parse(await response.json())
+        .filter(result => result.url)
+        .slice(0, limit)
+        .map((result, index): SearchResult => ({
+          rank: index + 1,
+          title: stripTags(result.title || result.url!),
+          url: result.url!,
+          snippet: stripTags(result.snippet || '')
+        }));
+    }
+  };
+}
@@ -0,0 +1,128 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getSearchProvider } from '@/lib/search';
+import { createJsonApiProvider } from './jsonApi';
+import { createSearxngProvider } from './searxng';
+
+type FixtureRequest = { url: URL; headers: http.IncomingHttpHeaders };
+
+// Local stand-in for SearXNG and the hosted search APIs
+const requests: FixtureRequest[] = [];
+let fixtureStatus = 200;
+
+const FIXTURES: Record<string, unknown> = {
+  '/search': {
+    results: [
+      { title: 'Kawneer 451T Framing', url: 'https://www.kawneer.com/451t', content: 'Center set storefront framing' },
+      { title: 'No URL, skipped', content: 'Missing url' },
+      { url: 'https://example.com/untitled' },
+      { title: 'Third', url: 'https://example.com/third', content: 'Third result' }
+    ]
+  },
+  '/brave': {
+    web: {
+      results: [
+        { title: '<strong>451T</strong> data sheet', url: 'https://example.com/451t.pdf', description: 'Thermal <strong>framing</strong>' }
+      ]
+    }
+  },
+  '/bing': {
+    webPages: {
+      value: [
+        { name: 'Trifab 451T', url: 'https://example.com/trifab', snippet: 'Front set framing' },
+        { name: 'Second', url: 'https://example.com/second', snippet: '' }
+      ]
+    }
+  }
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url || '/', 'http://fixture');
+  requests.push({ url, headers: req.headers });
+  res.writeHead(fixtureStatus, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(FIXTURES[url.pathname] ?? {}));
+});
+let baseUrl = '';
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  requests.length = 0;
+  fixtureStatus = 200;
+  vi.unstubAllEnvs();
+});
+
+describe('SearXNG provider', () => {
+  it('asks for JSON results and keeps ranked results that have a URL', async () => {
+    const provider = createSearxngProvider({ baseUrl });
+    const results = await provider.search('kawneer 451t', { limit: 2 });
+
+    expect(requests[0].url.searchParams.get('q')).toBe('kawneer 451t');
+    expect(requests[0].url.searchParams.get('format')).toBe('json');
+    expect(results).toEqual([
+      { rank: 1, title: 'Kawneer 451T Framing', url: 'https://www.kawneer.com/451t', snippet: 'Center set storefront framing' },
+      { rank: 2, title: 'https://example.com/untitled', url: 'https://example.com/untitled', snippet: '' }
+    ]);
+  });
+
+  it('fails on an error status', async () => {
+    fixtureStatus = 502;
+    await expect(createSearxngProvider({ baseUrl }).search('glass')).rejects.toThrow('SearXNG search failed: 502');
+  });
+});
+
+describe('JSON API providers', () => {
+  it('sends the Brave key and strips markup from results', async () => {
+    const provider = createJsonApiProvider({ flavor: 'brave', apiKey: 'brave-key', baseUrl: `${baseUrl}/brave` });
+    const results = await provider.search('451t', { limit: 3 });
+
+    expect(requests[0].headers['x-subscription-token']).toBe('brave-key');
+    expect(requests[0].url.searchParams.get('count')).toBe('3');
+    expect(results).toEqual([
+      { rank: 1, title: '451T data sheet', url: 'https://example.com/451t.pdf', snippet: 'Thermal framing' }
+    ]);
+  });
+
+  it('sends the Bing key and reads webPages', async () => {
+    const provider = createJsonApiProvider({ flavor: 'bing', apiKey: 'bing-key', baseUrl: `${baseUrl}/bing` });
+    const results = await provider.search('trifab');
+
+    expect(requests[0].headers['ocp-apim-subscription-key']).toBe('bing-key');
+    expect(results.map(result => result.title)).toEqual(['Trifab 451T', 'Second']);
+  });
+
+  it('fails on an error status', async () => {
+    fixtureStatus = 401;
+    const provider = createJsonApiProvider({ flavor: 'bing', apiKey: 'wrong', baseUrl: `${baseUrl}/bing` });
+    await expect(provider.search('glass')).rejects.toThrow('bing search failed: 401');
+  });
+});
+
+describe('getSearchProvider', () => {
+  it('is off unless SEARCH_PROVIDER is configured', () => {
+    vi.stubEnv('SEARCH_PROVIDER', '');
+    expect(getSearchProvider()).toBeNull();
+
+    vi.stubEnv('SEARCH_PROVIDER', 'brave');
+    vi.stubEnv('SEARCH_API_KEY', '');
+    expect(getSearchProvider()).toBeNull();
+  });
+
+  it('points the JSON API at SEARCH_API_URL', async () => {
+    vi.stubEnv('SEARCH_PROVIDER', 'brave');
+    vi.stubEnv('SEARCH_API_KEY', 'brave-key');
+    vi.stubEnv('SEARCH_API_URL', `${baseUrl}/brave`);
+
+    const results = await getSearchProvider()!.search('451t');
+    expect(requests[0].url.pathname).toBe('/brave');
+    expect(results).toHaveLength(1);
+  });
+});
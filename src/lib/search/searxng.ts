@@ -0,0 +1,37 @@
+import type { SearchProvider, SearchResult } from './types';
+
+type SearxngResponse = {
+  results?: Array<{ title?: string; url?: string; content?: string }>;
+};
+
+// Self-hosted SearXNG instance. JSON output must be enabled in its settings.yml
+// (search.formats: [html, json]).
+export function createSearxngProvider({ baseUrl }: { baseUrl: string }): SearchProvider {
+  return {
+    name: 'searxng',
+
+    async search(query, { limit = 5, signal } = {}) {
+      const searchUrl = new URL('/search', baseUrl);
+      searchUrl.searchParams.set('q', query);
+      searchUrl.searchParams.set('format', 'json');
+
+      const response = await fetch(searchUrl, { signal, headers: { 'Accept': 'application/json' } });
+
+      if (!response.ok) {
+        throw new Error(`SearXNG search failed: ${response.status}`);
+      }
+
+      const data: SearxngResponse = await response.json();
+
+      return (data.results || [])
+        .filter(result => result.url)
+        .slice(0, limit)
+        .map((result, index): SearchResult => ({
+          rank: index + 1,
+          title: result.title || result.url!,
+          url: result.url!,
+          snippet: result.content || ''
+        }));
+    }
+  };
+}
@@ -0,0 +1,18 @@
+// Provider-neutral web search types
+
+export type SearchResult = {
+  rank: number; // 1-based position in the provider's ranking
+  title: string;
+  url: string;
+  snippet: string;
+};
+
+export type SearchOptions = {
+  limit?: number;
+  signal?: AbortSignal;
+};
+
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+}
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The module reads the Supabase URL at import and caches the settings, so each test
+// loads a fresh copy
+async function loadModule() {
+  vi.resetModules();
+  return import('@/lib/supabaseServer');
+}
+
+function mockSettings(response: Response | Error) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async () => {
+    if (response instanceof Error) throw response;
+    return response.clone();
+  });
+}
+
+beforeEach(() => {
+  vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', 'https://project.supabase.co');
+  vi.stubEnv('NEXT_PUBLIC_SUPABASE_ANON_KEY', 'anon-key');
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('isEmailConfirmationRequired', () => {
+  it('reads the Auth settings once and caches them', async () => {
+    const fetch = mockSettings(Response.json({ mailer_autoconfirm: false }));
+    const { isEmailConfirmationRequired } = await loadModule();
+
+    expect(await isEmailConfirmationRequired()).toBe(true);
+    expect(await isEmailConfirmationRequired()).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith('https://project.supabase.co/auth/v1/settings', { headers: { apikey: 'anon-key' } });
+  });
+
+  it('is false when Supabase confirms addresses automatically', async () => {
+    mockSettings(Response.json({ mailer_autoconfirm: true }));
+    const { isEmailConfirmationRequired } = await loadModule();
+
+    expect(await isEmailConfirmationRequired()).toBe(false);
+  });
+
+  it('is false, and tries again next time, when the settings cannot be read', async () => {
+    const fetch = mockSettings(new Error('ECONNREFUSED'));
+    const { isEmailConfirmationRequired } = await loadModule();
+
+    expect(await isEmailConfirmationRequired()).toBe(false);
+    fetch.mockResolvedValue(new Response('Unavailable', { status: 503 }));
+    expect(await isEmailConfirmationRequired()).toBe(false);
+    fetch.mockResolvedValue(Response.json({ mailer_autoconfirm: false }));
+    expect(await isEmailConfirmationRequired()).toBe(true);
+  });
+});
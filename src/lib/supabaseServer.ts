@@ -0,0 +1,53 @@
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// Create Supabase client with user's access token for RLS
+export function createSupabaseWithAuth(accessToken: string) {
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: {
+        Authorization: `Bearer ${accessToken}`
+      }
+    }
+  });
+}
+
+// Service-role client for admin-only tables. It bypasses RLS, so only use it
+// after checking the caller. Returns null when the key is not configured.
+export function createSupabaseAdmin() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) return null;
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+}
+
+// Supabase Auth counts every address as confirmed when "Confirm email" is off,
+// so a confirmed address only proves ownership while confirmation is on. Read
+// from the Auth settings and cached; false when they cannot be read.
+const AUTH_SETTINGS_CACHE_MS = 5 * 60 * 1000;
+
+let emailConfirmation: { required: boolean; loadedAt: number } | null = null;
+
+export async function isEmailConfirmationRequired() {
+  if (emailConfirmation && Date.now() - emailConfirmation.loadedAt < AUTH_SETTINGS_CACHE_MS) {
+    return emailConfirmation.required;
+  }
+
+  try {
+    const response = await fetch(`${supabaseUrl}/auth/v1/settings`, { headers: { apikey: supabaseAnonKey } });
+    if (!response.ok) throw new Error(`Auth settings request failed with ${response.status}`);
+    const settings = await response.json();
+    emailConfirmation = { required: settings.mailer_autoconfirm === false, loadedAt: Date.now() };
+  } catch (error) {
+    console.error('Error loading Supabase Auth settings:', error);
+    return false;
+  }
+
+  if (!emailConfirmation.required) {
+    console.error('Supabase Auth "Confirm email" is off; email addresses are not trusted for approval');
+  }
+  return emailConfirmation.required;
+}
@@ -0,0 +1,48 @@
+import { calculateBid, loadEstimatingRates, MATERIAL_CATEGORIES, type BidBreakdown, type BidInput } from '@/lib/estimating';
+import { PRICING_ROLES } from '@/lib/profiles';
+import { defineTool } from './registry';
+
+export const calculateBidTool = defineTool<BidInput, BidBreakdown>({
+  name: 'calculate_bid',
+  description: 'Price a bid with First Glass estimating standards (labor rate, markup, sales tax, mobilization, admin, glass breakage). Use this instead of doing bid arithmetic yourself. Returns an itemized breakdown that the chat shows as a table; summarize it and mention any warnings rather than repeating every line.',
+  parameters: {
+    type: 'object',
+    properties: {
+      projectName: { type: 'string', description: 'Project name, if known' },
+      materials: {
+        type: 'array',
+        description: 'Material costs before tax',
+        items: {
+          type: 'object',
+          properties: {
+            description: { type: 'string' },
+            cost: { type: 'number', description: 'Cost in dollars' },
+            category: { type: 'string', enum: MATERIAL_CATEGORIES, description: 'glass gets the breakage allowance' }
+          },
+          required: ['description', 'cost']
+        }
+      },
+      laborHours: { type: 'number', description: 'Total labor hours' },
+      markupPercent: { type: 'number', description: 'Markup percent; standard is 30-35, defaults to 30' },
+      additionalCosts: {
+        type: 'array',
+        description: 'Other untaxed costs such as lift rental or shop drawings',
+        items: {
+          type: 'object',
+          properties: {
+            description: { type: 'string' },
+            cost: { type: 'number' }
+          },
+          required: ['description', 'cost']
+        }
+      },
+      includeMobilization: { type: 'boolean', description: 'Include the mobilization charge (default true)' },
+      includeAdmin: { type: 'boolean', description: 'Include the admin charge (default true)' },
+      taxExempt: { type: 'boolean', description: 'Tax-exempt project (default false)' }
+    },
+    required: ['materials', 'laborHours']
+  },
+  showResult: true,
+  roles: PRICING_ROLES,
+  handler: async (args) => calculateBid(args, await loadEstimatingRates())
+});
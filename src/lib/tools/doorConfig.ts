@@ -0,0 +1,29 @@
+import { validateDoorConfig, type DoorConfigResult, type DoorSpec } from '@/lib/estimating';
+import { defineTool } from './registry';
+
+export const doorConfigTool = defineTool<DoorSpec, DoorConfigResult>({
+  name: 'validate_door_config',
+  description: 'Check a Kawneer entrance door spec against First Glass ordering rules (stile series 500 wide 5" / 350 medium 3½" / 190 narrow 2⅛", rabbeted for continuous hinges and beveled for butt hinges or offset pivots, openback frames whenever there are sidelites). Returns flags naming each rule broken and a normalized order line. Use this before giving an order line for any door.',
+  parameters: {
+    type: 'object',
+    properties: {
+      mark: { type: 'string', description: 'Door number from the door schedule' },
+      quantity: { type: 'integer', description: 'Number of identical doors (default 1)' },
+      configuration: { type: 'string', enum: ['single', 'pair'] },
+      series: { type: 'string', description: 'Stile series: 500, 350 or 190' },
+      stile: { type: 'string', description: 'Stile name as specified: wide, medium or narrow' },
+      stileWidthIn: { type: 'number', description: 'Stile width in inches, if specified' },
+      widthIn: { type: 'number', description: 'Opening width in inches' },
+      heightIn: { type: 'number', description: 'Opening height in inches' },
+      hinge: { type: 'string', enum: ['continuous', 'butt', 'offset_pivot'] },
+      edge: { type: 'string', enum: ['rabbeted', 'beveled'], description: 'Door edge as specified, if any' },
+      sidelites: { type: 'boolean', description: 'The opening has sidelites' },
+      frameType: { type: 'string', enum: ['openback', 'closed_back'], description: 'Frame as specified, if any' },
+      handing: { type: 'string', enum: ['LH', 'RH', 'LHR', 'RHR'] },
+      finish: { type: 'string', description: 'e.g. clear anodized, dark bronze' },
+      hardware: { type: 'string', description: 'Hardware set or main devices' }
+    }
+  },
+  showResult: true,
+  handler: async (args) => validateDoorConfig(args)
+});
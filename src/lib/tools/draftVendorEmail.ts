@@ -0,0 +1,29 @@
+import { listContacts } from '@/lib/contacts';
+import { draftVendorEmail, VENDOR_EMAIL_KINDS, type VendorEmail, type VendorEmailInput } from '@/lib/vendorEmail';
+import { defineTool } from './registry';
+
+export const draftVendorEmailTool = defineTool<VendorEmailInput, VendorEmail>({
+  name: 'draft_vendor_email',
+  description: 'Draft a vendor quote request from the company email templates: glass quotes to Tristar Glass, hardware pricing to IML, shop drawing pricing to Advantage Drafting, all from estimating@firstglassar.com. The recipient is the vendor rep in the contacts directory. Returns To, Subject and Body; the chat shows them with buttons to open in a mail client or download, so do not repeat the email text in your answer.',
+  parameters: {
+    type: 'object',
+    properties: {
+      kind: { type: 'string', enum: VENDOR_EMAIL_KINDS, description: 'glass (Tristar), hardware (IML) or shop_drawings (Advantage Drafting)' },
+      projectName: { type: 'string' },
+      bidDate: { type: 'string', description: 'Bid date, e.g. 8/15/25 or 2025-08-15' },
+      scope: { type: 'string', description: 'Our scope, e.g. "exterior aluminum storefront and doors"' },
+      attachments: { type: 'array', items: { type: 'string' }, description: 'Files that will be attached' },
+      senderName: { type: 'string', description: 'Name of the estimator sending the email' },
+      drawingsLink: { type: 'string', description: 'Shop drawings only: Google Drive link to the architectural drawings' },
+      specsLink: { type: 'string', description: 'Shop drawings only: Google Drive link to the specs' }
+    },
+    required: ['kind', 'projectName', 'bidDate']
+  },
+  showResult: true,
+  handler: async (args, context) => {
+    if (!context.supabase) {
+      throw new Error('Vendor emails are only available to signed-in users');
+    }
+    return draftVendorEmail(args, await listContacts(context.supabase));
+  }
+});
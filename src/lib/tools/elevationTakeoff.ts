@@ -0,0 +1,45 @@
+import { calculateElevationTakeoff, loadEstimatingRates, type ElevationInput, type ElevationTakeoff } from '@/lib/estimating';
+import { defineTool } from './registry';
+
+export const elevationTakeoffTool = defineTool<ElevationInput, ElevationTakeoff>({
+  name: 'storefront_elevation_takeoff',
+  description: 'Takeoff for one storefront or curtainwall elevation with First Glass standards (4½" × 2" storefront frame): frame linear footage by member, glass lite sizes and square footage per glass type, door count and glass stop locations. Describe the elevation by overall size, number of equal bays, intermediate horizontal heights and door openings. Use this instead of working out lite sizes yourself.',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Elevation label, e.g. "E1 – North entrance"' },
+      systemType: { type: 'string', enum: ['storefront', 'curtainwall'] },
+      widthIn: { type: 'number', description: 'Overall frame width in inches' },
+      heightIn: { type: 'number', description: 'Overall frame height in inches' },
+      bays: { type: 'integer', description: 'Number of equal bays across the width' },
+      horizontalsIn: {
+        type: 'array',
+        description: 'Centerline heights of intermediate horizontal mullions, in inches from the bottom of the frame',
+        items: { type: 'number' }
+      },
+      doors: {
+        type: 'array',
+        description: 'Door openings',
+        items: {
+          type: 'object',
+          properties: {
+            bay: { type: 'integer', description: 'Bay number, 1 = leftmost looking at the exterior' },
+            type: { type: 'string', enum: ['single', 'pair'] },
+            heightIn: { type: 'number', description: 'Door opening height in inches (default 84)' }
+          },
+          required: ['bay']
+        }
+      },
+      glassType: { type: 'string', description: 'Glass type for all lites, e.g. "GL-1 1\\" insulated"' },
+      rowGlassTypes: {
+        type: 'array',
+        description: 'Glass type per row of lites, bottom row first, overriding glassType',
+        items: { type: 'string' }
+      },
+      quantity: { type: 'integer', description: 'Number of identical elevations (default 1)' }
+    },
+    required: ['systemType', 'widthIn', 'heightIn', 'bays']
+  },
+  showResult: true,
+  handler: async (args) => calculateElevationTakeoff(args, await loadEstimatingRates())
+});
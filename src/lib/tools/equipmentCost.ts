@@ -0,0 +1,18 @@
+import { calculateEquipment, loadEstimatingRates, type EquipmentEstimate, type EquipmentInput } from '@/lib/estimating';
+import { PRICING_ROLES } from '@/lib/profiles';
+import { defineTool } from './registry';
+
+export const equipmentCostTool = defineTool<EquipmentInput, EquipmentEstimate>({
+  name: 'equipment_cost',
+  description: 'Decide whether a job needs a lift and price it with the current First Glass equipment rules (e.g. frames over 12 ft or work on the second floor or above need a 65\' boom lift, billed monthly plus delivery and pickup). Use this for every bid instead of applying the lift rule yourself, and add the total to calculate_bid as an additional cost.',
+  parameters: {
+    type: 'object',
+    properties: {
+      heightFt: { type: 'number', description: 'Height of the tallest frame in feet' },
+      floor: { type: 'integer', description: 'Floor the work is on, 1 = ground floor' },
+      durationWeeks: { type: 'number', description: 'Weeks the equipment is needed on site (default 4)' }
+    }
+  },
+  roles: PRICING_ROLES,
+  handler: async (args) => calculateEquipment(args, await loadEstimatingRates())
+});
@@ -0,0 +1,78 @@
+import { extractHtml } from '@/lib/extract/html';
+import { extractPdf } from '@/lib/extract/pdf';
+import { safeFetch } from '@/lib/net/safeFetch';
+import { defineTool } from './registry';
+
+const FETCH_TIMEOUT_MS = Number(process.env.FETCH_URL_TIMEOUT_MS) || 10000;
+const MAX_BYTES = Number(process.env.FETCH_URL_MAX_BYTES) || 5 * 1024 * 1024;
+const MAX_TEXT_CHARS = 20000;
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+const TEXT_TYPES = ['text/plain', 'text/markdown', 'text/csv'];
+const PDF_TYPES = ['application/pdf'];
+
+type FetchUrlResult = {
+  url: string; // Source URL after redirects, for citing
+  title: string | null;
+  contentType: string;
+  pages?: number;
+  text: string;
+  truncated: boolean;
+};
+
+async function fetchReadableText(url: string, signal: AbortSignal): Promise<FetchUrlResult> {
+  console.log('Fetching URL:', url);
+
+  const response = await safeFetch(url, {
+    maxBytes: MAX_BYTES,
+    signal: AbortSignal.any([signal, AbortSignal.timeout(FETCH_TIMEOUT_MS)]),
+    headers: {
+      'Accept': [...HTML_TYPES, ...PDF_TYPES, ...TEXT_TYPES].join(', '),
+      'User-Agent': 'FirstGlassAssistant/1.0 (+https://firstglassar.com)'
+    }
+  });
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+
+  let title: string | null = null;
+  let text: string;
+  let pages: number | undefined;
+
+  if (HTML_TYPES.includes(response.contentType)) {
+    ({ title, text } = extractHtml(new TextDecoder().decode(response.body)));
+  } else if (PDF_TYPES.includes(response.contentType)) {
+    const pdf = await extractPdf(response.body);
+    title = pdf.title;
+    pages = pdf.pages.length;
+    text = pdf.pages.map((page, index) => `[Page ${index + 1}]\n${page}`).join('\n\n');
+  } else if (TEXT_TYPES.includes(response.contentType)) {
+    text = new TextDecoder().decode(response.body).trim();
+  } else {
+    throw new Error(`Unsupported content type: ${response.contentType || 'unknown'}`);
+  }
+
+  return {
+    url: response.url,
+    title,
+    contentType: response.contentType,
+    pages,
+    text: text.slice(0, MAX_TEXT_CHARS),
+    truncated: text.length > MAX_TEXT_CHARS
+  };
+}
+
+export const fetchUrlTool = defineTool<{ url: string }, FetchUrlResult>({
+  name: 'fetch_url',
+  description: 'Download a public web page or PDF (for example a manufacturer spec sheet) and return its readable text along with the source URL. Use after web_search to read a result in full. Cite the returned url when using the content.',
+  parameters: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', description: 'Absolute http(s) URL to fetch' }
+    },
+    required: ['url']
+  },
+  timeoutMs: FETCH_TIMEOUT_MS + 5000, // Leaves time for PDF extraction
+  handler: ({ url }, { signal }) => fetchReadableText(url, signal)
+});
@@ -0,0 +1,29 @@
+import { calculateBidTool } from './calculateBid';
+import { doorConfigTool } from './doorConfig';
+import { draftVendorEmailTool } from './draftVendorEmail';
+import { elevationTakeoffTool } from './elevationTakeoff';
+import { equipmentCostTool } from './equipmentCost';
+import { fetchUrlTool } from './fetchUrl';
+import { lookupContactTool } from './lookupContact';
+import { createProjectTool, listProjectsTool, updateProjectTool } from './projects';
+import { registerTool } from './registry';
+import { saveProposalTool } from './saveProposal';
+import { sealantTakeoffTool } from './sealantTakeoff';
+import { webSearchTool } from './webSearch';
+
+export * from './registry';
+
+// Register company tools here
+registerTool(webSearchTool);
+registerTool(fetchUrlTool);
+registerTool(calculateBidTool);
+registerTool(sealantTakeoffTool);
+registerTool(elevationTakeoffTool);
+registerTool(equipmentCostTool);
+registerTool(doorConfigTool);
+registerTool(draftVendorEmailTool);
+registerTool(saveProposalTool);
+registerTool(lookupContactTool);
+registerTool(listProjectsTool);
+registerTool(createProjectTool);
+registerTool(updateProjectTool);
@@ -0,0 +1,66 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Contact } from '@/lib/contacts';
+import { runToolCall } from '@/lib/tools';
+
+function contact(fields: Partial<Contact>): Contact {
+  return {
+    id: fields.name ?? 'contact',
+    name: 'Contact',
+    role: null,
+    company: 'First Glass of Arkansas',
+    email: null,
+    phone: null,
+    notes: null,
+    restricted: false,
+    created_at: '2025-08-01T00:00:00Z',
+    updated_at: '2025-08-01T00:00:00Z',
+    ...fields
+  };
+}
+
+// What the contacts query returns; the filtering under test happens after it,
+// so this stands in for a database without the restricted-contacts policy
+const DIRECTORY = [
+  contact({ name: 'Tiffin Hubbard', role: 'Owner', email: 'Tiffin@FirstGlassAR.com', restricted: true }),
+  contact({ name: 'Nat Long', role: 'Senior Project Manager', email: 'Nat@FirstGlassAR.com' })
+];
+
+const supabase = {
+  from: () => ({
+    select: () => ({
+      order: () => ({ order: async () => ({ data: DIRECTORY, error: null }) })
+    })
+  })
+} as unknown as SupabaseClient;
+
+async function lookup(query: string, role?: 'employee' | 'field' | 'estimator' | 'project_manager' | 'admin') {
+  const output = await runToolCall({ id: 'call_1', name: 'lookup_contact', arguments: JSON.stringify({ query }) }, { supabase, role });
+  return JSON.parse(output.output);
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('lookup_contact', () => {
+  it('finds restricted contacts for estimators, project managers and admins', async () => {
+    for (const role of ['estimator', 'project_manager', 'admin'] as const) {
+      const result = await lookup('owner', role);
+      expect(result.contacts.map((entry: Contact) => entry.name)).toEqual(['Tiffin Hubbard']);
+    }
+  });
+
+  it('leaves restricted contacts out for other roles', async () => {
+    for (const role of ['employee', 'field', undefined] as const) {
+      expect(await lookup('owner', role)).toEqual({ query: 'owner', contacts: [] });
+      expect((await lookup('first glass', role)).contacts.map((entry: Contact) => entry.name)).toEqual(['Nat Long']);
+    }
+  });
+
+  it('needs a signed-in user', async () => {
+    const output = await runToolCall({ id: 'call_1', name: 'lookup_contact', arguments: '{"query": "owner"}' }, { role: 'admin' });
+    expect(JSON.parse(output.output)).toMatchObject({ error: { code: 'tool_failed', message: 'The contacts directory is only available to signed-in users' } });
+  });
+});
@@ -0,0 +1,38 @@
+import { listContacts, matchContacts, type Contact } from '@/lib/contacts';
+import { DEFAULT_ROLE, canSeeRestrictedContacts } from '@/lib/profiles';
+import { defineTool } from './registry';
+
+type LookupContactArgs = {
+  query: string;
+};
+
+export type ContactLookup = {
+  query: string;
+  contacts: Contact[];
+};
+
+export const lookupContactTool = defineTool<LookupContactArgs, ContactLookup>({
+  name: 'lookup_contact',
+  description: 'Look up people in the First Glass contacts directory: staff, general contractors and vendor reps, with role, company, email and phone. Always use this for contact details instead of answering from memory, since people change roles and leave. Search by name, role or company (e.g. "owner", "Nat Long", "Tristar"). The chat shows the matches as contact cards, so do not repeat their emails and phone numbers in your answer.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Name, role or company to search for' }
+    },
+    required: ['query']
+  },
+  showResult: true,
+  handler: async ({ query }, context) => {
+    if (!context.supabase) {
+      throw new Error('The contacts directory is only available to signed-in users');
+    }
+    if (!query?.trim()) throw new Error('query is required');
+
+    // RLS already hides restricted contacts from other roles; filter here too
+    // so a missed migration cannot hand them out
+    const visible = (await listContacts(context.supabase))
+      .filter(contact => !contact.restricted || canSeeRestrictedContacts(context.role ?? DEFAULT_ROLE));
+    const contacts = matchContacts(visible, query);
+    return { query: query.trim(), contacts };
+  }
+});
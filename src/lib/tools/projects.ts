@@ -0,0 +1,176 @@
+import {
+  BID_PERIODS,
+  PROJECT_STATUSES,
+  companyToday,
+  createProject,
+  getProject,
+  listProjects,
+  parseBidDate,
+  periodRange,
+  updateProject,
+  type BidPeriod,
+  type Project,
+  type ProjectFields,
+  type ProjectStatus
+} from '@/lib/projects';
+import { defineTool, type JSONSchema, type ToolContext } from './registry';
+
+type ProjectArgs = {
+  name?: string;
+  gcName?: string;
+  bidDate?: string;
+  projectManager?: string;
+  estimator?: string;
+  status?: ProjectStatus;
+  scope?: string;
+};
+
+type UpdateProjectArgs = ProjectArgs & {
+  projectId?: string;
+  projectName?: string;
+};
+
+type ListProjectsArgs = {
+  period?: BidPeriod;
+  from?: string;
+  to?: string;
+  status?: ProjectStatus;
+  name?: string;
+};
+
+export type ProjectList = {
+  today: string;
+  from?: string;
+  to?: string;
+  projects: Project[];
+};
+
+const PROJECT_PROPERTIES: Record<string, JSONSchema> = {
+  name: { type: 'string', description: 'Project name, e.g. Central Plaza' },
+  gcName: { type: 'string', description: 'General contractor' },
+  bidDate: { type: 'string', description: 'Bid date, e.g. 8/15/25 or 2025-08-15' },
+  projectManager: { type: 'string', description: 'Assigned project manager' },
+  estimator: { type: 'string', description: 'Assigned estimator' },
+  status: { type: 'string', enum: PROJECT_STATUSES, description: 'pending until the bid is awarded' },
+  scope: { type: 'string', description: 'Our scope, e.g. storefront, curtainwall and entrances' }
+};
+
+function requireSupabase(context: ToolContext) {
+  if (!context.supabase) {
+    throw new Error('Projects are only available to signed-in users');
+  }
+  return context.supabase;
+}
+
+function toFields(args: ProjectArgs): ProjectFields {
+  if (args.status !== undefined && !PROJECT_STATUSES.includes(args.status)) {
+    throw new Error(`status must be one of: ${PROJECT_STATUSES.join(', ')}`);
+  }
+
+  let bidDate: string | undefined;
+  if (args.bidDate !== undefined) {
+    bidDate = parseBidDate(args.bidDate) ?? undefined;
+    if (!bidDate) throw new Error(`Could not read bid date "${args.bidDate}"; use M/D/YY or YYYY-MM-DD`);
+  }
+
+  const fields: ProjectFields = {
+    name: args.name?.trim(),
+    gc_name: args.gcName,
+    bid_date: bidDate,
+    project_manager: args.projectManager,
+    estimator: args.estimator,
+    status: args.status,
+    scope: args.scope
+  };
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+function parseDateArg(value: string | undefined, name: string) {
+  if (value === undefined) return undefined;
+  const date = parseBidDate(value);
+  if (!date) throw new Error(`Could not read ${name} "${value}"; use M/D/YY or YYYY-MM-DD`);
+  return date;
+}
+
+export const createProjectTool = defineTool<ProjectArgs, Project>({
+  name: 'create_project',
+  description: 'Add a project to the First Glass bid list when a user starts estimating a job that is not there yet (check with list_projects first). Projects feed the bid calendar.',
+  parameters: {
+    type: 'object',
+    properties: PROJECT_PROPERTIES,
+    required: ['name']
+  },
+  handler: async (args, context) => {
+    const supabase = requireSupabase(context);
+    const fields = toFields(args);
+    if (!fields.name) throw new Error('name is required');
+    return createProject(supabase, context.userId || null, { ...fields, name: fields.name });
+  }
+});
+
+export const updateProjectTool = defineTool<UpdateProjectArgs, Project>({
+  name: 'update_project',
+  description: 'Change a project on the bid list: bid date, GC, assigned PM or estimator, scope, or mark it won or lost. Identify it by projectId, or by projectName when the id is not known.',
+  parameters: {
+    type: 'object',
+    properties: {
+      projectId: { type: 'string' },
+      projectName: { type: 'string', description: 'Current project name, used when projectId is not given' },
+      ...PROJECT_PROPERTIES,
+      name: { type: 'string', description: 'New project name' }
+    }
+  },
+  handler: async (args, context) => {
+    const supabase = requireSupabase(context);
+    const { projectId, projectName, ...rest } = args;
+
+    let id = projectId;
+    if (!id) {
+      if (!projectName?.trim()) throw new Error('projectId or projectName is required');
+      const matches = await listProjects(supabase, { name: projectName.trim() });
+      const exact = matches.filter(project => project.name.toLowerCase() === projectName.trim().toLowerCase());
+      const candidates = exact.length > 0 ? exact : matches;
+      if (candidates.length === 0) throw new Error(`No project found named "${projectName}"`);
+      if (candidates.length > 1) {
+        throw new Error(`Several projects match "${projectName}": ${candidates.map(project => project.name).join(', ')}. Ask which one, then pass its projectId`);
+      }
+      id = candidates[0].id;
+    }
+
+    const fields = toFields(rest);
+    const project = Object.keys(fields).length > 0
+      ? await updateProject(supabase, id, fields)
+      : await getProject(supabase, id);
+    if (!project) throw new Error(`No project found with id ${id}`);
+    return project;
+  }
+});
+
+export const listProjectsTool = defineTool<ListProjectsArgs, ProjectList>({
+  name: 'list_projects',
+  description: 'List projects on the First Glass bid list, soonest bid date first, e.g. "what bids are due this week?" or "which jobs did we win?". Use period for relative ranges (weeks run Monday to Sunday in Central time), or from/to for specific dates.',
+  parameters: {
+    type: 'object',
+    properties: {
+      period: { type: 'string', enum: BID_PERIODS, description: 'Bid date range relative to today' },
+      from: { type: 'string', description: 'Bid dates on or after this date' },
+      to: { type: 'string', description: 'Bid dates on or before this date' },
+      status: { type: 'string', enum: PROJECT_STATUSES },
+      name: { type: 'string', description: 'Part of the project name' }
+    }
+  },
+  handler: async (args, context) => {
+    const supabase = requireSupabase(context);
+    if (args.period !== undefined && !BID_PERIODS.includes(args.period)) {
+      throw new Error(`period must be one of: ${BID_PERIODS.join(', ')}`);
+    }
+
+    const today = companyToday();
+    const range = args.period ? periodRange(args.period, today) : {};
+    const from = parseDateArg(args.from, 'from') ?? range.from;
+    const to = parseDateArg(args.to, 'to') ?? range.to;
+
+    const projects = await listProjects(supabase, { from, to, status: args.status, name: args.name?.trim() || undefined });
+    return { today, from, to, projects };
+  }
+});
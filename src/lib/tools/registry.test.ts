@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getLLMProvider, type RunEvent } from '@/lib/llm';
+import { PRICING_ROLES } from '@/lib/profiles';
+import { defineTool, getDisplayedResult, listToolSchemas, registerTool, runToolCall, runToolCalls } from '@/lib/tools';
+
+// Calls of test_echo in flight, and the most at once
+let running = 0;
+let mostRunning = 0;
+
+const echoTool = defineTool<{ text: string; delayMs?: number }, { echoed: string }>({
+  name: 'test_echo',
+  description: 'Echoes the text back',
+  parameters: {
+    type: 'object',
+    properties: {
+      text: { type: 'string' },
+      delayMs: { type: 'number' },
+      tone: { type: 'string', enum: ['plain', 'loud'] }
+    },
+    required: ['text']
+  },
+  showResult: true,
+  handler: async ({ text, delayMs }) => {
+    running += 1;
+    mostRunning = Math.max(mostRunning, running);
+    if (delayMs) await new Promise(resolve => setTimeout(resolve, delayMs));
+    running -= 1;
+    return { echoed: text };
+  }
+});
+
+let slowSignal: AbortSignal | null = null;
+
+const slowTool = defineTool({
+  name: 'test_slow',
+  description: 'Never finishes',
+  parameters: { type: 'object', properties: {} },
+  timeoutMs: 20,
+  handler: (_args, { signal }) => {
+    slowSignal = signal;
+    return new Promise(() => {});
+  }
+});
+
+const failingTool = defineTool({
+  name: 'test_failing',
+  description: 'Always throws',
+  parameters: { type: 'object', properties: {} },
+  handler: async () => {
+    throw new Error('Supplier catalog is down');
+  }
+});
+
+function call(name: string, args: object | string = {}, id = `call_${name}`) {
+  return { id, name, arguments: typeof args === 'string' ? args : JSON.stringify(args) };
+}
+
+async function collect(events: AsyncIterable<RunEvent>) {
+  const collected: RunEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+function outputOf(toolOutput: { output: string }) {
+  return JSON.parse(toolOutput.output);
+}
+
+beforeEach(() => {
+  registerTool(echoTool);
+  registerTool(slowTool);
+  registerTool(failingTool);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('runToolCall', () => {
+  it('runs the handler with parsed arguments', async () => {
+    expect(await runToolCall(call('test_echo', { text: 'hi' }, 'call_1'))).toEqual({ toolCallId: 'call_1', output: '{"echoed":"hi"}' });
+  });
+
+  it('answers unknown tools with an error output', async () => {
+    expect(outputOf(await runToolCall(call('test_missing')))).toEqual({
+      error: { code: 'unknown_tool', tool: 'test_missing', message: 'No tool named test_missing is available' }
+    });
+  });
+
+  it('rejects arguments that fail validation', async () => {
+    const cases: Array<[object | string, string]> = [
+      ['{"text": ', 'Arguments are not valid JSON'],
+      ['[]', 'Arguments must be a JSON object'],
+      [{}, 'Missing required argument: text'],
+      [{ text: 42 }, 'Argument text must be of type string'],
+      [{ text: 'hi', tone: 'quiet' }, 'Argument tone must be one of: plain, loud']
+    ];
+
+    for (const [args, message] of cases) {
+      expect(outputOf(await runToolCall(call('test_echo', args)))).toEqual({ error: { code: 'invalid_arguments', tool: 'test_echo', message } });
+    }
+  });
+
+  it('turns a throwing handler into a tool_failed error', async () => {
+    expect(outputOf(await runToolCall(call('test_failing')))).toEqual({
+      error: { code: 'tool_failed', tool: 'test_failing', message: 'Supplier catalog is down' }
+    });
+  });
+
+  it('times out slow handlers and aborts their signal', async () => {
+    expect(outputOf(await runToolCall(call('test_slow')))).toEqual({
+      error: { code: 'timeout', tool: 'test_slow', message: 'Tool test_slow timed out after 20ms' }
+    });
+    expect(slowSignal?.aborted).toBe(true);
+  });
+});
+
+describe('runToolCalls', () => {
+  it('runs calls in parallel and returns outputs in request order', async () => {
+    mostRunning = 0;
+    const outputs = await runToolCalls([
+      call('test_echo', { text: 'first', delayMs: 30 }, 'call_1'),
+      call('test_echo', { text: 'second', delayMs: 10 }, 'call_2'),
+      call('test_echo', { text: 'third' }, 'call_3')
+    ]);
+
+    expect(outputs.map(output => output.toolCallId)).toEqual(['call_1', 'call_2', 'call_3']);
+    expect(outputs.map(output => outputOf(output).echoed)).toEqual(['first', 'second', 'third']);
+    expect(mostRunning).toBe(3);
+  });
+
+  it('answers a stub run that requests tools', async () => {
+    const llm = getLLMProvider()!;
+    const threadId = await llm.createThread();
+    await llm.addMessage(threadId, '/tool test_echo {"text": "from the stub"} && /tool test_missing {}');
+
+    const [requiresAction] = await collect(await llm.runStream(threadId, { tools: listToolSchemas() }));
+    if (requiresAction.type !== 'run') throw new Error('Expected a run event');
+    expect(requiresAction.status).toBe('requires_action');
+
+    const outputs = await runToolCalls(requiresAction.toolCalls!);
+    const reply = await collect(await llm.submitToolOutputs(threadId, requiresAction.runId, outputs));
+    const text = reply.map(event => (event.type === 'text' ? event.text : '')).join('');
+
+    expect(text).toContain('test_echo returned: {"echoed":"from the stub"}');
+    expect(text).toContain('test_missing returned: {"error":{"code":"unknown_tool"');
+  });
+});
+
+describe('role-limited tools', () => {
+  it('hides pricing tools from roles outside PRICING_ROLES', () => {
+    const names = (role?: Parameters<typeof listToolSchemas>[0]) => listToolSchemas(role).map(schema => schema.name);
+
+    for (const role of PRICING_ROLES) {
+      expect(names(role)).toEqual(expect.arrayContaining(['calculate_bid', 'sealant_anchor_takeoff', 'equipment_cost', 'save_proposal']));
+    }
+    for (const role of ['employee', 'field', undefined] as const) {
+      expect(names(role)).not.toContain('calculate_bid');
+      expect(names(role)).not.toContain('equipment_cost');
+      expect(names(role)).toContain('validate_door_config');
+    }
+  });
+
+  it('refuses a pricing tool the model names anyway', async () => {
+    expect(outputOf(await runToolCall(call('calculate_bid'), { role: 'field' }))).toEqual({
+      error: { code: 'not_allowed', tool: 'calculate_bid', message: "calculate_bid is not available to this user's role" }
+    });
+  });
+});
+
+describe('getDisplayedResult', () => {
+  it('shows successful results of tools that show them', () => {
+    expect(getDisplayedResult({ id: 'call_1', name: 'test_echo', output: '{"echoed":"hi"}' })).toEqual({ toolCallId: 'call_1', name: 'test_echo', result: { echoed: 'hi' } });
+    expect(getDisplayedResult({ id: 'call_1', name: 'test_echo', output: '{"error":{"code":"tool_failed"}}' })).toBeNull();
+    expect(getDisplayedResult({ id: 'call_1', name: 'test_failing', output: '{}' })).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ToolCall, ToolOutput, ToolSchema } from '@/lib/llm';
+import type { Role } from '@/lib/profiles';
+
+// Typed registry for assistant function tools. Each tool declares its name,
+// JSON schema, handler and timeout; the chatbot routes dispatch through here.
+
+export type JSONSchema = {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  additionalProperties?: boolean | JSONSchema;
+};
+
+export type ToolContext = {
+  userId?: string;
+  chatId?: string;
+  supabase?: SupabaseClient; // Acts as the signed-in user, so RLS applies to what tools read and write
+  role?: Role; // Signed-in user's role; tools limited to roles are refused without one
+  signal: AbortSignal; // Aborted when the tool times out
+};
+
+export type ToolDefinition<Args = Record<string, unknown>, Result = unknown> = {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+  timeoutMs?: number;
+  showResult?: boolean; // Send successful results to the chat UI, which renders them as cards
+  roles?: Role[]; // Roles allowed to use the tool; everyone when unset
+  handler: (args: Args, context: ToolContext) => Promise<Result>;
+};
+
+// Tool result forwarded to the chat UI
+export type DisplayedToolResult = {
+  toolCallId: string;
+  name: string;
+  result: unknown;
+};
+
+export type ToolErrorCode = 'unknown_tool' | 'not_allowed' | 'invalid_arguments' | 'timeout' | 'tool_failed';
+
+export type ToolError = {
+  error: {
+    code: ToolErrorCode;
+    tool: string;
+    message: string;
+  };
+};
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const registry = new Map<string, ToolDefinition>();
+
+export class ToolTimeoutError extends Error {
+  constructor(toolName: string, timeoutMs: number) {
+    super(`Tool ${toolName} timed out after ${timeoutMs}ms`);
+    this.name = 'ToolTimeoutError';
+  }
+}
+
+// Helper so tool modules get typed arguments while the registry stores one shape
+export function defineTool<Args extends object, Result>(tool: ToolDefinition<Args, Result>): ToolDefinition {
+  return tool as unknown as ToolDefinition;
+}
+
+// Registering a name again replaces the tool (modules are re-evaluated on reload in `next dev`)
+export function registerTool(tool: ToolDefinition) {
+  registry.set(tool.name, tool);
+}
+
+export function getTool(name: string) {
+  return registry.get(name);
+}
+
+export function listTools() {
+  return [...registry.values()];
+}
+
+export function isToolAllowed(tool: ToolDefinition, role?: Role) {
+  return !tool.roles || (!!role && tool.roles.includes(role));
+}
+
+// Schemas sent to the model with each run, limited to the tools the role may use
+export function listToolSchemas(role?: Role): ToolSchema[] {
+  return listTools().filter(tool => isToolAllowed(tool, role)).map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters
+  }));
+}
+
+// The result to show in the chat for a finished tool call, or null when the
+// tool does not show results or the call failed
+export function getDisplayedResult(toolCall: { id: string; name: string; output?: string }): DisplayedToolResult | null {
+  if (!registry.get(toolCall.name)?.showResult || !toolCall.output) return null;
+  try {
+    const result = JSON.parse(toolCall.output);
+    if (result && typeof result === 'object' && 'error' in result) return null;
+    return { toolCallId: toolCall.id, name: toolCall.name, result };
+  } catch {
+    return null;
+  }
+}
+
+function toolError(code: ToolErrorCode, tool: string, message: string): ToolError {
+  return { error: { code, tool, message } };
+}
+
+// Check the top-level shape of the arguments against the tool's schema
+function validateArguments(schema: JSONSchema, args: unknown): string | null {
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    return 'Arguments must be a JSON object';
+  }
+
+  const values = args as Record<string, unknown>;
+
+  for (const key of schema.required || []) {
+    if (values[key] === undefined || values[key] === null) {
+      return `Missing required argument: ${key}`;
+    }
+  }
+
+  for (const [key, property] of Object.entries(schema.properties || {})) {
+    const value = values[key];
+    if (value === undefined || value === null || !property.type) continue;
+
+    const actualType = Array.isArray(value) ? 'array' : typeof value;
+    const expectedType = property.type === 'integer' ? 'number' : property.type;
+    if (actualType !== expectedType) {
+      return `Argument ${key} must be of type ${property.type}`;
+    }
+    if (property.enum && !property.enum.includes(value as string | number)) {
+      return `Argument ${key} must be one of: ${property.enum.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+async function runWithTimeout<T>(tool: ToolDefinition, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const timeoutMs = tool.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ToolTimeoutError(tool.name, timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function runToolCall(toolCall: ToolCall, context: Omit<ToolContext, 'signal'> = {}): Promise<ToolOutput> {
+  const respond = (result: unknown): ToolOutput => ({
+    toolCallId: toolCall.id,
+    output: JSON.stringify(result)
+  });
+
+  const tool = registry.get(toolCall.name);
+  if (!tool) {
+    console.error('Unknown tool requested:', toolCall.name);
+    return respond(toolError('unknown_tool', toolCall.name, `No tool named ${toolCall.name} is available`));
+  }
+
+  // The model only sees allowed tools, but may still name another one
+  if (!isToolAllowed(tool, context.role)) {
+    return respond(toolError('not_allowed', tool.name, `${tool.name} is not available to this user's role`));
+  }
+
+  let args: unknown;
+  try {
+    args = JSON.parse(toolCall.arguments || '{}');
+  } catch {
+    return respond(toolError('invalid_arguments', tool.name, 'Arguments are not valid JSON'));
+  }
+
+  const validationError = validateArguments(tool.parameters, args);
+  if (validationError) {
+    return respond(toolError('invalid_arguments', tool.name, validationError));
+  }
+
+  try {
+    console.log('Running tool:', tool.name, args);
+    const result = await runWithTimeout(tool, signal => tool.handler(args as Record<string, unknown>, { ...context, signal }));
+    return respond(result);
+  } catch (error) {
+    console.error(`Error in ${tool.name} tool:`, error);
+    if (error instanceof ToolTimeoutError) {
+      return respond(toolError('timeout', tool.name, error.message));
+    }
+    return respond(toolError('tool_failed', tool.name, error instanceof Error ? error.message : 'Unknown error'));
+  }
+}
+
+// Independent tool calls from the same step run in parallel
+export function runToolCalls(toolCalls: ToolCall[], context: Omit<ToolContext, 'signal'> = {}): Promise<ToolOutput[]> {
+  return Promise.all(toolCalls.map(toolCall => runToolCall(toolCall, context)));
+}
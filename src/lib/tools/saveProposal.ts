@@ -0,0 +1,120 @@
+import type { EmailDraft } from '@/lib/vendorEmail';
+import {
+  createProposal,
+  draftCoverEmail,
+  getProposal,
+  missingSections,
+  updateProposal,
+  type Proposal,
+  type ProposalFields,
+  type ProposalLineItem
+} from '@/lib/proposals';
+import { PRICING_ROLES } from '@/lib/profiles';
+import { defineTool } from './registry';
+
+type SaveProposalArgs = {
+  proposalId?: string;
+  projectName?: string;
+  gcName?: string;
+  recipientName?: string;
+  recipientEmail?: string;
+  bidDate?: string;
+  scopeOfWork?: string;
+  baseBid?: number;
+  alternates?: ProposalLineItem[];
+  clarifications?: string[];
+  exclusions?: string[];
+  paymentTerms?: string;
+  leadTimes?: string;
+  senderName?: string;
+};
+
+export type SavedProposal = {
+  proposal: Proposal;
+  missingSections: string[];
+  pdfUrl: string;
+  coverEmail: EmailDraft;
+};
+
+// Tool arguments to table columns; only the sections given are changed
+function toFields(args: SaveProposalArgs): ProposalFields {
+  const fields: ProposalFields = {
+    project_name: args.projectName?.trim(),
+    gc_name: args.gcName,
+    recipient_name: args.recipientName,
+    recipient_email: args.recipientEmail,
+    bid_date: args.bidDate,
+    scope_of_work: args.scopeOfWork,
+    base_bid: args.baseBid,
+    alternates: args.alternates,
+    clarifications: args.clarifications,
+    exclusions: args.exclusions,
+    payment_terms: args.paymentTerms,
+    lead_times: args.leadTimes
+  };
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+export const saveProposalTool = defineTool<SaveProposalArgs, SavedProposal>({
+  name: 'save_proposal',
+  description: 'Create or update a bid proposal. A proposal needs scope of work, base bid, alternates, clarifications, exclusions, payment terms and lead times; collect them from the user and save as you go. Call without proposalId to start one (projectName required), then with the returned proposal id to fill in or change sections; list sections replace the saved list. The chat shows the proposal with a PDF download and the cover email, so do not repeat them in your answer.',
+  parameters: {
+    type: 'object',
+    properties: {
+      proposalId: { type: 'string', description: 'Id of the proposal to update; omit to create one' },
+      projectName: { type: 'string' },
+      gcName: { type: 'string', description: 'General contractor the proposal goes to' },
+      recipientName: { type: 'string', description: 'GC contact name' },
+      recipientEmail: { type: 'string', description: 'GC contact email' },
+      bidDate: { type: 'string', description: 'Bid date, e.g. 8/15/25' },
+      scopeOfWork: { type: 'string' },
+      baseBid: { type: 'number', description: 'Base bid in dollars' },
+      alternates: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            description: { type: 'string' },
+            amount: { type: 'number', description: 'Add (positive) or deduct (negative) in dollars' }
+          },
+          required: ['description', 'amount']
+        }
+      },
+      clarifications: { type: 'array', items: { type: 'string' } },
+      exclusions: { type: 'array', items: { type: 'string' } },
+      paymentTerms: { type: 'string' },
+      leadTimes: { type: 'string', description: 'e.g. shop drawings, glass and frame lead times' },
+      senderName: { type: 'string', description: 'Estimator name for the cover email signature' }
+    }
+  },
+  showResult: true,
+  roles: PRICING_ROLES,
+  handler: async (args, context) => {
+    if (!context.supabase || !context.userId) {
+      throw new Error('Proposals can only be saved by signed-in users');
+    }
+
+    const fields = toFields(args);
+    let proposal: Proposal | null;
+    if (args.proposalId) {
+      proposal = Object.keys(fields).length > 0
+        ? await updateProposal(context.supabase, args.proposalId, fields)
+        : await getProposal(context.supabase, args.proposalId);
+      if (!proposal) throw new Error(`No proposal found with id ${args.proposalId}`);
+    } else {
+      if (!fields.project_name) throw new Error('projectName is required to start a proposal');
+      proposal = await createProposal(context.supabase, context.userId, {
+        ...fields,
+        project_name: fields.project_name,
+        chat_id: context.chatId || null
+      });
+    }
+
+    return {
+      proposal,
+      missingSections: missingSections(proposal),
+      pdfUrl: `/api/proposals/${proposal.id}/pdf`,
+      coverEmail: draftCoverEmail(proposal, args.senderName)
+    };
+  }
+});
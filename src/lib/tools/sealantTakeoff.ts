@@ -0,0 +1,35 @@
+import { calculateSealantTakeoff, loadEstimatingRates, type SealantTakeoff, type SealantTakeoffInput } from '@/lib/estimating';
+import { PRICING_ROLES } from '@/lib/profiles';
+import { defineTool } from './registry';
+
+export const sealantTakeoffTool = defineTool<SealantTakeoffInput, SealantTakeoff>({
+  name: 'sealant_anchor_takeoff',
+  description: 'Sealant (caulk) and windload anchor takeoff with First Glass standards: joint size and feet per case by system, 10% waste, sausages per case, backer rod, and one anchor per slab line per vertical mullion with anchor material and labor cost. Give joint lengths and/or opening sizes for sealant, mullion and slab line counts for anchors. Use this instead of calculating quantities yourself.',
+  parameters: {
+    type: 'object',
+    properties: {
+      systemType: { type: 'string', enum: ['storefront', 'curtainwall'] },
+      jointLengthFt: { type: 'number', description: 'Total measured sealant joint length in feet' },
+      openings: {
+        type: 'array',
+        description: 'Openings whose perimeter is sealed',
+        items: {
+          type: 'object',
+          properties: {
+            widthIn: { type: 'number', description: 'Width in inches' },
+            heightIn: { type: 'number', description: 'Height in inches' },
+            quantity: { type: 'integer', description: 'Number of identical openings (default 1)' }
+          },
+          required: ['widthIn', 'heightIn']
+        }
+      },
+      sealBothSides: { type: 'boolean', description: 'Perimeter sealed inside and outside (default exterior only)' },
+      verticalMullions: { type: 'integer', description: 'Number of vertical mullions' },
+      slabLines: { type: 'integer', description: 'Number of slab lines the mullions cross' },
+      anchorLaborHours: { type: 'number', description: 'Hours to install anchors, if known' }
+    },
+    required: ['systemType']
+  },
+  roles: PRICING_ROLES,
+  handler: async (args) => calculateSealantTakeoff(args, await loadEstimatingRates())
+});
@@ -0,0 +1,80 @@
+import { getSearchProvider, type SearchResult } from '@/lib/search';
+import { defineTool } from './registry';
+
+const SEARCH_TIMEOUT_MS = Number(process.env.SEARCH_TIMEOUT_MS) || 5000;
+const CACHE_TTL_MS = Number(process.env.SEARCH_CACHE_TTL_MS) || 10 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 200;
+const MAX_RESULTS = 8;
+
+type WebSearchResult = {
+  query: string;
+  source: string;
+  results: SearchResult[];
+};
+
+// Recent results by provider + query, oldest entries evicted first
+const cache = new Map<string, { expires: number; value: WebSearchResult }>();
+
+function readCache(key: string) {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  if (entry.expires < Date.now()) {
+    cache.delete(key);
+    return null;
+  }
+  return entry.value;
+}
+
+function writeCache(key: string, value: WebSearchResult) {
+  cache.delete(key);
+  cache.set(key, { expires: Date.now() + CACHE_TTL_MS, value });
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+async function performWebSearch(query: string, limit: number, signal: AbortSignal): Promise<WebSearchResult> {
+  const provider = getSearchProvider();
+  if (!provider) {
+    throw new Error('Web search is not configured');
+  }
+
+  const normalizedQuery = query.trim().replace(/\s+/g, ' ');
+  const cacheKey = `${provider.name}:${limit}:${normalizedQuery.toLowerCase()}`;
+
+  const cached = readCache(cacheKey);
+  if (cached) {
+    console.log('Web search cache hit:', normalizedQuery);
+    return cached;
+  }
+
+  console.log('Searching for:', normalizedQuery);
+
+  // Per-query timeout, on top of the tool timeout handled by the registry
+  const results = await provider.search(normalizedQuery, {
+    limit,
+    signal: AbortSignal.any([signal, AbortSignal.timeout(SEARCH_TIMEOUT_MS)])
+  });
+
+  const value = { query: normalizedQuery, source: provider.name, results };
+  writeCache(cacheKey, value);
+  return value;
+}
+
+export const webSearchTool = defineTool<{ query: string; limit?: number }, WebSearchResult>({
+  name: 'web_search',
+  description: 'Search the web for current information that is not in the company knowledge base. Returns a ranked list of results with title, url and snippet.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'The search query' },
+      limit: { type: 'integer', description: `Number of results to return (1-${MAX_RESULTS})`, minimum: 1, maximum: MAX_RESULTS }
+    },
+    required: ['query']
+  },
+  timeoutMs: SEARCH_TIMEOUT_MS + 2000,
+  handler: ({ query, limit }, { signal }) => {
+    const resultLimit = Math.min(Math.max(Math.round(limit || 5), 1), MAX_RESULTS);
+    return performWebSearch(query, resultLimit, signal);
+  }
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { Contact } from '@/lib/contacts';
+import { draftVendorEmail, findVendorRep, formatAddress, formatBidDate, toEml, toMailtoUrl } from '@/lib/vendorEmail';
+
+function contact(fields: Partial<Contact>): Contact {
+  return {
+    id: fields.name ?? 'contact',
+    name: 'Contact',
+    role: null,
+    company: null,
+    email: null,
+    phone: null,
+    notes: null,
+    restricted: false,
+    created_at: '2025-08-01T00:00:00Z',
+    updated_at: '2025-08-01T00:00:00Z',
+    ...fields
+  };
+}
+
+const DIRECTORY = [
+  contact({ name: 'Dana Ortiz', role: 'Inside sales', company: 'Tristar Glass', email: 'dana@tristarglass.com' }),
+  contact({ name: 'Blake Neafus', role: 'Glass rep', company: 'Tristar Glass', email: 'BlakeN@tristarglass.com' }),
+  contact({ name: 'Cheryl First', role: 'Hardware rep', company: 'IML', email: 'Cheryl.first@imlss.com' }),
+  contact({ name: 'Luke VanWyck', role: 'Shop drawings', company: 'Advantage Drafting', email: 'luke@advantagedrafting.com' })
+];
+
+describe('findVendorRep', () => {
+  it('picks the contact with the rep role at the vendor', () => {
+    expect(findVendorRep(DIRECTORY, 'glass')?.name).toBe('Blake Neafus');
+    expect(findVendorRep(DIRECTORY, 'hardware')?.name).toBe('Cheryl First');
+  });
+
+  it('falls back to anyone at the vendor with an email address', () => {
+    const contacts = [contact({ name: 'No Email', company: 'tristar glass ' }), DIRECTORY[0]];
+    expect(findVendorRep(contacts, 'glass')?.name).toBe('Dana Ortiz');
+    expect(findVendorRep([], 'glass')).toBeNull();
+  });
+});
+
+describe('draftVendorEmail', () => {
+  it('fills the glass template and greets the rep from the directory', () => {
+    const email = draftVendorEmail({
+      kind: 'glass',
+      projectName: ' Riverside Clinic ',
+      bidDate: '2025-08-15',
+      scope: 'Exterior storefront',
+      senderName: 'Sam'
+    }, DIRECTORY);
+
+    expect(email).toMatchObject({
+      kind: 'glass',
+      vendor: 'Tristar Glass',
+      from: { email: 'estimating@firstglassar.com' },
+      to: { name: 'Blake Neafus', email: 'BlakeN@tristarglass.com' },
+      subject: 'Glass Quote Request for Riverside Clinic – Bids 8/15/25',
+      attachments: ['Glazing spec section', 'Block sizes'],
+      notes: []
+    });
+    expect(email.body.startsWith('Good morning Blake,\n\nPlease quote the following for Riverside Clinic. Bid date is 8/15/25.\n\nScope: Exterior storefront\n\n')).toBe(true);
+    expect(email.body).toContain('Best regards,\nSam\nEstimator');
+    expect(email.body).not.toMatch(/\n{3,}|\{\w+\}/);
+  });
+
+  it('fills the shop drawings template with link placeholders', () => {
+    const email = draftVendorEmail({ kind: 'shop_drawings', projectName: 'Riverside Clinic', bidDate: '8/15/25', attachments: ['Door schedule'] }, DIRECTORY);
+
+    expect(email.to.email).toBe('luke@advantagedrafting.com');
+    expect(email.body).toContain('Our scope is: [Scope].');
+    expect(email.body).toContain('Architectural Drawings Google Drive Link: [Insert Link]');
+    expect(email.body).toContain('\nAttachments:\n- Door schedule\n');
+    expect(email.body).toContain('[Your Name]');
+    expect(email.attachments).toEqual(['Door schedule']);
+  });
+
+  it('leaves the recipient blank when the directory has no rep', () => {
+    const email = draftVendorEmail({ kind: 'hardware', projectName: 'Riverside Clinic', bidDate: '8/15/25' }, []);
+
+    expect(email.to).toEqual({ name: 'IML', email: '' });
+    expect(email.body.startsWith('Good morning,\n')).toBe(true);
+    expect(email.notes).toEqual(['No hardware rep at IML in the contacts directory; add the recipient before sending.']);
+  });
+
+  it('requires a known kind, a project name and a bid date', () => {
+    expect(() => draftVendorEmail({ kind: 'caulk' as never, projectName: 'A', bidDate: '8/15/25' }, DIRECTORY)).toThrow('kind must be one of: glass, hardware, shop_drawings');
+    expect(() => draftVendorEmail({ kind: 'glass', projectName: ' ', bidDate: '8/15/25' }, DIRECTORY)).toThrow('projectName is required');
+    expect(() => draftVendorEmail({ kind: 'glass', projectName: 'A', bidDate: '' }, DIRECTORY)).toThrow('bidDate is required');
+  });
+});
+
+describe('email helpers', () => {
+  it('formats bid dates the way our emails write them', () => {
+    expect(formatBidDate('2025-08-05')).toBe('8/5/25');
+    expect(formatBidDate(' Aug 5 ')).toBe('Aug 5');
+  });
+
+  it('builds mailto links and addresses', () => {
+    const email = draftVendorEmail({ kind: 'glass', projectName: 'A & B', bidDate: '8/15/25' }, DIRECTORY);
+    expect(toMailtoUrl(email)).toMatch(/^mailto:BlakeN@tristarglass\.com\?subject=Glass%20Quote%20Request%20for%20A%20%26%20B%20%E2%80%93%20Bids%208%2F15%2F25&body=Good%20morning%20Blake%2C/);
+    expect(formatAddress(email.to)).toBe('Blake Neafus <BlakeN@tristarglass.com>');
+    expect(formatAddress({ name: 'IML', email: '' })).toBe('IML');
+  });
+
+  it('writes .eml drafts with RFC 2047 encoded non-ASCII headers and CRLF lines', () => {
+    const email = draftVendorEmail({ kind: 'glass', projectName: 'Café Annex', bidDate: '8/15/25' }, [
+      contact({ name: 'Zoë Müller', role: 'Glass rep', company: 'Tristar Glass', email: 'zoe@tristarglass.com' })
+    ]);
+    const eml = toEml(email);
+    const headers = eml.slice(0, eml.indexOf('\r\n\r\n'));
+    const body = eml.slice(headers.length + 4);
+
+    expect(headers.split('\r\n')).toEqual([
+      'From: First Glass of Arkansas Estimating <estimating@firstglassar.com>',
+      `To: =?UTF-8?B?${Buffer.from('Zoë Müller').toString('base64')}?= <zoe@tristarglass.com>`,
+      `Subject: =?UTF-8?B?${Buffer.from('Glass Quote Request for Café Annex – Bids 8/15/25').toString('base64')}?=`,
+      'X-Unsent: 1',
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit'
+    ]);
+    expect(body.startsWith('Good morning Zoë,\r\n\r\n')).toBe(true);
+    expect(body).not.toMatch(/[^\r]\n/);
+  });
+
+  it('leaves To empty in an .eml draft without a recipient', () => {
+    const email = draftVendorEmail({ kind: 'glass', projectName: 'A', bidDate: '8/15/25' }, []);
+    expect(toEml(email)).toContain('\r\nTo: \r\n');
+  });
+});
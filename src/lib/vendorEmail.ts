@@ -0,0 +1,224 @@
+import type { Contact } from '@/lib/contacts';
+
+// Quote request emails to our regular vendors. The templates follow the emails
+// estimating sends today; every request goes out from the estimating inbox.
+// Each goes to the vendor's rep in the contacts directory, so a new rep only
+// needs the directory updated. The draft helpers at the bottom work for any
+// EmailDraft.
+
+export type VendorEmailKind = 'glass' | 'hardware' | 'shop_drawings';
+
+export type EmailAddress = {
+  name: string;
+  email: string;
+};
+
+export type VendorEmailInput = {
+  kind: VendorEmailKind;
+  projectName: string;
+  bidDate: string; // As written on the bid form, or YYYY-MM-DD
+  scope?: string;
+  attachments?: string[];
+  senderName?: string;
+  drawingsLink?: string; // Shop drawings only
+  specsLink?: string; // Shop drawings only
+};
+
+export type EmailDraft = {
+  from: EmailAddress;
+  to: EmailAddress;
+  subject: string;
+  body: string;
+  attachments: string[]; // Files to attach before sending
+};
+
+export type VendorEmail = EmailDraft & {
+  kind: VendorEmailKind;
+  vendor: string;
+  notes: string[];
+};
+
+type VendorTemplate = {
+  vendor: string; // Company in the contacts directory
+  repRole: string; // Role of the rep the requests go to
+  subject: string;
+  body: string;
+  defaultAttachments: string[];
+};
+
+export const ESTIMATING_SENDER: EmailAddress = { name: 'First Glass of Arkansas Estimating', email: 'estimating@firstglassar.com' };
+
+export const SIGNATURE = [
+  '{senderName}',
+  'Estimator',
+  'First Glass of Arkansas',
+  'Estimating@FirstGlassAR.com'
+].join('\n');
+
+// Placeholders in braces are filled by draftVendorEmail; {scopeLine} and
+// {attachmentList} are empty when not given, and {greeting} names the rep
+export const VENDOR_TEMPLATES: Record<VendorEmailKind, VendorTemplate> = {
+  glass: {
+    vendor: 'Tristar Glass',
+    repRole: 'Glass rep',
+    subject: 'Glass Quote Request for {projectName} – Bids {bidDate}',
+    body: [
+      '{greeting},',
+      '',
+      'Please quote the following for {projectName}. Bid date is {bidDate}.',
+      '{scopeLine}',
+      'Attached you’ll find the glazing spec section and block sizes. Glass types and square footages are noted.',
+      '{attachmentList}',
+      'Let me know if you need anything else.',
+      '',
+      'Thank you!',
+      '',
+      'Best regards,',
+      SIGNATURE
+    ].join('\n'),
+    defaultAttachments: ['Glazing spec section', 'Block sizes']
+  },
+  hardware: {
+    vendor: 'IML',
+    repRole: 'Hardware rep',
+    subject: 'Hardware Pricing Request – {projectName} (Bids {bidDate})',
+    body: [
+      '{greeting},',
+      '',
+      'Please see attached for the price request for hardware on the aluminum doors for {projectName}.',
+      'This project bids on {bidDate}.',
+      '{scopeLine}',
+      'I’ve highlighted the relevant doors on the door schedule and clouded their corresponding hardware schedules in the spec.',
+      '{attachmentList}',
+      'Let me know if you have any questions!',
+      '',
+      'Thank you,',
+      SIGNATURE
+    ].join('\n'),
+    defaultAttachments: ['Door schedule', 'Hardware spec section']
+  },
+  shop_drawings: {
+    vendor: 'Advantage Drafting',
+    repRole: 'Shop drawings',
+    subject: 'Shop Drawing Pricing Request – {projectName} (Bids {bidDate})',
+    body: [
+      'Good morning,',
+      '',
+      'Please see the attached link to specs and drawings and provide pricing for shop drawings.',
+      'Project name: {projectName}',
+      'Bid date: {bidDate}',
+      '',
+      'Our scope is: {scope}.',
+      '',
+      'Architectural Drawings Google Drive Link: {drawingsLink}',
+      'Specs Google Drive Link: {specsLink}',
+      '{attachmentList}',
+      'Let me know if you have any questions.',
+      '',
+      'Thank you!',
+      '',
+      'Best regards,',
+      SIGNATURE
+    ].join('\n'),
+    defaultAttachments: []
+  }
+};
+
+export const VENDOR_EMAIL_KINDS = Object.keys(VENDOR_TEMPLATES) as VendorEmailKind[];
+
+// 2025-08-15 -> 8/15/25, the way bid dates are written in our emails
+export function formatBidDate(date: string) {
+  const match = date.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return date.trim();
+  const [, year, month, day] = match;
+  return `${Number(month)}/${Number(day)}/${year.slice(2)}`;
+}
+
+export function fillTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+function sameText(a: string | null, b: string) {
+  return !!a && a.trim().toLowerCase() === b.toLowerCase();
+}
+
+// The vendor's rep for a kind of request: the contact at the vendor with the
+// template's role, else anyone at the vendor with an email address
+export function findVendorRep(contacts: Contact[], kind: VendorEmailKind): Contact | null {
+  const template = VENDOR_TEMPLATES[kind];
+  const atVendor = contacts.filter(contact => contact.email && sameText(contact.company, template.vendor));
+  return atVendor.find(contact => sameText(contact.role, template.repRole)) || atVendor[0] || null;
+}
+
+// `contacts` is the directory the rep is looked up in
+export function draftVendorEmail(input: VendorEmailInput, contacts: Contact[]): VendorEmail {
+  const template = VENDOR_TEMPLATES[input.kind];
+  if (!template) {
+    throw new Error(`kind must be one of: ${VENDOR_EMAIL_KINDS.join(', ')}`);
+  }
+  if (!input.projectName?.trim()) throw new Error('projectName is required');
+  if (!input.bidDate?.trim()) throw new Error('bidDate is required');
+
+  const rep = findVendorRep(contacts, input.kind);
+  const notes = rep ? [] : [`No ${template.repRole.toLowerCase()} at ${template.vendor} in the contacts directory; add the recipient before sending.`];
+
+  const attachments = input.attachments?.length ? input.attachments : template.defaultAttachments;
+  const scope = input.scope?.trim();
+
+  const values: Record<string, string> = {
+    projectName: input.projectName.trim(),
+    bidDate: formatBidDate(input.bidDate),
+    scope: scope || '[Scope]',
+    scopeLine: scope && input.kind !== 'shop_drawings' ? `\nScope: ${scope}\n` : '',
+    attachmentList: input.attachments?.length ? `\nAttachments:\n${input.attachments.map(name => `- ${name}`).join('\n')}\n` : '',
+    drawingsLink: input.drawingsLink?.trim() || '[Insert Link]',
+    specsLink: input.specsLink?.trim() || '[Insert Link]',
+    senderName: input.senderName?.trim() || '[Your Name]',
+    greeting: rep ? `Good morning ${rep.name.trim().split(/\s+/)[0]}` : 'Good morning'
+  };
+
+  // Optional lines leave a blank line behind when empty
+  const body = fillTemplate(template.body, values).replace(/\n{3,}/g, '\n\n');
+
+  return {
+    kind: input.kind,
+    vendor: template.vendor,
+    from: ESTIMATING_SENDER,
+    to: rep ? { name: rep.name, email: rep.email! } : { name: template.vendor, email: '' },
+    subject: fillTemplate(template.subject, values),
+    body,
+    attachments,
+    notes
+  };
+}
+
+export function formatAddress(address: EmailAddress) {
+  return address.email ? `${address.name} <${address.email}>` : address.name;
+}
+
+export function toMailtoUrl(email: EmailDraft) {
+  const params = `subject=${encodeURIComponent(email.subject)}&body=${encodeURIComponent(email.body)}`;
+  return `mailto:${email.to.email}?${params}`;
+}
+
+// RFC 2047 encoded word, so non-ASCII names and subjects survive mail clients
+function encodeHeader(value: string) {
+  if (/^[\x20-\x7E]*$/.test(value)) return value;
+  const bytes = new TextEncoder().encode(value);
+  return `=?UTF-8?B?${btoa(String.fromCharCode(...bytes))}?=`;
+}
+
+// Draft message that opens in Outlook or Apple Mail ready to send
+// (X-Unsent). Attachments are listed in the body and added by hand.
+export function toEml(email: EmailDraft) {
+  const headers = [
+    `From: ${encodeHeader(email.from.name)} <${email.from.email}>`,
+    `To: ${email.to.email ? `${encodeHeader(email.to.name)} <${email.to.email}>` : ''}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    'X-Unsent: 1',
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ];
+  return `${headers.join('\r\n')}\r\n\r\n${email.body.replace(/\r?\n/g, '\r\n')}\r\n`;
+}
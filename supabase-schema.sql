@@ -44,4 +44,394 @@ $$ language 'plpgsql';
 CREATE TRIGGER update_chats_updated_at 
   BEFORE UPDATE ON chats 
   FOR EACH ROW 
-  EXECUTE FUNCTION update_updated_at_column(); 
\ No newline at end of file
+  EXECUTE FUNCTION update_updated_at_column(); 
+
+-- Create messages table for storing conversation history
+CREATE TABLE IF NOT EXISTS messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id TEXT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL DEFAULT '',
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ type, name, url }]
+  tool_calls JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ id, name, arguments, output }]
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for history loading and reporting queries
+CREATE INDEX IF NOT EXISTS idx_messages_chat_id_created_at ON messages(chat_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_user_id ON messages(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to only see their own messages
+CREATE POLICY "Users can view their own messages" ON messages
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert messages into their own chats
+CREATE POLICY "Users can insert messages into their own chats" ON messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM chats WHERE chats.id = chat_id AND chats.user_id = auth.uid())
+  );
+
+-- Create policy to allow users to delete their own messages
+CREATE POLICY "Users can delete their own messages" ON messages
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Mark assistant messages that were stopped before the run finished
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS interrupted BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Sources cited by assistant messages: [{ index, type, title, quote, page, url, fileId }]
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS citations JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Create knowledge_documents table for company documents indexed for the assistant
+CREATE TABLE IF NOT EXISTS knowledge_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL, -- Original file name; every upload of a name is a new version
+  version INTEGER NOT NULL DEFAULT 1,
+  file_type TEXT NOT NULL CHECK (file_type IN ('pdf', 'docx', 'markdown')),
+  size_bytes INTEGER NOT NULL,
+  chunk_count INTEGER NOT NULL,
+  provider TEXT NOT NULL, -- LLM provider that indexed the file
+  file_id TEXT, -- Provider file ID, NULL once the version is no longer indexed
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'superseded')),
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (name, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_name ON knowledge_documents(name);
+
+-- Enable Row Level Security. There are no policies: only the admin API routes,
+-- using the service role key, read and write this table.
+ALTER TABLE knowledge_documents ENABLE ROW LEVEL SECURITY;
+
+-- Create estimating_settings table for rate overrides admins edit in the app
+CREATE TABLE IF NOT EXISTS estimating_settings (
+  id TEXT PRIMARY KEY, -- 'rates'
+  value JSONB NOT NULL DEFAULT '{}'::jsonb, -- Overrides of the defaults in src/lib/estimating/rates.ts
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security. There are no policies: only the server, using the
+-- service role key, reads and writes this table.
+ALTER TABLE estimating_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create proposals table for bid proposals built with the assistant
+CREATE TABLE IF NOT EXISTS proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chat_id TEXT, -- Chat the proposal was built in
+  project_name TEXT NOT NULL,
+  gc_name TEXT,
+  recipient_name TEXT,
+  recipient_email TEXT,
+  bid_date TEXT, -- As written on the bid form
+  scope_of_work TEXT,
+  base_bid NUMERIC(12, 2),
+  alternates JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ description, amount }]
+  clarifications JSONB NOT NULL DEFAULT '[]'::jsonb, -- [text]
+  exclusions JSONB NOT NULL DEFAULT '[]'::jsonb, -- [text]
+  payment_terms TEXT,
+  lead_times TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposals_user_id ON proposals(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE proposals ENABLE ROW LEVEL SECURITY;
+
+-- Create policies so users only see and change their own proposals
+CREATE POLICY "Users can view their own proposals" ON proposals
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own proposals" ON proposals
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own proposals" ON proposals
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own proposals" ON proposals
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_proposals_updated_at
+  BEFORE UPDATE ON proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create contacts table for the company directory the assistant looks people up in
+CREATE TABLE IF NOT EXISTS contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  role TEXT, -- e.g. Owner, Senior Project Manager, Glass rep
+  company TEXT,
+  email TEXT,
+  phone TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security. Signed-in users can read the directory; only the
+-- admin API routes, using the service role key, change it.
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view contacts" ON contacts
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_contacts_updated_at
+  BEFORE UPDATE ON contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the directory with the contacts the assistant was trained on
+INSERT INTO contacts (name, role, company, email)
+SELECT seed.name, seed.role, seed.company, seed.email
+FROM (VALUES
+  ('Tiffin Hubbard', 'Owner', 'First Glass of Arkansas', 'Tiffin@FirstGlassAR.com'),
+  ('Nat Long', 'Senior Project Manager', 'First Glass of Arkansas', 'Nat@FirstGlassAR.com'),
+  ('Blake Neafus', 'Glass rep', 'Tristar Glass', 'BlakeN@tristarglass.com'),
+  ('Cheryl First', 'Hardware rep', 'IML', 'Cheryl.first@imlss.com'),
+  ('Luke VanWyck', 'Shop drawings', 'Advantage Drafting', 'luke@advantagedrafting.com')
+) AS seed(name, role, company, email)
+WHERE NOT EXISTS (SELECT 1 FROM contacts WHERE contacts.name = seed.name);
+
+-- Create projects table for the bid list and bid calendar
+CREATE TABLE IF NOT EXISTS projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  gc_name TEXT,
+  bid_date DATE,
+  project_manager TEXT,
+  estimator TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'won', 'lost')),
+  scope TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_projects_bid_date ON projects(bid_date);
+
+-- Enable Row Level Security. The bid list is shared: everyone signed in can
+-- read, add and update projects. Deleting is left to the service role.
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view projects" ON projects
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Signed-in users can insert projects" ON projects
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Signed-in users can update projects" ON projects
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_projects_updated_at
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Job a chat is about: { projectName, gcName, bidDate, scope, glassTypes, notes }.
+-- Sent to the assistant as additional instructions on every run.
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS job_context JSONB;
+
+-- Rate limiter state for the Supabase store (src/lib/rateLimit). Only the
+-- service role reads and writes it, so RLS is on with no policies.
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY, -- user:<id> or ip:<address>
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS daily_usage (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  day DATE NOT NULL, -- Company day, Central time
+  messages INTEGER NOT NULL DEFAULT 0,
+  tokens BIGINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, day)
+);
+
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE daily_usage ENABLE ROW LEVEL SECURITY;
+
+-- Refill the bucket and take one request from it, locking the row so
+-- concurrent requests see each other. Returns 0 when a request was taken,
+-- otherwise the seconds until one is available.
+CREATE OR REPLACE FUNCTION take_rate_limit_token(p_key TEXT, p_capacity DOUBLE PRECISION, p_refill_per_second DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  available DOUBLE PRECISION;
+BEGIN
+  INSERT INTO rate_limit_buckets (key, tokens, updated_at)
+  VALUES (p_key, p_capacity, NOW())
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT LEAST(p_capacity, tokens + EXTRACT(EPOCH FROM (NOW() - updated_at)) * p_refill_per_second)
+  INTO available
+  FROM rate_limit_buckets
+  WHERE key = p_key
+  FOR UPDATE;
+
+  IF available < 1 THEN
+    UPDATE rate_limit_buckets SET tokens = available, updated_at = NOW() WHERE key = p_key;
+    RETURN (1 - available) / p_refill_per_second;
+  END IF;
+
+  UPDATE rate_limit_buckets SET tokens = available - 1, updated_at = NOW() WHERE key = p_key;
+
+  -- Now and then drop buckets left alone long enough to have refilled
+  -- (every bucket in src/lib/rateLimit refills within minutes), which are the
+  -- same as no row
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_buckets WHERE updated_at < NOW() - INTERVAL '1 hour';
+  END IF;
+  RETURN 0;
+END;
+$$ language 'plpgsql';
+
+-- Add to a user's usage for the day and return the new totals
+CREATE OR REPLACE FUNCTION add_daily_usage(p_user_id UUID, p_day DATE, p_messages INTEGER, p_tokens BIGINT)
+RETURNS TABLE (messages INTEGER, tokens BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  INSERT INTO daily_usage AS usage (user_id, day, messages, tokens)
+  VALUES (p_user_id, p_day, p_messages, p_tokens)
+  ON CONFLICT (user_id, day) DO UPDATE
+    SET messages = usage.messages + EXCLUDED.messages,
+        tokens = usage.tokens + EXCLUDED.tokens
+  RETURNING usage.messages, usage.tokens;
+END;
+$$ language 'plpgsql';
+
+-- Signed-in users must not reset their own limits through RPC
+REVOKE EXECUTE ON FUNCTION take_rate_limit_token(TEXT, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_daily_usage(UUID, DATE, INTEGER, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- Staff profiles with the role that decides what the assistant shares:
+-- employee, field, estimator, project_manager or admin. Pricing tools and
+-- margin data are limited to estimators, project managers and admins.
+CREATE TABLE IF NOT EXISTS profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  full_name TEXT,
+  role TEXT NOT NULL DEFAULT 'employee' CHECK (role IN ('employee', 'field', 'estimator', 'project_manager', 'admin')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security. Users can read their own profile; roles are
+-- changed by admins through the service role, so there are no write policies.
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own profile" ON profiles
+  FOR SELECT USING (auth.uid() = id);
+
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create a profile with the default role when someone signs up
+CREATE OR REPLACE FUNCTION create_profile_for_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'name')
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_profile_on_signup
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION create_profile_for_new_user();
+
+-- Profiles for users who signed up before roles existed
+INSERT INTO profiles (id, email, full_name)
+SELECT id, email, raw_user_meta_data->>'name' FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Account approval. Confirmed company addresses (ALLOWED_EMAIL_DOMAINS) are
+-- approved on their first request; anyone else waits for an invite or an
+-- admin. Existing accounts start pending too, so outside accounts created
+-- before sign-up was restricted need approving at /admin/users.
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (status IN ('pending', 'approved', 'revoked'));
+
+-- Whether the signed-in user's account is approved, for RLS policies on
+-- shared tables. SECURITY DEFINER so it can read the profile whatever the
+-- caller's policies are.
+CREATE OR REPLACE FUNCTION is_approved_user()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND status = 'approved');
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+-- Shared tables are only open to approved accounts
+DROP POLICY IF EXISTS "Signed-in users can view contacts" ON contacts;
+CREATE POLICY "Approved users can view contacts" ON contacts
+  FOR SELECT USING (is_approved_user());
+
+DROP POLICY IF EXISTS "Signed-in users can view projects" ON projects;
+DROP POLICY IF EXISTS "Signed-in users can insert projects" ON projects;
+DROP POLICY IF EXISTS "Signed-in users can update projects" ON projects;
+CREATE POLICY "Approved users can view projects" ON projects
+  FOR SELECT USING (is_approved_user());
+
+CREATE POLICY "Approved users can insert projects" ON projects
+  FOR INSERT WITH CHECK (is_approved_user());
+
+CREATE POLICY "Approved users can update projects" ON projects
+  FOR UPDATE USING (is_approved_user());
+
+-- Invites for people outside the company email domains. Only a hash of the
+-- token is stored. Admin routes use the service role, so there are no policies.
+CREATE TABLE IF NOT EXISTS invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL, -- Lowercase; the invite only approves this address
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE invites ENABLE ROW LEVEL SECURITY;
+
+-- Thread ids link chats to the assistant's conversation threads, and the
+-- server trusts them to decide whose thread a request reaches, so only the
+-- server (service role) writes them. Clients read has_thread instead.
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS has_thread BOOLEAN GENERATED ALWAYS AS (thread_id IS NOT NULL) STORED;
+
+REVOKE INSERT, UPDATE ON chats FROM anon, authenticated;
+GRANT INSERT (id, user_id, title, created_at, updated_at, job_context) ON chats TO authenticated;
+-- Upserts set every column they send, id and user_id included; the update
+-- policy still keeps user_id the caller's
+GRANT UPDATE (id, user_id, title, created_at, updated_at, job_context) ON chats TO authenticated;
+
+-- Restricted contacts, such as the owner, are only visible to estimators,
+-- project managers and admins (RESTRICTED_CONTACT_ROLES in src/lib/profiles.ts).
+-- ADMIN_EMAILS users have the admin role saved to their profile on sign-in,
+-- so the role checked here matches the one the app uses
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS restricted BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE contacts SET restricted = true
+WHERE role = 'Owner' AND company = 'First Glass of Arkansas';
+
+CREATE OR REPLACE FUNCTION can_see_restricted_contacts()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND status = 'approved' AND role IN ('estimator', 'project_manager', 'admin')
+  );
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Approved users can view contacts" ON contacts;
+CREATE POLICY "Approved users can view contacts" ON contacts
+  FOR SELECT USING (is_approved_user() AND (NOT restricted OR can_see_restricted_contacts()));
@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+// Unit tests run offline: LLM_PROVIDER is stubbed and nothing reaches the network
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) }
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    env: { LLM_PROVIDER: 'stub' }
+  }
+});